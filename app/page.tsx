@@ -7,39 +7,85 @@ import * as htmlToImage from 'html-to-image';
 import {
   Activity, Flame, HeartPulse, LineChart, Mountain, Timer,
   CalendarDays, Trophy, Dumbbell, Zap, Upload, Bike, Waves, Route,
-  Footprints, Ruler,
+  Footprints, Ruler, Map as MapIcon, Medal, Lightbulb, Clock,
 } from 'lucide-react';
 
 // ---- Extracted logic modules (see /lib) ----
 import type {
-  UnitSystem, Metrics, SleepMetrics, StepsMetrics,
-  ActivityTypeSummary, RawRow, Raw2D, CsvRow, UnitHint,
+  UnitSystem, Metrics, SleepMetrics, StepsMetrics, WellnessStore, DailyWellnessSummary, SleepStage, HeartTrend,
+  WeightEntry, BodyComposition,
+  ActivityTypeSummary, RawRow, Raw2D, CsvRow, UnitHint, ActivityFile,
 } from '../lib/types';
 import { parseCsvFile, PAPA_ROWS_CONFIG } from '../lib/parse';
 import { detectCsvKind } from '../lib/detect';
 import {
   formatDurationLong, formatDurationHMS, formatDurationMinutesToHuman,
-  formatPacePerUnit, formatSwimPacePer100m,
+  formatPacePerUnit, formatSwimPacePer100, formatClockTime, formatTimeOfDay, formatDateDisplay,
 } from '../lib/format';
-import { getLongestTypeLabel, getHighestEffortLabel } from '../lib/copy';
+import { getLongestTypeLabel, getHighestEffortLabel, pickStable } from '../lib/copy';
 import {
   buildActivityIndexMap, unitHintFromHeaderDistance, unitHintFromHeaderElev,
   mapActivityRowsByIndex,
 } from '../lib/activity-columns';
 import { computeMetrics } from '../lib/metrics';
+import { parseDeviceFile, isDeviceFileName } from '../lib/device-files';
+import { readGarminArchive, isZipFileName, MAX_ARCHIVE_TRACKS } from '../lib/archive';
+import { METRIC_FILE_UNIT_HINTS } from '../lib/normalize';
 import {
   mapSleepRowsByIndex, computeSleepMetrics,
   mapStepsRowsByIndex, computeStepsMetrics,
+  computeSleepMetricsFromDays, computeStepsMetricsFromDays, computeDailyWellnessSummary,
 } from '../lib/wellness';
-import { MARATHON_MI, FIVEK_MI, EVEREST_FT, FEET_PER_STEP } from '../lib/constants';
+import { mapDailyWellnessRows, mergeWellnessDays, partitionWellnessByYear, wellnessYears } from '../lib/wellness-days';
+import { MARATHON_MI, FIVEK_MI, EVEREST_FT, FEET_PER_STEP, YARD_M, MILE_M } from '../lib/constants';
 import StatCard from '../components/StatCard';
 import MonthlyBars from '../components/MonthlyBars';
+import RouteHeatmap from '../components/RouteHeatmap';
+import ZoneBars, { ZONE_COLORS } from '../components/ZoneBars';
+import LoadChart from '../components/LoadChart';
+import PaceCadenceScatter from '../components/PaceCadenceScatter';
+import CalendarHeatmap from '../components/CalendarHeatmap';
+import WeeklyBars from '../components/WeeklyBars';
+import StartTimeGrid from '../components/StartTimeGrid';
+import Sparkline from '../components/Sparkline';
 import StoryMode from '../components/StoryMode';
 import type { StoryScene, MotifKey, StoryStat } from '../components/StoryMode';
+import StorySceneEditor, { EMPTY_STORY_EDITS, applyStoryEdits, parseStoryEdits } from '../components/StorySceneEditor';
+import type { StoryEdits } from '../components/StorySceneEditor';
+import IGCarousel from '../components/ig/IGCarousel';
+import type { IGSlideData } from '../components/ig/IGSlide';
+import { IG_TAGLINES } from '../components/ig/config';
+import type { IGSlideKey } from '../components/ig/config';
 import { compareYears, partitionByYear, yearsPresent } from '../lib/compare';
 import type { YearComparison, MetricDelta } from '../lib/compare';
 import { computeTrends } from '../lib/trends';
 import type { TrendMetrics } from '../lib/trends';
+import { computeRouteHeatmap, heatmapAreaKm2 } from '../lib/heatmap';
+import type { RouteHeatmap as RouteHeatmapData } from '../lib/heatmap';
+import { computePersonalRecords } from '../lib/records';
+import { detectRaces, racesInYear } from '../lib/races';
+import type { DetectedRace } from '../lib/races';
+import {
+  computeZoneBreakdown, defaultZoneModel, estimateMaxHr, isValidZoneModel,
+  suggestedReferenceHr, zoneRangeLabels,
+} from '../lib/zones';
+import type { ZoneBasis, ZoneBreakdown, ZoneModel, ZoneSport } from '../lib/zones';
+import { computeTrainingLoad, loadHeartRates } from '../lib/load';
+import { calendarView, computeTrainingCalendar } from '../lib/calendar';
+import type { CalendarCell, CalendarMetric, CalendarSport, TrainingCalendar } from '../lib/calendar';
+import { computeWeeklyVolume, rollingAverage, weeklyConsistency } from '../lib/weekly';
+import type { WeeklyVolume } from '../lib/weekly';
+import { computeHabits } from '../lib/habits';
+import type { Chronotype, Habits } from '../lib/habits';
+import { POWER_BANDS } from '../lib/power';
+import { computeRunningForm } from '../lib/running-form';
+import { computeHeartTrend } from '../lib/heart';
+import { computeInsights } from '../lib/insights';
+import { KG_PER_LB, computeBodyComposition, mapWeightRows, mergeWeightEntries, weightYears } from '../lib/body';
+import type { RunningForm } from '../lib/running-form';
+import type { TrainingLoad } from '../lib/load';
+import type { Insight } from '../lib/insights';
+import type { PersonalRecords, RecordEntry, BestEffort } from '../lib/records';
 
 /* =================================== UI =================================== */
 
@@ -67,6 +113,27 @@ function DeltaChip({ delta, lowerIsBetter = false }: { delta: MetricDelta; lower
 }
 
 const RECAP_STORAGE_KEY = 'fw_recap_stat_ids_v1';
+const STORY_EDITS_STORAGE_KEY = 'fw_story_edits_v1';
+const ZONES_STORAGE_KEY = 'fw_hr_zones_v1';
+const BODY_STORAGE_KEY = 'fw_body_prefs_v1';
+// Power intensity bands, easy → hard (same order as POWER_BANDS).
+const POWER_BAND_COLORS = ['#60a5fa', '#4ade80', '#facc15', '#fb923c', '#f87171'];
+// Sleep stages, deepest first.
+const SLEEP_STAGES: Array<{ key: SleepStage; label: string; color: string }> = [
+  { key: 'deep', label: 'Deep', color: '#4f46e5' },
+  { key: 'rem', label: 'REM', color: '#a855f7' },
+  { key: 'light', label: 'Light', color: '#60a5fa' },
+  { key: 'awake', label: 'Awake', color: '#f472b6' },
+];
+// Chronotype → label and the part of the day it's named for (Habits['shares']).
+const CHRONOTYPES: Record<Chronotype, { label: string; part: keyof Habits['shares'] | null; when: string }> = {
+  'early-bird': { label: 'Early bird', part: 'morning', when: 'before 11 a.m.' },
+  'lunch-break': { label: 'Lunch-break athlete', part: 'midday', when: 'between 11 a.m. and 2 p.m.' },
+  afternoon: { label: 'Afternoon regular', part: 'afternoon', when: 'between 2 and 6 p.m.' },
+  'night-owl': { label: 'Night owl', part: 'evening', when: 'after 6 p.m.' },
+  anytime: { label: 'Anytime athlete', part: null, when: 'whenever it fit' },
+};
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
 const DEFAULT_RECAP_IDS = ['distance', 'time', 'sessions', 'calories', 'maxHr', 'elevation', 'steps', 'sleep'];
 
 export default function Home() {
@@ -77,18 +144,46 @@ export default function Home() {
     useState<{ distance: UnitHint; ascent: UnitHint; elevation: UnitHint } | null>(null);
   const [focusYear, setFocusYear] = useState<number | null>(null);
   const [trendSport, setTrendSport] = useState<'all' | 'run' | 'bike' | 'swim' | 'other'>('all');
+  const [calendarSport, setCalendarSport] = useState<CalendarSport | 'all'>('all');
+  const [calendarMetric, setCalendarMetric] = useState<CalendarMetric>('duration');
+  const [weeklySport, setWeeklySport] = useState<CalendarSport | 'all'>('all');
+  const [weeklyMeasure, setWeeklyMeasure] = useState<'distance' | 'time'>('distance');
+  const [weeklyMinSessions, setWeeklyMinSessions] = useState(2);
+  // Decoded device files (GPS samples) — only set for .fit/.gpx/.tcx and archive uploads.
+  const [deviceActivities, setDeviceActivities] = useState<ActivityFile[] | null>(null);
+  const [tracksSkipped, setTracksSkipped] = useState(0);   // archive device files past MAX_ARCHIVE_TRACKS
+  const [mapZoom, setMapZoom] = useState<'focus' | 'all'>('focus');
   const [storyOpen, setStoryOpen] = useState(false);
+  const [igOpen, setIgOpen] = useState(false);
   const [showRecapCustomize, setShowRecapCustomize] = useState(false);
   const [recapStatIds, setRecapStatIds] = useState<string[]>(DEFAULT_RECAP_IDS);
   const [recapHydrated, setRecapHydrated] = useState(false);
+  // Story scene order, hidden scenes, text overrides and free-text scenes.
+  const [storyEdits, setStoryEdits] = useState<StoryEdits>(EMPTY_STORY_EDITS);
+  const [storyEditsHydrated, setStoryEditsHydrated] = useState(false);
+  const [showStoryEditor, setShowStoryEditor] = useState(false);
+  // HR zones: null = automatic (%max HR from the highest Max HR in the data).
+  const [zoneModel, setZoneModel] = useState<ZoneModel | null>(null);
+  const [zonesHydrated, setZonesHydrated] = useState(false);
+  const [showZoneSettings, setShowZoneSettings] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [sleepMetrics, setSleepMetrics] = useState<SleepMetrics | null>(null);
+  // Weekly 1-year reports (can't split by year) — used when the daily store has nothing.
+  const [sleepReport, setSleepReport] = useState<SleepMetrics | null>(null);
   const [sleepError, setSleepError] = useState<string | null>(null);
 
-  const [stepsMetrics, setStepsMetrics] = useState<StepsMetrics | null>(null);
+  const [stepsReport, setStepsReport] = useState<StepsMetrics | null>(null);
   const [stepsError, setStepsError] = useState<string | null>(null);
 
+  // Day-keyed wellness from daily report CSVs and the account archive.
+  const [wellnessStore, setWellnessStore] = useState<WellnessStore | null>(null);
+  const [wellnessError, setWellnessError] = useState<string | null>(null);
+
+  // Weigh-ins stay off the dashboard and story until the user opts in.
+  const [weightEntries, setWeightEntries] = useState<WeightEntry[] | null>(null);
+  const [bodyPrefs, setBodyPrefs] = useState<{ show: boolean; hideAbsolute: boolean }>({ show: false, hideAbsolute: false });
+  const [bodyPrefsHydrated, setBodyPrefsHydrated] = useState(false);
+
   const pageRef = useRef<HTMLDivElement | null>(null);
 
 
@@ -105,6 +200,8 @@ export default function Home() {
       if (kind === 'sleep' || kind === 'steps') {
         setActivityRows(null);
         setActivityUnitHints(null);
+        setDeviceActivities(null);
+        setTracksSkipped(0);
         setFocusYear(null);
         setError(
           kind === 'sleep'
@@ -132,17 +229,84 @@ export default function Home() {
 
       setActivityRows(rows);
       setActivityUnitHints(unitHints);
+      setDeviceActivities(null);
+      setTracksSkipped(0);
       setFocusYear(pickDefaultFocusYear(years));
       setError(null);
     } catch (e) {
       console.error(e);
       setActivityRows(null);
       setActivityUnitHints(null);
+      setDeviceActivities(null);
+      setTracksSkipped(0);
       setFocusYear(null);
       setError('Failed reading that Activities CSV.');
     }
   };
 
+  /* -------- Activities from device files (.fit / .gpx / .tcx, one row per activity) -------- */
+  const handleDeviceFiles = async (files: File[]) => {
+    try {
+      const decoded = await Promise.all(files.map(async (f) => {
+        try {
+          return await parseDeviceFile(f);
+        } catch (err) {
+          console.warn(`Skipping unreadable activity file ${f.name}`, err);
+          return [];
+        }
+      }));
+      const activities = decoded.flat();
+      const rows = activities.map((a) => a.row);
+      if (!rows.length) throw new Error('No activities found in those files.');
+      const years = yearsPresent(rows);
+      if (!years.length) throw new Error('No dated activities found.');
+
+      setActivityRows(rows);
+      setActivityUnitHints(METRIC_FILE_UNIT_HINTS);
+      setDeviceActivities(activities);
+      setTracksSkipped(0);
+      setFocusYear(pickDefaultFocusYear(years));
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setActivityRows(null);
+      setActivityUnitHints(null);
+      setDeviceActivities(null);
+      setTracksSkipped(0);
+      setFocusYear(null);
+      setError('Failed reading those activity files.');
+    }
+  };
+
+  /* -------- Garmin account archive (.zip): activities + daily wellness in one go -------- */
+  const handleArchiveFile = async (file: File) => {
+    try {
+      const { activities, tracks, tracksSkipped: skipped, wellness, weights } = await readGarminArchive(file);
+      if (!activities.length && !wellness.length && !weights.length) {
+        throw new Error('No activities, sleep or steps found in that archive.');
+      }
+
+      if (activities.length) {
+        const years = yearsPresent(activities);
+        if (!years.length) throw new Error('No dated activities found.');
+        setActivityRows(activities);
+        setActivityUnitHints(METRIC_FILE_UNIT_HINTS);
+        setDeviceActivities(tracks.length ? tracks : null);
+        setTracksSkipped(skipped);
+        setFocusYear(pickDefaultFocusYear(years));
+      }
+      if (wellness.length) {
+        setWellnessStore((prev) => mergeWellnessDays(prev, wellness));
+        setSleepError(null); setStepsError(null); setWellnessError(null);
+      }
+      if (weights.length) setWeightEntries((prev) => mergeWeightEntries(prev, weights));
+      setError(activities.length ? null : 'That archive has no activities — sleep and steps were loaded.');
+    } catch (e) {
+      console.error(e);
+      setError('Failed reading that Garmin archive ZIP.');
+    }
+  };
+
   /* -------- Sleep (headerless + heuristics) -------- */
   const handleSleepFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]; if (!file) return;
@@ -154,7 +318,7 @@ export default function Home() {
 
       const kind = detectCsvKind(raw2D);
       if (kind === 'activities' || kind === 'steps') {
-        setSleepMetrics(null);
+        setSleepReport(null);
         setSleepError(
           kind === 'activities'
             ? 'That looks like your Activities export — use “Upload Activities”.'
@@ -163,12 +327,19 @@ export default function Home() {
         return;
       }
 
+      // A daily export (7 days / 4 weeks) goes into the store; the 1-year report is weekly.
+      const days = mapDailyWellnessRows(raw2D);
+      if (days.some((d) => d.sleepScore != null || d.sleepMinutes != null)) {
+        setWellnessStore((prev) => mergeWellnessDays(prev, days));
+        return;
+      }
+
       const rows = mapSleepRowsByIndex(raw2D);
       const m = computeSleepMetrics(rows);
-      setSleepMetrics(m);
+      setSleepReport(m);
     } catch (e) {
       console.error(e);
-      setSleepMetrics(null);
+      setSleepReport(null);
       setSleepError('Failed to parse Sleep CSV.');
     }
   };
@@ -184,7 +355,7 @@ export default function Home() {
 
       const kind = detectCsvKind(raw2D);
       if (kind === 'activities' || kind === 'sleep') {
-        setStepsMetrics(null);
+        setStepsReport(null);
         setStepsError(
           kind === 'activities'
             ? 'That looks like your Activities export — use “Upload Activities”.'
@@ -193,25 +364,69 @@ export default function Home() {
         return;
       }
 
+      const days = mapDailyWellnessRows(raw2D);
+      if (days.some((d) => d.steps != null)) {
+        setWellnessStore((prev) => mergeWellnessDays(prev, days));
+        return;
+      }
+
       const rows = mapStepsRowsByIndex(raw2D);
       const m = computeStepsMetrics(rows);
-      setStepsMetrics(m);
+      setStepsReport(m);
     } catch (e) {
       console.error(e);
-      setStepsMetrics(null);
+      setStepsReport(null);
       setStepsError('Failed to parse Steps CSV.');
     }
   };
 
+  /* -------- Daily wellness reports (resting HR, HRV, stress, Body Battery, weight, …) -------- */
+  const handleWellnessFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []); if (!files.length) return;
+    setWellnessError(null);
+    try {
+      const parsed = await Promise.all(files.map(async (file) => {
+        const results = await parseCsvFile<RawRow>(file, PAPA_ROWS_CONFIG);
+        const raw2D = (results.data as Raw2D).filter(r => r && r.length > 0);
+        // The Weight export has its own layout; everything else is a daily report.
+        const weights = mapWeightRows(raw2D, unitSystem === 'imperial' ? 'lb' : 'kg');
+        return weights.length ? { days: [], weights } : { days: mapDailyWellnessRows(raw2D), weights };
+      }));
+      const days = parsed.flatMap((p) => p.days);
+      const weights = parsed.flatMap((p) => p.weights);
+      if (!days.length && !weights.length) {
+        setWellnessError('No daily rows found — export a 7-day or 4-week report, not the 1-year one.');
+        return;
+      }
+      if (days.length) setWellnessStore((prev) => mergeWellnessDays(prev, days));
+      if (weights.length) setWeightEntries((prev) => mergeWeightEntries(prev, weights));
+    } catch (e) {
+      console.error(e);
+      setWellnessError('Failed to parse those wellness CSVs.');
+    }
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]; if (!file) return;
+    const files = Array.from(e.target.files ?? []); if (!files.length) return;
     if (!unitSystem) {
       setError('Select units (Imperial or Metric) before uploading.');
       e.currentTarget.value = '';
       return;
     }
     setError(null);
-    await handleActivitiesFile(file);
+    const zipFile = files.find((f) => isZipFileName(f.name));
+    if (zipFile) {
+      if (files.length > 1) { setError('Upload the Garmin archive ZIP on its own.'); return; }
+      await handleArchiveFile(zipFile);
+      return;
+    }
+    const deviceFiles = files.filter((f) => isDeviceFileName(f.name));
+    if (deviceFiles.length && deviceFiles.length < files.length) {
+      setError('Upload either one Activities CSV or your .fit/.gpx/.tcx files — not both at once.');
+      return;
+    }
+    if (deviceFiles.length) await handleDeviceFiles(deviceFiles);
+    else await handleActivitiesFile(files[0]!);
   };
 
   const handleDownloadImage = async () => {
@@ -248,9 +463,117 @@ export default function Home() {
     return computeTrends(rowsForYear, unitSystem, activityUnitHints);
   }, [activityRows, activityUnitHints, unitSystem, focusYear]);
 
-  // Reset the chart's sport filter when switching years.
+  const runningForm = useMemo<RunningForm | null>(() => {
+    if (!activityRows || !activityUnitHints || !unitSystem || focusYear == null) return null;
+    const rowsForYear = partitionByYear(activityRows).get(focusYear) ?? [];
+    return computeRunningForm(rowsForYear, unitSystem, activityUnitHints);
+  }, [activityRows, activityUnitHints, unitSystem, focusYear]);
+
+  const routeHeatmap = useMemo<RouteHeatmapData | null>(() => {
+    if (!deviceActivities || focusYear == null) return null;
+    const rowsForYear = new Set(partitionByYear(deviceActivities.map((a) => a.row)).get(focusYear) ?? []);
+    return computeRouteHeatmap(deviceActivities.filter((a) => rowsForYear.has(a.row)).map((a) => a.track));
+  }, [deviceActivities, focusYear]);
+
+  const observedMaxHr = useMemo(() => (activityRows ? estimateMaxHr(activityRows) : null), [activityRows]);
+  const effectiveZoneModel = useMemo<ZoneModel | null>(() => {
+    if (zoneModel && isValidZoneModel(zoneModel)) return zoneModel;
+    return observedMaxHr ? defaultZoneModel('maxHr', observedMaxHr) : null;
+  }, [zoneModel, observedMaxHr]);
+
+  const zoneBreakdown = useMemo<ZoneBreakdown | null>(() => {
+    if (!activityRows || !effectiveZoneModel || focusYear == null) return null;
+    const rowsForYear = partitionByYear(activityRows).get(focusYear) ?? [];
+    const zb = computeZoneBreakdown(rowsForYear, deviceActivities, effectiveZoneModel);
+    return zb.easyShare == null ? null : zb;
+  }, [activityRows, deviceActivities, effectiveZoneModel, focusYear]);
+
+  // Wellness follows the focus year; with no activities loaded, its own latest year.
+  const wellnessYear = useMemo<number | null>(() => {
+    if (!wellnessStore) return null;
+    return focusYear ?? wellnessYears(wellnessStore).pop() ?? null;
+  }, [wellnessStore, focusYear]);
+
+  const wellnessDays = useMemo(() => {
+    if (!wellnessStore || wellnessYear == null) return [];
+    return partitionWellnessByYear(wellnessStore).get(wellnessYear) ?? [];
+  }, [wellnessStore, wellnessYear]);
+
+  const sleepMetrics = useMemo<SleepMetrics | null>(
+    () => computeSleepMetricsFromDays(wellnessDays) ?? sleepReport,
+    [wellnessDays, sleepReport]
+  );
+  const stepsMetrics = useMemo<StepsMetrics | null>(
+    () => computeStepsMetricsFromDays(wellnessDays) ?? stepsReport,
+    [wellnessDays, stepsReport]
+  );
+  const dailyWellness = useMemo<DailyWellnessSummary | null>(
+    () => computeDailyWellnessSummary(wellnessDays),
+    [wellnessDays]
+  );
+  // TRIMP's resting HR: the focus year's average from the wellness data, else load.ts's default.
+  const restHr = wellnessYear === focusYear ? dailyWellness?.avgRestingHr ?? undefined : undefined;
+
+  // Fitness/fatigue curves are warmed up on every earlier year, then shown for the focus year.
+  const trainingLoad = useMemo<TrainingLoad | null>(() => {
+    if (!activityRows || focusYear == null) return null;
+    return computeTrainingLoad(activityRows, focusYear, { restHr });
+  }, [activityRows, focusYear, restHr]);
+
+  // Day-by-day calendar; loads use the same HR bounds as the fitness curves.
+  const trainingCalendar = useMemo<TrainingCalendar | null>(() => {
+    if (!activityRows || !activityUnitHints || !unitSystem || focusYear == null) return null;
+    const rowsForYear = partitionByYear(activityRows).get(focusYear) ?? [];
+    return computeTrainingCalendar(rowsForYear, focusYear, unitSystem, activityUnitHints, loadHeartRates(activityRows, restHr));
+  }, [activityRows, activityUnitHints, unitSystem, focusYear, restHr]);
+
+  const habits = useMemo<Habits | null>(() => {
+    if (!activityRows || focusYear == null) return null;
+    return computeHabits(partitionByYear(activityRows).get(focusYear) ?? []);
+  }, [activityRows, focusYear]);
+
+  // ISO weeks straddle New Year, so they're cut from every row rather than the year's rows.
+  const weeklyVolume = useMemo<WeeklyVolume | null>(() => {
+    if (!activityRows || !activityUnitHints || !unitSystem || focusYear == null) return null;
+    return computeWeeklyVolume(activityRows, focusYear, unitSystem, activityUnitHints);
+  }, [activityRows, activityUnitHints, unitSystem, focusYear]);
+
+  // Races are classified over the whole history (pace baseline), then cut to the focus year.
+  const races = useMemo<DetectedRace[]>(() => {
+    if (!activityRows || !activityUnitHints || !unitSystem || focusYear == null) return [];
+    return racesInYear(detectRaces(activityRows, unitSystem, activityUnitHints), focusYear);
+  }, [activityRows, activityUnitHints, unitSystem, focusYear]);
+
+  // Best efforts need every year's tracks: "PR" means best across all of them.
+  const records = useMemo<PersonalRecords | null>(() => {
+    if (!deviceActivities || focusYear == null) return null;
+    return computePersonalRecords(deviceActivities, focusYear);
+  }, [deviceActivities, focusYear]);
+
+  // Monthly training time links recovery to volume when the wellness year is the focus year.
+  const heartTrend = useMemo<HeartTrend | null>(
+    () => computeHeartTrend(wellnessDays, wellnessYear === focusYear ? trends?.monthly.map((p) => p.seconds) : undefined),
+    [wellnessDays, wellnessYear, focusYear, trends]
+  );
+  // Training vs recovery needs both sides from the same year.
+  const insights = useMemo<Insight[]>(
+    () => (trainingLoad && wellnessYear === focusYear ? computeInsights(trainingLoad.days, wellnessDays) : []),
+    [trainingLoad, wellnessDays, wellnessYear, focusYear]
+  );
+
+  // Weight follows the focus year too, else its own latest year.
+  const body = useMemo<BodyComposition | null>(() => {
+    if (!weightEntries?.length) return null;
+    const year = focusYear ?? weightYears(weightEntries).pop();
+    return year != null ? computeBodyComposition(weightEntries, year) : null;
+  }, [weightEntries, focusYear]);
+
+  // Reset the chart's sport filter and the map zoom when switching years.
   useEffect(() => {
     setTrendSport('all');
+    setCalendarSport('all');
+    setWeeklySport('all');
+    setMapZoom('focus');
   }, [focusYear]);
 
   // Load the saved recap selection once on mount (client only), then persist changes.
@@ -277,6 +600,82 @@ export default function Home() {
       /* ignore */
     }
   }, [recapHydrated, recapStatIds]);
+
+  // Same load-once-then-persist pattern for the story scene edits.
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(STORY_EDITS_STORAGE_KEY);
+      const parsed = raw ? parseStoryEdits(JSON.parse(raw)) : null;
+      if (parsed) setStoryEdits(parsed);
+    } catch {
+      /* ignore unavailable/blocked storage */
+    }
+    setStoryEditsHydrated(true);
+  }, []);
+
+  useEffect(() => {
+    if (!storyEditsHydrated) return;
+    try {
+      localStorage.setItem(STORY_EDITS_STORAGE_KEY, JSON.stringify(storyEdits));
+    } catch {
+      /* ignore */
+    }
+  }, [storyEditsHydrated, storyEdits]);
+
+  // Same load-once-then-persist pattern for the HR zone model.
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(ZONES_STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as Partial<ZoneModel> | null;
+        if (
+          parsed && (parsed.basis === 'maxHr' || parsed.basis === 'lthr') &&
+          typeof parsed.referenceHr === 'number' &&
+          Array.isArray(parsed.upperPct) && parsed.upperPct.length === 4 && parsed.upperPct.every((x) => typeof x === 'number')
+        ) {
+          setZoneModel(parsed as ZoneModel);
+        }
+      }
+    } catch {
+      /* ignore unavailable/blocked storage */
+    }
+    setZonesHydrated(true);
+  }, []);
+
+  useEffect(() => {
+    if (!zonesHydrated) return;
+    try {
+      if (zoneModel) localStorage.setItem(ZONES_STORAGE_KEY, JSON.stringify(zoneModel));
+      else localStorage.removeItem(ZONES_STORAGE_KEY);
+    } catch {
+      /* ignore */
+    }
+  }, [zonesHydrated, zoneModel]);
+
+  // Same again for the body-composition opt-in and privacy toggle.
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(BODY_STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as Partial<{ show: boolean; hideAbsolute: boolean }> | null;
+        if (parsed && typeof parsed.show === 'boolean' && typeof parsed.hideAbsolute === 'boolean') {
+          setBodyPrefs({ show: parsed.show, hideAbsolute: parsed.hideAbsolute });
+        }
+      }
+    } catch {
+      /* ignore unavailable/blocked storage */
+    }
+    setBodyPrefsHydrated(true);
+  }, []);
+
+  useEffect(() => {
+    if (!bodyPrefsHydrated) return;
+    try {
+      localStorage.setItem(BODY_STORAGE_KEY, JSON.stringify(bodyPrefs));
+    } catch {
+      /* ignore */
+    }
+  }, [bodyPrefsHydrated, bodyPrefs]);
   const step = stepsMetrics;
 
   const isMetric = unitSystem === 'metric';
@@ -313,6 +712,9 @@ export default function Home() {
             ),
             sub: `was ${fmtPaceFromSecPerMi(d.runPaceSecPerMi.prior)} in ${priorYear}`,
           },
+          ...(d.races.current || d.races.prior
+            ? [{ label: 'Races', value: d.races.current.toLocaleString(), chip: <DeltaChip delta={d.races} />, sub: `was ${d.races.prior.toLocaleString()} in ${priorYear}` }]
+            : []),
         ];
       })()
     : [];
@@ -352,6 +754,86 @@ export default function Home() {
       })()
     : null;
 
+  // Calendar filters offer only the sports and measures the year actually has.
+  const calendarSportOptions: Array<{ key: CalendarSport | 'all'; label: string }> = trainingCalendar
+    ? [
+        { key: 'all', label: 'All' },
+        ...(['run', 'bike', 'swim', 'other'] as const)
+          .filter((k) => trainingCalendar.days.some((d) => d.sessions.some((x) => x.sport === k)))
+          .map((k) => ({ key: k, label: { run: 'Run', bike: 'Bike', swim: 'Swim', other: 'Other' }[k] })),
+      ]
+    : [];
+  const calendarMetricOptions: Array<{ key: CalendarMetric; label: string }> = [
+    { key: 'duration', label: 'Time' },
+    { key: 'distance', label: 'Distance' },
+    ...(trainingCalendar?.days.some((d) => d.sessions.some((x) => x.load != null)) ? [{ key: 'load' as const, label: 'Load' }] : []),
+  ];
+  const effectiveCalendarSport = calendarSportOptions.some((o) => o.key === calendarSport) ? calendarSport : 'all';
+  const effectiveCalendarMetric = calendarMetricOptions.some((o) => o.key === calendarMetric) ? calendarMetric : 'duration';
+  const calendar = trainingCalendar ? calendarView(trainingCalendar, effectiveCalendarSport, effectiveCalendarMetric) : null;
+  const fmtCalendarDistance = (mi: number) =>
+    effectiveCalendarSport === 'swim' ? `${Math.round(mi * MILE_M).toLocaleString()} m` : `${toDist(mi).toFixed(1)} ${distUnit}`;
+  const describeCalendarDay = (c: CalendarCell) => {
+    const day = fmtIsoDay(c.date);
+    if (c.future) return `${day} · still to come`;
+    if (!c.shown.length) return `${day} · rest day`;
+    const distanceMi = c.shown.reduce((sum, x) => sum + x.distanceMi, 0);
+    const load = c.shown.reduce((sum, x) => sum + (x.load ?? 0), 0);
+    return [
+      day,
+      c.shown.map((x) => x.title).join(', '),
+      formatDurationHMS(c.shown.reduce((sum, x) => sum + x.seconds, 0)),
+      distanceMi > 0 ? fmtCalendarDistance(distanceMi) : null,
+      load > 0 ? `load ${Math.round(load)}` : null,
+    ].filter(Boolean).join(' · ');
+  };
+
+  const weeklySportOptions: Array<{ key: CalendarSport | 'all'; label: string }> = weeklyVolume
+    ? [
+        { key: 'all', label: 'All' },
+        ...(['run', 'bike', 'swim', 'other'] as const)
+          .filter((k) => weeklyVolume.weeks.some((w) => w.bySport[k].sessions > 0))
+          .map((k) => ({ key: k, label: { run: 'Run', bike: 'Bike', swim: 'Swim', other: 'Other' }[k] })),
+      ]
+    : [];
+  const effectiveWeeklySport = weeklySportOptions.some((o) => o.key === weeklySport) ? weeklySport : 'all';
+  const weeklyChart = weeklyVolume
+    ? (() => {
+        const totals = weeklyVolume.weeks.map((w) => (effectiveWeeklySport === 'all' ? w : w.bySport[effectiveWeeklySport]));
+        const values = weeklyMeasure === 'time'
+          ? totals.map((t) => t.seconds / 3600)
+          : effectiveWeeklySport === 'swim'
+            ? totals.map((t) => t.distanceMi * MILE_M)
+            : totals.map((t) => toDist(t.distanceMi));
+        const unit = weeklyMeasure === 'time' ? 'h' : effectiveWeeklySport === 'swim' ? 'm' : distUnit;
+        // Weeks still to come don't drag the average down.
+        const past = weeklyVolume.weeks.filter((w) => !w.future).length;
+        const average = rollingAverage(values.slice(0, past), 4);
+        const active = values.slice(0, past).filter((v) => v > 0);
+        return {
+          values,
+          average: [...average, ...values.slice(past).map(() => null)],
+          unit,
+          perActiveWeek: active.length ? active.reduce((a, b) => a + b, 0) / active.length : 0,
+          peak: values.reduce((best, v, i) => (v > values[best]! ? i : best), 0),
+          consistency: weeklyConsistency(weeklyVolume, effectiveWeeklySport, weeklyMinSessions),
+        };
+      })()
+    : null;
+  const fmtWeekly = (v: number, unit: string) =>
+    unit === 'h' ? `${v.toFixed(1)}h` : unit === 'm' ? `${Math.round(v).toLocaleString()} m` : `${v.toFixed(1)} ${unit}`;
+
+  const chronotype = habits ? CHRONOTYPES[habits.chronotype] : null;
+  const chronotypeLine = habits && chronotype
+    ? chronotype.part
+      ? `${Math.round(habits.shares[chronotype.part] * 100)}% of your sessions started ${chronotype.when}.`
+      : 'No part of the day won — you trained whenever it fit.'
+    : null;
+  const weekendShare = habits && habits.weekend.seconds + habits.weekday.seconds > 0
+    ? habits.weekend.seconds / (habits.weekend.seconds + habits.weekday.seconds)
+    : null;
+  const fmtHour = (h: number) => formatTimeOfDay(h * 60);
+
   const totalStepsStr = step ? step.totalSteps.toLocaleString() : null;
   const avgStepsStr = step?.avgStepsPerDay
     ? `${Math.round(step.avgStepsPerDay).toLocaleString()}/day`
@@ -472,15 +954,23 @@ export default function Home() {
       : `${bikeSpeedMph.toFixed(1)} mph`
     : '--';
 
-  // Swim already in meters
+  // Swim distances are meters; yard-pool swimmers see yards and pace per 100 yd.
+  const swim = m?.swim ?? null;
+  const swimUnit = swim?.displayUnit ?? 'm';
+  const fmtSwimDistance = (meters: number) =>
+    `${Math.round(swimUnit === 'yd' ? meters / YARD_M : meters).toLocaleString()} ${swimUnit}`;
   const swimDistanceStr =
-    m?.swimMeters != null ? `${m.swimMeters.toLocaleString()} m` : '--';
+    m?.swimMeters != null ? fmtSwimDistance(m.swimMeters) : '--';
   const swimTimeStr =
     m?.swimSeconds != null ? formatDurationHMS(m.swimSeconds) : '--';
   const swimPaceStr =
     m?.swimSeconds && m?.swimMeters
-      ? formatSwimPacePer100m(m.swimSeconds, m.swimMeters)
+      ? formatSwimPacePer100(m.swimSeconds, m.swimMeters, swimUnit)
       : '--';
+  const swimPaceByMonth = swim ? swim.monthlyPacePer100.map((v) => v ?? 0) : [];
+  const fastestSwimMonth = swim
+    ? swim.monthlyPacePer100.reduce<number | null>((best, v, i) => (v != null && (best == null || v < swim.monthlyPacePer100[best]!) ? i : best), null)
+    : null;
 
   // Steps → marathons / 5Ks (kept in miles internally)
   const stepsMiles = step ? (step.totalSteps * FEET_PER_STEP) / 5280 : 0;
@@ -497,9 +987,65 @@ export default function Home() {
 
   const topTypes: ActivityTypeSummary[] = m?.topActivityTypes ?? [];
 
+  // Route heatmap: unique ~250 m cells, shown as area in the user's units.
+  const heatmapAreaStr = routeHeatmap
+    ? isMetric
+      ? `${Math.round(heatmapAreaKm2(routeHeatmap)).toLocaleString()} km²`
+      : `${Math.round(heatmapAreaKm2(routeHeatmap) / 2.58999).toLocaleString()} mi²`
+    : '--';
+
   const longestTypeStr = m?.longestActivity ? getLongestTypeLabel(m.longestActivity) : 'Long day out';
   const highestEffortStr = m?.highestCalorie ? getHighestEffortLabel(m.highestCalorie) : 'Big day in the pain cave';
 
+  // HR zones: editing always starts from the model currently in effect.
+  const zoneLabels = effectiveZoneModel ? zoneRangeLabels(effectiveZoneModel) : [];
+  const zoneTotalSeconds = zoneBreakdown ? zoneBreakdown.totals.reduce((a, b) => a + b, 0) : 0;
+  const easyPct = zoneBreakdown?.easyShare != null ? Math.round(zoneBreakdown.easyShare * 100) : null;
+  const updateZoneModel = (patch: Partial<ZoneModel>) => {
+    if (!effectiveZoneModel) return;
+    setZoneModel({ ...effectiveZoneModel, ...patch });
+  };
+  const switchZoneBasis = (basis: ZoneBasis) => {
+    if (!effectiveZoneModel || basis === effectiveZoneModel.basis) return;
+    setZoneModel(defaultZoneModel(basis, suggestedReferenceHr(basis, observedMaxHr ?? effectiveZoneModel.referenceHr)));
+  };
+  const zoneSportLabels: Array<[ZoneSport, string]> = [['run', 'Run'], ['bike', 'Bike'], ['swim', 'Swim'], ['other', 'Other']];
+
+  // Running form: stride in m or ft, cadence bins as a horizontal histogram.
+  const fmtStride = (m: number) => (isMetric ? `${m.toFixed(2)} m` : `${(m * 3.28084).toFixed(2)} ft`);
+  const cadenceBinMax = runningForm ? Math.max(1, ...runningForm.cadenceBins.map((b) => b.runs)) : 1;
+  const strideByMonth = trends ? trends.monthly.map((p) => (p.runStrideM ?? 0) * (isMetric ? 100 : 39.3701)) : [];
+
+  // Cycling power: intensity bands share one stacked bar, colored easy → hard.
+  const bikePower = m?.bikePower ?? null;
+  const powerBandTotal = bikePower ? Object.values(bikePower.intensitySeconds).reduce((a, b) => a + b, 0) : 0;
+
+  const rhr = heartTrend?.restingHr ?? null;
+  const hrv = heartTrend?.hrv ?? null;
+  const hrvStatusTotal = hrv ? Object.values(hrv.statusDays).reduce((a, b) => a + b, 0) : 0;
+
+  // Body composition: stored in kg, shown in kg or lb; "hide numbers" keeps only the changes.
+  const massUnit = isMetric ? 'kg' : 'lb';
+  const toMass = (kg: number) => (isMetric ? kg : kg / KG_PER_LB);
+  const fmtMass = (kg: number) => `${toMass(kg).toFixed(1)} ${massUnit}`;
+  const fmtMassChange = (kg: number) => `${kg > 0 ? '+' : kg < 0 ? '−' : '±'}${Math.abs(toMass(kg)).toFixed(1)} ${massUnit}`;
+  const fmtPts = (pts: number) => `${pts > 0 ? '+' : pts < 0 ? '−' : '±'}${Math.abs(pts).toFixed(1)} pts`;
+  const showBody = !!body && bodyPrefs.show;
+
+  // Night-by-night sleep (daily data only).
+  const sleepNights = sleepMetrics?.nights ?? null;
+  const fmtIsoDay = (iso: string) => formatDateDisplay(new Date(iso + 'T00:00:00'));
+
+  // Personal records: times for running distances, watts or speed for ride durations.
+  const fmtEffort = (kind: RecordEntry['kind'], e: BestEffort | null): string => {
+    if (!e) return '--';
+    if (kind === 'time') return formatClockTime(e.value);
+    if (kind === 'power') return `${Math.round(e.value)} W`;
+    return isMetric ? `${(e.value * 3.6).toFixed(1)} km/h` : `${(e.value * 2.23694).toFixed(1)} mph`;
+  };
+  const recordRows = records ? [...records.run, ...records.bike] : [];
+  const newPrs = recordRows.filter((r) => r.isAllTimePr);
+
   // Customizable "receipts" card — catalog of candidate stats; the user picks which appear
   // on the final recap slide (and its shareable image).
   const recapCatalog: { id: string; label: string; value: string | null }[] = m
@@ -515,6 +1061,7 @@ export default function Home() {
         { id: 'steps', label: 'Steps', value: totalStepsStr },
         { id: 'sleep', label: 'Sleep', value: sleepMetrics ? `${sleepMetrics.avgScore.toFixed(0)} avg` : null },
         { id: 'streak', label: 'Best streak', value: m.longestStreak && m.longestStreak.lengthDays > 0 ? `${m.longestStreak.lengthDays} days` : null },
+        { id: 'weekStreak', label: 'Week streak', value: m.longestWeekStreak ? `${m.longestWeekStreak.weeks} weeks` : null },
         { id: 'runPace', label: 'Run pace', value: runPaceStr !== '--' ? runPaceStr : null },
         { id: 'activeMonth', label: 'Top month', value: m.mostActiveMonth ? m.mostActiveMonth.name : null },
         { id: 'favorite', label: 'Top sport', value: m.favoriteActivity ? m.favoriteActivity.name : null },
@@ -536,8 +1083,37 @@ export default function Home() {
     });
   };
 
+  // Instagram carousel — one slide per IGSlideKey with data, taglines stable per year and value.
+  const igSlides: IGSlideData[] = m
+    ? (() => {
+        const yr = focusYear ?? new Date().getFullYear();
+        const slide = (key: IGSlideKey, eyebrow: string, value: string, detail?: string): IGSlideData =>
+          ({ key, eyebrow, value, detail, tagline: pickStable(`ig|${key}|${yr}|${value}`, IG_TAGLINES[key]) });
+        const list: IGSlideData[] = [
+          slide('cover', 'Your year in motion', String(yr), `${m.sessions.toLocaleString()} activities`),
+          slide('distance', 'Distance traveled', distanceStr, `${earthPercentStr} of the way around Earth`),
+          slide('time', 'Time moving', totalTimeStr, `across ${sessionsStr} sessions`),
+        ];
+        if (step) list.push(slide('steps', 'Steps', step.totalSteps.toLocaleString(), avgStepsStr ?? undefined));
+        if (sleepMetrics) {
+          list.push(slide('sleep', 'Sleep', `${sleepMetrics.avgScore.toFixed(0)} avg`, `${formatDurationMinutesToHuman(sleepMetrics.avgDurationMinutes)} a night`));
+        }
+        if (m.longestActivity) {
+          list.push(slide('longest', 'Longest activity', formatDurationMinutesToHuman(m.longestActivity.durationSeconds / 60), `${m.longestActivity.title} · ${m.longestActivity.date}`));
+        }
+        if (m.totalCalories) {
+          list.push(slide('calories', 'Calories burned', `${m.totalCalories.toLocaleString()} kcal`, m.highestCalorie ? `Biggest burn: ${m.highestCalorie.calories.toLocaleString()} kcal` : undefined));
+        }
+        if (m.totalAscent != null) {
+          list.push(slide('elevation', 'Climbed', totalAscentStr, `≈ ${(m.totalAscent / EVEREST_FT).toFixed(2)} Everests · highest point ${maxElevationStr}`));
+        }
+        return list;
+      })()
+    : [];
+
   // Story mode scenes — built from the focus-year data; only includes scenes with content.
-  const storyScenes: StoryScene[] = m
+  // The user's edits (order, hidden, overrides, own scenes) go on top in storyScenes.
+  const baseStoryScenes: StoryScene[] = m
     ? (() => {
         const yr = focusYear ?? new Date().getFullYear();
         const motifForType = (type: string): MotifKey => {
@@ -554,6 +1130,29 @@ export default function Home() {
         list.push({ key: 'intro', palette: 'violet', motif: 'sparkles', eyebrow: `${yr} · Fitness Wrapped`, headline: 'Your year in motion.', caption: `${m.sessions.toLocaleString()} activities. Let’s rewind.` });
         list.push({ key: 'distance', palette: 'abyss', motif: 'route', eyebrow: 'Distance traveled', headline: distanceStr, caption: `That’s ${earthPercentStr} of the way around Earth.` });
         list.push({ key: 'time', palette: 'ember', motif: 'timer', eyebrow: 'Time moving', headline: totalTimeStr, caption: `across ${sessionsStr} sessions` });
+        if (trainingCalendar) {
+          const year = calendarView(trainingCalendar, 'all', 'duration');
+          list.push({
+            key: 'calendar', palette: 'abyss', motif: 'sparkles',
+            eyebrow: 'Day by day',
+            headline: `${year.activeDays} active days`,
+            caption: year.missedWeeks.length
+              ? `Only ${year.missedWeeks.length} week${year.missedWeeks.length === 1 ? '' : 's'} without a single session.`
+              : 'Not one week without a session.',
+            art: <CalendarHeatmap cells={year.cells} weeks={trainingCalendar.weeks} missedWeeks={year.missedWeeks} />,
+          });
+        }
+        if (habits && chronotype) {
+          const owl = habits.chronotype === 'night-owl';
+          list.push({
+            key: 'habits', palette: owl ? 'indigo' : 'gold', motif: owl ? 'moon' : 'timer',
+            eyebrow: 'Your training clock',
+            headline: `${chronotype.label}.`,
+            caption: `${chronotypeLine} Favorite slot: ${WEEKDAY_NAMES[habits.peak.weekday]}s at ${fmtHour(habits.peak.hour)}.`,
+            footnote: `Earliest start ${formatTimeOfDay(habits.earliest.minutes)} · latest ${formatTimeOfDay(habits.latest.minutes)}`,
+            art: <StartTimeGrid grid={habits.grid} accent="255,255,255" />,
+          });
+        }
         if (comparison) {
           const dp = comparison.deltas.totalDistanceMi.pct;
           list.push({
@@ -575,6 +1174,105 @@ export default function Home() {
         if (m.highestCalorie) {
           list.push({ key: 'calories', palette: 'rose', motif: 'flame', eyebrow: 'Biggest burn', headline: `${m.highestCalorie.calories.toLocaleString()} kcal`, caption: `${m.highestCalorie.title} · ${m.highestCalorie.date}`, footnote: highestEffortStr });
         }
+        if (trainingLoad?.peakFitness) {
+          const gain = Math.round(trainingLoad.peakFitness.ctl - trainingLoad.startCtl);
+          list.push({
+            key: 'peak', palette: 'indigo', motif: 'trending',
+            eyebrow: 'Peak fitness',
+            headline: `You peaked on ${trainingLoad.peakFitness.date.replace(/,\s*\d{4}$/, '')}.`,
+            caption: gain > 0
+              ? `Fitness ${Math.round(trainingLoad.peakFitness.ctl)} — up ${gain} from where you started the year.`
+              : `Fitness ${Math.round(trainingLoad.peakFitness.ctl)}, carried in from last year.`,
+            footnote: '42-day training load',
+          });
+        }
+        if (zoneBreakdown && easyPct != null) {
+          list.push({
+            key: 'zones', palette: 'lime', motif: 'gauge',
+            eyebrow: 'The 80/20 check',
+            headline: `${easyPct}/${100 - easyPct}`,
+            caption: easyPct >= 75
+              ? `${easyPct}% of your training time was easy (zones 1–2). Textbook polarized.`
+              : `Only ${easyPct}% of your time was easy (zones 1–2) — the 80/20 rule aims for about 80.`,
+            footnote: zoneBreakdown.exactShare >= 0.5 ? 'From your heart-rate streams' : 'Estimated from average heart rate',
+          });
+        }
+        if (bikePower?.biggestDay) {
+          const day = bikePower.biggestDay;
+          list.push({
+            key: 'power', palette: 'ember', motif: 'bike',
+            eyebrow: 'Biggest power day',
+            headline: `${Math.round(day.kj).toLocaleString()} kJ`,
+            caption: `${day.title} · ${day.date}${day.rides > 1 ? ` (${day.rides} rides)` : ''}`,
+            footnote: day.tss > 0 ? `${Math.round(day.tss)} TSS — about ${Math.round(day.kj).toLocaleString()} kcal on the pedals` : `About ${Math.round(day.kj).toLocaleString()} kcal on the pedals`,
+          });
+        }
+        if (swim && m.swimMeters) {
+          const ow = swim.venues.openWater;
+          list.push({
+            key: 'swim', palette: 'abyss', motif: 'swim',
+            eyebrow: 'In the water',
+            headline: fmtSwimDistance(m.swimMeters),
+            caption: swim.longestOpenWater
+              ? `Longest open-water swim: ${swim.longestOpenWater.title}, ${fmtSwimDistance(swim.longestOpenWater.meters)} on ${swim.longestOpenWater.date}.`
+              : `${m.swimSessions ?? 0} swims at ${swimPaceStr}.`,
+            footnote: [
+              swim.venues.pool.sessions ? `${swim.venues.pool.sessions} pool` : null,
+              ow.sessions ? `${ow.sessions} open water` : null,
+              swim.totalStrokes != null ? `${swim.totalStrokes.toLocaleString()} strokes` : null,
+              swim.avgSwolf != null ? `SWOLF ${Math.round(swim.avgSwolf)}` : null,
+            ].filter(Boolean).join(' · '),
+          });
+        }
+        if (races.length) {
+          const headliner = [...races].sort((a, b) => b.distanceMi - a.distanceMi)[0]!;
+          list.push({
+            key: 'races', palette: 'rose', motif: motifForType(headliner.type),
+            eyebrow: 'Race season',
+            headline: `${races.length} race${races.length === 1 ? '' : 's'}`,
+            caption: `Biggest: ${headliner.title} — ${headliner.standard ? `${headliner.standard.label} in ` : ''}${formatClockTime(headliner.seconds)}.`,
+            footnote: races.length > 1 ? `From ${races[0]!.date} to ${races[races.length - 1]!.date}` : headliner.date,
+          });
+        }
+        if (records && recordRows.some((r) => r.yearBest)) {
+          const yearBests = recordRows.filter((r) => r.yearBest);
+          list.push({
+            key: 'prs', kind: 'summary', palette: 'gold', motif: 'trophy',
+            eyebrow: `${yr} · personal records`,
+            headline: newPrs.length
+              ? `${newPrs.length} all-time PR${newPrs.length === 1 ? '' : 's'}.`
+              : 'Your season bests.',
+            stats: yearBests.slice(0, 9).map((r) => ({
+              label: `${r.label}${r.isAllTimePr ? ' · PR' : ''}`,
+              value: fmtEffort(r.kind, r.yearBest),
+            })),
+            footnote: newPrs.length
+              ? 'PR = your best across every year you loaded.'
+              : 'No all-time records this year — the bar was set high.',
+          });
+          // Spotlight the biggest new record: the longest run distance, else the longest ride window.
+          const star = [...newPrs].reverse().find((r) => r.kind === 'time') ?? newPrs[newPrs.length - 1];
+          if (star?.yearBest) {
+            list.push({
+              key: 'pr-star', palette: 'ember', motif: star.kind === 'time' ? 'run' : 'bike',
+              eyebrow: `New ${star.label} PR`,
+              headline: fmtEffort(star.kind, star.yearBest),
+              caption: star.priorBest
+                ? `${star.yearBest.title} · ${star.yearBest.date}. Previous best ${fmtEffort(star.kind, star.priorBest)} in ${star.priorBest.year}.`
+                : `${star.yearBest.title} · ${star.yearBest.date}`,
+              footnote: 'All-time best',
+            });
+          }
+        }
+        if (routeHeatmap) {
+          list.push({
+            key: 'map', palette: 'indigo', motif: 'route',
+            eyebrow: 'Where you moved',
+            headline: `${routeHeatmap.uniqueCells.toLocaleString()} places`,
+            caption: `${routeHeatmap.routeCount.toLocaleString()} routes across ${heatmapAreaStr}.`,
+            art: <RouteHeatmap heatmap={routeHeatmap} accent="#93c5fd" background="none" width={360} height={220} />,
+          });
+        }
         if (m.maxElevation != null) {
           list.push({ key: 'elevation', palette: 'abyss', motif: 'mountain', eyebrow: 'Highest point', headline: maxElevationStr, caption: m.totalAscent != null ? `${totalAscentStr} climbed — about ${(m.totalAscent / EVEREST_FT).toFixed(2)} Everests.` : undefined });
         }
@@ -584,6 +1282,50 @@ export default function Home() {
         if (sleepMetrics) {
           list.push({ key: 'sleep', palette: 'violet', motif: 'moon', eyebrow: 'Sleep', headline: `${sleepMetrics.avgScore.toFixed(0)} avg score`, caption: `${formatDurationMinutesToHuman(sleepMetrics.avgDurationMinutes)} a night · ${sleepMetrics.weeks} weeks tracked` });
         }
+        if (rhr) {
+          const calmer = rhr.change && Math.round(rhr.change.bpm) < 0 ? rhr.change : null;
+          list.push({
+            key: 'heart', palette: 'rose', motif: 'gauge',
+            eyebrow: calmer ? 'Resting heart rate' : 'Lowest resting heart rate',
+            headline: calmer ? `Your heart got ${Math.abs(Math.round(calmer.bpm))} bpm calmer` : `${rhr.lowest.bpm} bpm`,
+            caption: calmer
+              ? `${Math.round(calmer.first)} bpm in ${MONTH_LABELS[calmer.firstMonthIdx]} → ${Math.round(calmer.last)} bpm in ${MONTH_LABELS[calmer.lastMonthIdx]}.`
+              : `${fmtIsoDay(rhr.lowest.date)} · ${Math.round(rhr.avg)} bpm on an average day.`,
+            footnote: hrv && hrvStatusTotal
+              ? `HRV balanced on ${hrv.statusDays.balanced} of ${hrvStatusTotal} nights`
+              : calmer ? `Lowest: ${rhr.lowest.bpm} bpm on ${fmtIsoDay(rhr.lowest.date)}` : undefined,
+          });
+        }
+        if (showBody && body.weighIns >= 2) {
+          const hide = bodyPrefs.hideAbsolute;
+          list.push({
+            key: 'body', palette: 'lime', motif: 'trending',
+            eyebrow: 'Weight journey',
+            headline: fmtMassChange(body.changeKg),
+            caption: hide
+              ? `${body.weighIns} weigh-ins${body.bodyFat ? ` · body fat ${fmtPts(body.bodyFat.change)}` : ''}`
+              : `${fmtMass(body.start.kg)} → ${fmtMass(body.end.kg)}${body.bodyFat ? ` · body fat ${body.bodyFat.start.toFixed(1)}% → ${body.bodyFat.end.toFixed(1)}%` : ''}`,
+            footnote: `${fmtIsoDay(body.start.date)} – ${fmtIsoDay(body.end.date)}`,
+            art: <Sparkline values={body.monthlyKg.map((v) => (v != null ? toMass(v) : null))} accent="#bef264" formatValue={hide ? undefined : (v) => v.toFixed(1)} />,
+          });
+        }
+        if (sleepNights && (sleepNights.bedtime || sleepNights.longestStreak)) {
+          const streak = sleepNights.longestStreak;
+          const extras = [
+            sleepNights.socialJetlagMinutes != null ? `Weekends shift you ${formatDurationMinutesToHuman(sleepNights.socialJetlagMinutes)}` : null,
+            streak && sleepNights.bedtime ? `${streak.nights} straight nights of 7h+` : null,
+            sleepNights.bestNight ? `Best night: ${sleepNights.bestNight.score} on ${fmtIsoDay(sleepNights.bestNight.date)}` : null,
+          ].filter(Boolean);
+          list.push({
+            key: 'sleep-rhythm', palette: 'indigo', motif: 'moon',
+            eyebrow: sleepNights.bedtime ? 'Bedtime, give or take' : 'Longest 7h+ streak',
+            headline: sleepNights.bedtime ? `±${Math.round(sleepNights.bedtime.sd)} min` : `${streak!.nights} nights`,
+            caption: sleepNights.bedtime
+              ? `Lights out around ${formatTimeOfDay(sleepNights.bedtime.avg)}${sleepNights.wakeTime ? `, up around ${formatTimeOfDay(sleepNights.wakeTime.avg)}` : ''}.`
+              : `${fmtIsoDay(streak!.start)} – ${fmtIsoDay(streak!.end)}`,
+            footnote: extras.length ? extras.join(' · ') : undefined,
+          });
+        }
         list.push({
           key: 'summary',
           kind: 'summary',
@@ -597,6 +1339,7 @@ export default function Home() {
         return list;
       })()
     : [];
+  const storyScenes = applyStoryEdits(baseStoryScenes, storyEdits);
 
   const canExportAssets = !!m;
   const CONTROL_RECT =
@@ -671,7 +1414,8 @@ export default function Home() {
               <span>Upload Activities</span>
               <input
                 type="file"
-                accept=".csv,text/csv"
+                accept=".csv,text/csv,.fit,.gpx,.tcx,.zip,application/zip"
+                multiple
                 className="hidden"
                 onChange={handleFileChange}
               />
@@ -701,6 +1445,19 @@ export default function Home() {
               />
             </label>
 
+            {/* Upload daily wellness reports */}
+            <label className={`${CONTROL_RECT} ${CONTROL_RECT_HOVER} cursor-pointer`}>
+              <Upload className="w-4 h-4" />
+              <span>Wellness CSVs</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                multiple
+                className="hidden"
+                onChange={handleWellnessFilesChange}
+              />
+            </label>
+
             {/* Download image */}
             <button
               type="button"
@@ -712,13 +1469,33 @@ export default function Home() {
             </button>
 
             {/* Story mode */}
+            <button
+              type="button"
+              disabled={!canExportAssets || !storyScenes.length}
+              onClick={canExportAssets && storyScenes.length ? () => setStoryOpen(true) : undefined}
+              className={`${CONTROL_RECT} ${canExportAssets && storyScenes.length ? CONTROL_RECT_HOVER : CONTROL_RECT_DISABLED}`}
+            >
+              ▶ Play your year
+            </button>
+
+            {/* Story scene editor */}
             <button
               type="button"
               disabled={!canExportAssets}
-              onClick={canExportAssets ? () => setStoryOpen(true) : undefined}
+              onClick={canExportAssets ? () => setShowStoryEditor((v) => !v) : undefined}
               className={`${CONTROL_RECT} ${canExportAssets ? CONTROL_RECT_HOVER : CONTROL_RECT_DISABLED}`}
             >
-              ▶ Play your year
+              Edit story
+            </button>
+
+            {/* Instagram carousel */}
+            <button
+              type="button"
+              disabled={!canExportAssets}
+              onClick={canExportAssets ? () => setIgOpen(true) : undefined}
+              className={`${CONTROL_RECT} ${canExportAssets ? CONTROL_RECT_HOVER : CONTROL_RECT_DISABLED}`}
+            >
+              Instagram carousel
             </button>
 
             {/* Customize recap card */}
@@ -778,6 +1555,15 @@ export default function Home() {
             </div>
           )}
 
+          {showStoryEditor && canExportAssets && (
+            <StorySceneEditor
+              scenes={baseStoryScenes}
+              edits={storyEdits}
+              onChange={setStoryEdits}
+              onClose={() => setShowStoryEditor(false)}
+            />
+          )}
+
 
           <div className="mt-1 space-y-1">
             {error && (
@@ -789,6 +1575,9 @@ export default function Home() {
             {stepsError && (
               <p className="text-xs text-red-400 max-w-xs text-right">{stepsError}</p>
             )}
+            {wellnessError && (
+              <p className="text-xs text-red-400 max-w-xs text-right">{wellnessError}</p>
+            )}
           </div>
         </div>
         </header>
@@ -816,6 +1605,8 @@ export default function Home() {
                       In{' '}
                       <a className="text-zinc-300 underline hover:text-white" href="https://connect.garmin.com/modern/activities" target="_blank" rel="noreferrer">Garmin Connect → Activities</a>
                       , scroll to the last activity you want, then <span className="text-zinc-300">Export CSV</span>. Loading more years into one file unlocks the year toggle and comparisons.
+                      {' '}Or select your <span className="text-zinc-300">.fit</span>, <span className="text-zinc-300">.gpx</span> or <span className="text-zinc-300">.tcx</span> activity files (as many as you like) instead — Strava, Wahoo and COROS exports work too.
+                      {' '}Have your full Garmin <span className="text-zinc-300">Export Your Data</span> ZIP? Upload it here and steps and sleep load too.
                     </div>
                   </div>
                 </li>
@@ -828,6 +1619,7 @@ export default function Home() {
                       In{' '}
                       <a className="text-zinc-300 underline hover:text-white" href="https://connect.garmin.com/modern/report/29/wellness/last_year" target="_blank" rel="noreferrer">Steps report</a>
                       , set <span className="text-zinc-300">1 Year</span> → <span className="text-zinc-300">Export</span>.
+                      {' '}A <span className="text-zinc-300">4 Weeks</span> export is daily instead, and follows the year toggle.
                     </div>
                   </div>
                 </li>
@@ -840,6 +1632,7 @@ export default function Home() {
                       In{' '}
                       <a className="text-zinc-300 underline hover:text-white" href="https://connect.garmin.com/modern/sleep" target="_blank" rel="noreferrer">Sleep</a>
                       , set <span className="text-zinc-300">1 Year</span> → three dots → <span className="text-zinc-300">Export CSV</span>.
+                      {' '}Daily Resting Heart Rate, Stress and Body Battery reports go under <span className="text-zinc-300">Wellness CSVs</span>.
                     </div>
                   </div>
                 </li>
@@ -860,7 +1653,7 @@ export default function Home() {
                   </p>
                   <p className="text-xs text-zinc-500">Year over year</p>
                 </div>
-                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div className={`grid grid-cols-2 gap-4 ${yoyCells.length > 4 ? 'sm:grid-cols-5' : 'sm:grid-cols-4'}`}>
                   {yoyCells.map((c) => (
                     <div key={c.label} className="flex flex-col gap-1">
                       <div className="text-xs text-zinc-400 uppercase tracking-wide">{c.label}</div>
@@ -962,44 +1755,290 @@ export default function Home() {
               </section>
             )}
 
-            <section className="grid gap-4 sm:gap-5 md:grid-cols-3">
-              <div className="relative overflow-hidden isolate md:col-span-2 bg-gradient-to-br from-indigo-600/40 via-purple-700/30 to-zinc-900/90 border border-purple-500/40 rounded-3xl p-5 sm:p-6 shadow-[0_0_50px_rgba(0,0,0,0.9)]">
-                <Route aria-hidden className="pointer-events-none absolute -z-10 -right-12 -bottom-16 w-[24rem] h-[24rem] text-indigo-300/[0.07]" strokeWidth={1} />
-                <div className="flex items-center justify-between gap-4 mb-6">
-                  <div className="flex items-center gap-3">
-                    <div className="h-10 w-10 rounded-2xl bg-black/50 flex items-center justify-center border border-white/10">
-                      <Activity className="w-5 h-5 text-indigo-200" />
-                    </div>
-                    <div>
-                      <p className="text-xs uppercase tracking-[0.2em] text-indigo-200/80">Distance traveled</p>
-                      <p className="text-xs text-zinc-300">Powered by Garmin activities</p>
-                    </div>
+            {/* Training load: fitness (CTL), fatigue (ATL), form (TSB) */}
+            {trainingLoad && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="h-9 w-9 rounded-2xl bg-emerald-500/10 flex items-center justify-center border border-emerald-400/50 shrink-0">
+                    <Zap className="w-5 h-5 text-emerald-300" />
                   </div>
-                  <div className="text-xs text-zinc-400">{m?.startDateDisplay} → {m?.endDateDisplay}</div>
-                </div>
-
-                <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
                   <div>
-                    <div className="text-4xl sm:text-5xl md:text-6xl font-black tracking-tight">{distanceStr}</div>
-                    <div className="text-lg text-zinc-300 mt-2">
-                      That&apos;s <span className="font-semibold">{earthPercentStr}</span> of the way around Earth.
-                      {step && totalStepsStr && (
-                        <div className="text-lg text-zinc-300 mt-1">
-                          <span className="font-semibold text-lg sm:text-xl">{totalStepsStr} steps</span>
-                          {avgStepsStr && <> <span className="text-zinc-500">·</span> <span className="font-semibold text-lg sm:text-xl">{avgStepsStr}</span></>}
-                          {(marathonsFromSteps || fiveKsFromSteps) ? (
-                            <div className="text-lg text-zinc-400 mt-1">
-                              ~{marathonsFromSteps.toLocaleString()} marathons • ~{fiveKsFromSteps.toLocaleString()} 5Ks
-                            </div>
-                          ) : null}
-                        </div>
-                      )}
-                    </div>
+                    <p className="text-xs uppercase tracking-[0.2em] text-emerald-300">Fitness &amp; fatigue</p>
+                    <p className="text-sm text-zinc-300">
+                      <span className="text-emerald-300">Fitness</span> (42-day load) ·{' '}
+                      <span className="text-pink-300">fatigue</span> (7-day) ·{' '}
+                      <span className="text-yellow-300">form</span>
+                    </p>
                   </div>
+                </div>
 
-                  <div className="bg-black/40 rounded-2xl px-4 py-3 border border-white/10 flex flex-col gap-1 min-w-[9rem]">
-                    <div className="text-xs text-zinc-400 uppercase tracking-wide">Total time moving</div>
-                    <div className="text-lg font-semibold">{totalTimeStr}</div>
+                <LoadChart days={trainingLoad.days} />
+
+                <div className="grid gap-4 sm:grid-cols-3 mt-5 text-sm">
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Peak fitness</p>
+                    {trainingLoad.peakFitness ? (
+                      <>
+                        <p className="text-zinc-100 font-semibold mt-1">{trainingLoad.peakFitness.date}</p>
+                        <p className="text-xs mt-1 text-zinc-500">Fitness {Math.round(trainingLoad.peakFitness.ctl)}</p>
+                      </>
+                    ) : (
+                      <p className="text-zinc-500 mt-1">—</p>
+                    )}
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Most fatigued</p>
+                    {trainingLoad.peakFatigue ? (
+                      <>
+                        <p className="text-zinc-100 font-semibold mt-1">{trainingLoad.peakFatigue.date}</p>
+                        <p className="text-xs mt-1 text-zinc-500">Fatigue {Math.round(trainingLoad.peakFatigue.atl)}</p>
+                      </>
+                    ) : (
+                      <p className="text-zinc-500 mt-1">—</p>
+                    )}
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Fitness over the year</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{Math.round(trainingLoad.startCtl)} → {Math.round(trainingLoad.endCtl)}</p>
+                    <p className="text-xs mt-1 text-zinc-500">
+                      {trainingLoad.freshest ? `Freshest on a training day: ${trainingLoad.freshest.date}` : 'Start → end of year'}
+                    </p>
+                  </div>
+                </div>
+
+                <p className="mt-4 text-[11px] text-zinc-500">
+                  Load per activity: {[
+                    trainingLoad.sources.garmin ? `Garmin Training Load (${trainingLoad.sources.garmin})` : null,
+                    trainingLoad.sources.trimp ? `TRIMP from average HR (${trainingLoad.sources.trimp})` : null,
+                    trainingLoad.sources.te ? `Aerobic TE estimate (${trainingLoad.sources.te})` : null,
+                  ].filter(Boolean).join(' · ')}.
+                </p>
+              </section>
+            )}
+
+            {/* Heart-rate zones: stacked monthly time in zone + per-sport split */}
+            {zoneBreakdown && effectiveZoneModel && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-2xl bg-red-500/10 flex items-center justify-center border border-red-400/50 shrink-0">
+                      <HeartPulse className="w-5 h-5 text-red-300" />
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-red-300">Heart-rate zones</p>
+                      <p className="text-sm text-zinc-300">
+                        Time in zone by month · {easyPct}% easy (Z1–Z2)
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setShowZoneSettings((v) => !v)}
+                    aria-expanded={showZoneSettings}
+                    className="self-start px-3 h-8 rounded-lg border border-zinc-700 bg-zinc-900/60 text-xs text-zinc-300 hover:bg-zinc-800 transition"
+                  >
+                    {showZoneSettings ? 'Done' : 'Edit zones'}
+                  </button>
+                </div>
+
+                {showZoneSettings && (
+                  <div className="mb-5 rounded-2xl border border-zinc-700 bg-black/40 p-4 text-sm">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                        {([['maxHr', '% Max HR'], ['lthr', '% LTHR']] as const).map(([key, label]) => (
+                          <button
+                            key={key}
+                            type="button"
+                            onClick={() => switchZoneBasis(key)}
+                            className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                              key === effectiveZoneModel.basis ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-2 text-xs text-zinc-400">
+                        {effectiveZoneModel.basis === 'lthr' ? 'LTHR' : 'Max HR'}
+                        <input
+                          type="number"
+                          min={80}
+                          max={230}
+                          value={effectiveZoneModel.referenceHr}
+                          onChange={(e) => updateZoneModel({ referenceHr: Number(e.target.value) || 0 })}
+                          className="w-20 h-8 rounded-lg bg-zinc-900 border border-zinc-700 px-2 text-zinc-100"
+                        />
+                        bpm
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => setZoneModel(null)}
+                        className="text-xs text-zinc-500 hover:text-zinc-300 underline underline-offset-2"
+                      >
+                        Reset to automatic
+                      </button>
+                    </div>
+                    <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+                      {effectiveZoneModel.upperPct.map((pct, i) => (
+                        <label key={i} className="flex items-center gap-1.5">
+                          Z{i + 1} up to
+                          <input
+                            type="number"
+                            min={1}
+                            max={120}
+                            value={pct}
+                            onChange={(e) => {
+                              const next = [...effectiveZoneModel.upperPct] as ZoneModel['upperPct'];
+                              next[i] = Number(e.target.value) || 0;
+                              updateZoneModel({ upperPct: next });
+                            }}
+                            className="w-16 h-8 rounded-lg bg-zinc-900 border border-zinc-700 px-2 text-zinc-100"
+                          />
+                          %
+                        </label>
+                      ))}
+                    </div>
+                    {zoneModel && !isValidZoneModel(zoneModel) && (
+                      <p className="mt-2 text-xs text-amber-400">Bounds must increase from Z1 to Z4 — showing automatic zones until they do.</p>
+                    )}
+                  </div>
+                )}
+
+                <ZoneBars monthly={zoneBreakdown.monthly} />
+
+                <div className="mt-4 grid grid-cols-2 sm:grid-cols-5 gap-3 text-xs">
+                  {zoneBreakdown.totals.map((sec, z) => (
+                    <div key={z} className="flex items-start gap-2">
+                      <span className="mt-1 h-2.5 w-2.5 rounded-sm shrink-0" style={{ background: ZONE_COLORS[z] }} />
+                      <div>
+                        <p className="text-zinc-200 font-medium">Z{z + 1} · {zoneTotalSeconds ? Math.round((sec / zoneTotalSeconds) * 100) : 0}%</p>
+                        <p className="text-zinc-500">{zoneLabels[z]} bpm · {Math.round(sec / 3600)}h</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-5 space-y-2">
+                  {zoneSportLabels
+                    .map(([key, label]) => ({ label, zones: zoneBreakdown.bySport[key], total: zoneBreakdown.bySport[key].reduce((a, b) => a + b, 0) }))
+                    .filter((r) => r.total > 0)
+                    .map((r) => (
+                      <div key={r.label} className="flex items-center gap-3 text-xs">
+                        <span className="w-10 text-zinc-400">{r.label}</span>
+                        <div className="flex-1 flex h-2.5 rounded-full overflow-hidden bg-zinc-800">
+                          {r.zones.map((sec, z) => (
+                            <div key={z} style={{ width: `${(sec / r.total) * 100}%`, background: ZONE_COLORS[z] }} />
+                          ))}
+                        </div>
+                        <span className="w-12 text-right text-zinc-500 tabular-nums">{Math.round(r.total / 3600)}h</span>
+                      </div>
+                    ))}
+                </div>
+
+                <p className="mt-4 text-[11px] text-zinc-500">
+                  {zoneBreakdown.exactShare >= 0.995
+                    ? 'Binned second by second from your heart-rate streams.'
+                    : zoneBreakdown.exactShare > 0
+                      ? `${Math.round(zoneBreakdown.exactShare * 100)}% from heart-rate streams; the rest estimated from each activity's average HR.`
+                      : 'Estimated from each activity’s average HR — upload .fit files for exact time in zone.'}
+                </p>
+              </section>
+            )}
+
+            {/* Annual route heatmap (device files / archive only — the CSV has no GPS) */}
+            {routeHeatmap && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-2xl bg-sky-500/10 flex items-center justify-center border border-sky-400/50 shrink-0">
+                      <MapIcon className="w-5 h-5 text-sky-300" />
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-sky-300">Where you moved</p>
+                      <p className="text-sm text-zinc-300">Every route you recorded in {focusYear}</p>
+                    </div>
+                  </div>
+                  <div className="self-start inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                    {([['focus', 'Hotspot'], ['all', 'Everything']] as const).map(([key, label]) => (
+                      <button
+                        key={key}
+                        type="button"
+                        onClick={() => setMapZoom(key)}
+                        className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                          key === mapZoom ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <RouteHeatmap heatmap={routeHeatmap} zoom={mapZoom} accent="#7dd3fc" />
+
+                <div className="grid gap-4 sm:grid-cols-3 mt-5 text-sm">
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Routes</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{routeHeatmap.routeCount.toLocaleString()}</p>
+                    <p className="text-xs mt-1 text-zinc-500">Activities with GPS</p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Unique places</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{routeHeatmap.uniqueCells.toLocaleString()}</p>
+                    <p className="text-xs mt-1 text-zinc-500">250 m squares visited · {heatmapAreaStr}</p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Home turf</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{Math.round(routeHeatmap.clusterShare * 100)}%</p>
+                    <p className="text-xs mt-1 text-zinc-500">of your tracks fall inside the hotspot</p>
+                  </div>
+                </div>
+                {tracksSkipped > 0 && (
+                  <p className="mt-4 text-[11px] text-zinc-500">
+                    Your archive has {(MAX_ARCHIVE_TRACKS + tracksSkipped).toLocaleString()} GPS files; the map and best efforts use the {MAX_ARCHIVE_TRACKS.toLocaleString()} most recent to keep the page responsive, so {tracksSkipped.toLocaleString()} older ones are left out.
+                  </p>
+                )}
+              </section>
+            )}
+
+            <section className="grid gap-4 sm:gap-5 md:grid-cols-3">
+              <div className="relative overflow-hidden isolate md:col-span-2 bg-gradient-to-br from-indigo-600/40 via-purple-700/30 to-zinc-900/90 border border-purple-500/40 rounded-3xl p-5 sm:p-6 shadow-[0_0_50px_rgba(0,0,0,0.9)]">
+                <Route aria-hidden className="pointer-events-none absolute -z-10 -right-12 -bottom-16 w-[24rem] h-[24rem] text-indigo-300/[0.07]" strokeWidth={1} />
+                <div className="flex items-center justify-between gap-4 mb-6">
+                  <div className="flex items-center gap-3">
+                    <div className="h-10 w-10 rounded-2xl bg-black/50 flex items-center justify-center border border-white/10">
+                      <Activity className="w-5 h-5 text-indigo-200" />
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-indigo-200/80">Distance traveled</p>
+                      <p className="text-xs text-zinc-300">Powered by Garmin activities</p>
+                    </div>
+                  </div>
+                  <div className="text-xs text-zinc-400">{m?.startDateDisplay} → {m?.endDateDisplay}</div>
+                </div>
+
+                <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+                  <div>
+                    <div className="text-4xl sm:text-5xl md:text-6xl font-black tracking-tight">{distanceStr}</div>
+                    <div className="text-lg text-zinc-300 mt-2">
+                      That&apos;s <span className="font-semibold">{earthPercentStr}</span> of the way around Earth.
+                      {step && totalStepsStr && (
+                        <div className="text-lg text-zinc-300 mt-1">
+                          <span className="font-semibold text-lg sm:text-xl">{totalStepsStr} steps</span>
+                          {avgStepsStr && <> <span className="text-zinc-500">·</span> <span className="font-semibold text-lg sm:text-xl">{avgStepsStr}</span></>}
+                          {(marathonsFromSteps || fiveKsFromSteps) ? (
+                            <div className="text-lg text-zinc-400 mt-1">
+                              ~{marathonsFromSteps.toLocaleString()} marathons • ~{fiveKsFromSteps.toLocaleString()} 5Ks
+                            </div>
+                          ) : null}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="bg-black/40 rounded-2xl px-4 py-3 border border-white/10 flex flex-col gap-1 min-w-[9rem]">
+                    <div className="text-xs text-zinc-400 uppercase tracking-wide">Total time moving</div>
+                    <div className="text-lg font-semibold">{totalTimeStr}</div>
                     <div className="text-xs text-zinc-500">Across {sessionsStr} sessions</div>
                   </div>
                 </div>
@@ -1023,6 +2062,25 @@ export default function Home() {
               <StatCard icon={Flame} value={caloriesStr} label="Calories burned" helper="Total estimated energy output." />
             </section>
 
+            {/* Training effect (exports with the Aerobic/Anaerobic TE columns) */}
+            {m?.avgAerobicTE != null && (
+              <section className="grid gap-4 sm:gap-5 md:grid-cols-3">
+                <StatCard icon={Zap} value={m.avgAerobicTE.toFixed(1)} label="Avg aerobic TE" helper="Garmin's 0–5 base-building score." />
+                <StatCard
+                  icon={Zap}
+                  value={m.avgAnaerobicTE != null ? m.avgAnaerobicTE.toFixed(1) : '--'}
+                  label="Avg anaerobic TE"
+                  helper="How much of your work was high-intensity."
+                />
+                <StatCard
+                  icon={Trophy}
+                  value={m.topAerobicTE ? m.topAerobicTE.te.toFixed(1) : '--'}
+                  label="Biggest training effect"
+                  helper={m.topAerobicTE ? `${m.topAerobicTE.title} · ${m.topAerobicTE.date}` : undefined}
+                />
+              </section>
+            )}
+
             {/* Averages */}
             <section className="grid gap-4 sm:gap-5 md:grid-cols-3">
               <StatCard icon={Timer} value={avgDurationStr} label="Avg duration" helper="Per session." />
@@ -1047,6 +2105,9 @@ export default function Home() {
                   <div className="flex justify-between"><span className="text-zinc-400">Distance</span><span className="font-semibold">{runDistanceStr}</span></div>
                   <div className="flex justify-between"><span className="text-zinc-400">Time</span><span className="font-semibold">{runTimeStr}</span></div>
                   <div className="flex justify-between"><span className="text-zinc-400">Pace</span><span className="font-semibold">{runPaceStr}</span></div>
+                  {m?.runCadenceSpm != null && (
+                    <div className="flex justify-between"><span className="text-zinc-400">Cadence</span><span className="font-semibold">{Math.round(m.runCadenceSpm)} spm</span></div>
+                  )}
                   {m?.runLongest && (
                     <div className="flex justify-between items-start">
                       <span className="text-zinc-400">Longest</span>
@@ -1079,6 +2140,12 @@ export default function Home() {
                   <div className="flex justify-between"><span className="text-zinc-400">Distance</span><span className="font-semibold">{bikeDistanceStr}</span></div>
                   <div className="flex justify-between"><span className="text-zinc-400">Time</span><span className="font-semibold">{bikeTimeStr}</span></div>
                   <div className="flex justify-between"><span className="text-zinc-400">Avg speed</span><span className="font-semibold">{bikeSpeedStr}</span></div>
+                  {m?.bikeAvgPowerW != null && (
+                    <div className="flex justify-between"><span className="text-zinc-400">Avg power</span><span className="font-semibold">{Math.round(m.bikeAvgPowerW)} W</span></div>
+                  )}
+                  {m?.bikeCadenceRpm != null && (
+                    <div className="flex justify-between"><span className="text-zinc-400">Cadence</span><span className="font-semibold">{Math.round(m.bikeCadenceRpm)} rpm</span></div>
+                  )}
                   {m?.bikeLongest && (
                     <div className="flex justify-between items-start">
                       <span className="text-zinc-400">Longest</span>
@@ -1104,19 +2171,25 @@ export default function Home() {
                   </div>
                   <div>
                     <p className="text-xs uppercase tracking-[0.2em] text-cyan-200">Swimming</p>
-                    <p className="text-xs text-zinc-300">Pool & open water (meters)</p>
+                    <p className="text-xs text-zinc-300">Pool & open water ({swimUnit === 'yd' ? 'yards' : 'meters'})</p>
                   </div>
                 </div>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between"><span className="text-zinc-400">Distance</span><span className="font-semibold">{swimDistanceStr}</span></div>
                   <div className="flex justify-between"><span className="text-zinc-400">Time</span><span className="font-semibold">{swimTimeStr}</span></div>
                   <div className="flex justify-between"><span className="text-zinc-400">Pace</span><span className="font-semibold">{swimPaceStr}</span></div>
+                  {swim?.avgSwolf != null && (
+                    <div className="flex justify-between"><span className="text-zinc-400">Avg SWOLF</span><span className="font-semibold">{Math.round(swim.avgSwolf)}</span></div>
+                  )}
+                  {swim?.strokesPer100 != null && (
+                    <div className="flex justify-between"><span className="text-zinc-400">Strokes / 100 {swimUnit}</span><span className="font-semibold">{Math.round(swim.strokesPer100)}</span></div>
+                  )}
                   {m?.swimLongest && (
                     <div className="flex justify-between items-start">
                       <span className="text-zinc-400">Longest</span>
                       <div className="text-right max-w-[70%] whitespace-normal break-words leading-snug">
                         <div className="font-semibold">{m.swimLongest.title}</div>
-                        <div className="font-semibold text-xs sm:text-sm opacity-90">{m.swimLongest.distanceM.toLocaleString()} m</div>
+                        <div className="font-semibold text-xs sm:text-sm opacity-90">{fmtSwimDistance(m.swimLongest.distanceM)}</div>
                       </div>
                     </div>
                   )}
@@ -1124,6 +2197,258 @@ export default function Home() {
               </div>
             </section>
 
+            {/* Running form: cadence, stride, vertical ratio, ground contact */}
+            {runningForm && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="h-9 w-9 rounded-2xl bg-red-500/10 flex items-center justify-center border border-red-400/50 shrink-0">
+                    <Footprints className="w-5 h-5 text-red-300" />
+                  </div>
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.2em] text-red-300">Running form</p>
+                    <p className="text-sm text-zinc-300">{runningForm.runs.toLocaleString()} run{runningForm.runs === 1 ? '' : 's'} with running dynamics</p>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 grid-cols-2 sm:grid-cols-4 text-sm">
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Cadence</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{Math.round(runningForm.avgCadence)} spm</p>
+                    <p className="text-xs mt-1 text-zinc-500">
+                      {runningForm.cadenceShift
+                        ? `${Math.round(runningForm.cadenceShift.earlySpm)} → ${Math.round(runningForm.cadenceShift.lateSpm)} early to late`
+                        : runningForm.maxCadence != null ? `Max ${Math.round(runningForm.maxCadence)} spm` : 'Average per run'}
+                    </p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Stride length</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{runningForm.avgStrideM != null ? fmtStride(runningForm.avgStrideM) : '—'}</p>
+                    <p className="text-xs mt-1 text-zinc-500">
+                      {trends?.strideLength
+                        ? `${trends.strideLength.changeM >= 0 ? '+' : '−'}${isMetric
+                            ? `${Math.abs(Math.round(trends.strideLength.changeM * 100))} cm`
+                            : `${Math.abs(trends.strideLength.changeM * 39.3701).toFixed(1)} in`} ${MONTH_LABELS[trends.strideLength.firstMonthIdx]!.slice(0, 3)}–${MONTH_LABELS[trends.strideLength.lastMonthIdx]!.slice(0, 3)}`
+                        : 'Average per run'}
+                    </p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Vertical ratio</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{runningForm.avgVerticalRatio != null ? `${runningForm.avgVerticalRatio.toFixed(1)}%` : '—'}</p>
+                    <p className="text-xs mt-1 text-zinc-500">Bounce per stride; lower is more efficient</p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Ground contact</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{runningForm.avgGroundContactMs != null ? `${Math.round(runningForm.avgGroundContactMs)} ms` : '—'}</p>
+                    <p className="text-xs mt-1 text-zinc-500">Time each foot spends on the ground</p>
+                  </div>
+                </div>
+
+                <div className="grid gap-6 md:grid-cols-2 mt-5">
+                  <div>
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Cadence distribution</p>
+                    <div className="space-y-1.5">
+                      {runningForm.cadenceBins.map((b) => (
+                        <div key={b.lo} className="flex items-center gap-3 text-xs">
+                          <span className="w-16 text-zinc-400 tabular-nums">{b.hi == null ? `${b.lo}+` : b.lo === 0 ? `< ${b.hi}` : `${b.lo}–${b.hi - 1}`}</span>
+                          <div className="flex-1 h-2.5 rounded-full bg-zinc-800 overflow-hidden">
+                            <div className="h-full rounded-full bg-red-400/80" style={{ width: `${(b.runs / cadenceBinMax) * 100}%` }} />
+                          </div>
+                          <span className="w-8 text-right text-zinc-500 tabular-nums">{b.runs}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Pace vs cadence · one dot per run, Jan (blue) → Dec (pink)</p>
+                    <PaceCadenceScatter points={runningForm.points} formatPace={(v) => fmtPaceFromSecPerMi(v).replace(paceUnit, '')} />
+                    {runningForm.paceCadenceR != null && (
+                      <p className="text-[11px] text-zinc-500 mt-1">
+                        {Math.abs(runningForm.paceCadenceR) < 0.2
+                          ? 'Pace and cadence barely move together in your runs.'
+                          : runningForm.paceCadenceR < 0
+                            ? `Faster runs came with a higher cadence (r = ${runningForm.paceCadenceR.toFixed(2)}).`
+                            : `Faster runs came with a lower cadence — longer strides (r = ${runningForm.paceCadenceR.toFixed(2)}).`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {trends?.strideLength && (
+                  <div className="mt-5">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Stride length by month ({isMetric ? 'cm' : 'in'})</p>
+                    <MonthlyBars
+                      values={strideByMonth}
+                      accent="#f87171"
+                      unitLabel={isMetric ? 'cm' : 'in'}
+                      formatValue={(v) => (isMetric ? String(Math.round(v)) : v.toFixed(1))}
+                    />
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Cycling power: work, FTP trend, intensity mix (exports with power columns) */}
+            {bikePower && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="h-9 w-9 rounded-2xl bg-emerald-500/10 flex items-center justify-center border border-emerald-400/50 shrink-0">
+                    <Bike className="w-5 h-5 text-emerald-300" />
+                  </div>
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.2em] text-emerald-300">Cycling power</p>
+                    <p className="text-sm text-zinc-300">{bikePower.rides.toLocaleString()} ride{bikePower.rides === 1 ? '' : 's'} with power data</p>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-3 text-sm">
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Total work</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{Math.round(bikePower.totalWorkKj).toLocaleString()} kJ</p>
+                    <p className="text-xs mt-1 text-zinc-500">Roughly the kcal you burned pedaling</p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Estimated FTP</p>
+                    {bikePower.estimatedFtp != null ? (
+                      <>
+                        <p className="text-zinc-100 font-semibold mt-1">{Math.round(bikePower.estimatedFtp)} W</p>
+                        <p className="text-xs mt-1 text-zinc-500">
+                          {bikePower.ftpChange != null && Math.round(bikePower.ftpChange) !== 0
+                            ? `${bikePower.ftpChange > 0 ? '+' : '−'}${Math.abs(Math.round(bikePower.ftpChange))} W first to last month`
+                            : '95% of your best 20 minutes'}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-zinc-500 mt-1">—</p>
+                    )}
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Hardest ride (TSS)</p>
+                    {bikePower.topTssRide ? (
+                      <>
+                        <p className="text-zinc-100 font-semibold mt-1">{Math.round(bikePower.topTssRide.tss)} TSS · {bikePower.topTssRide.title}</p>
+                        <p className="text-xs mt-1 text-zinc-500">
+                          {bikePower.topTssRide.date}
+                          {bikePower.topTssRide.intensityFactor != null ? ` · IF ${bikePower.topTssRide.intensityFactor.toFixed(2)}` : ''}
+                          {bikePower.topTssRide.normalizedPower != null ? ` · NP ${Math.round(bikePower.topTssRide.normalizedPower)} W` : ''}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-zinc-500 mt-1">—</p>
+                    )}
+                  </div>
+                </div>
+
+                {bikePower.estimatedFtp != null && (
+                  <div className="mt-5">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">FTP estimate by month</p>
+                    <MonthlyBars values={bikePower.monthlyFtp.map((v) => v ?? 0)} unitLabel="W" />
+                  </div>
+                )}
+
+                {powerBandTotal > 0 && (
+                  <div className="mt-5">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Ride time by intensity</p>
+                    <div className="flex h-2.5 rounded-full overflow-hidden bg-zinc-800">
+                      {POWER_BANDS.map((b, i) => (
+                        <div key={b.key} style={{ width: `${(bikePower.intensitySeconds[b.key] / powerBandTotal) * 100}%`, background: POWER_BAND_COLORS[i] }} />
+                      ))}
+                    </div>
+                    <div className="mt-3 grid grid-cols-2 sm:grid-cols-5 gap-3 text-xs">
+                      {POWER_BANDS.map((b, i) => (
+                        <div key={b.key} className="flex items-start gap-2">
+                          <span className="mt-1 h-2.5 w-2.5 rounded-sm shrink-0" style={{ background: POWER_BAND_COLORS[i] }} />
+                          <div>
+                            <p className="text-zinc-200 font-medium">{b.label} · {Math.round((bikePower.intensitySeconds[b.key] / powerBandTotal) * 100)}%</p>
+                            <p className="text-zinc-500">{Math.round(bikePower.intensitySeconds[b.key] / 3600)}h</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <p className="mt-4 text-[11px] text-zinc-500">
+                  FTP is estimated as 95% of each month’s best 20-minute power. Intensity uses each ride’s intensity factor
+                  (normalized power ÷ FTP) and TSS, from Garmin where the export has them.
+                </p>
+              </section>
+            )}
+
+            {/* Swimming: pool vs open water, strokes, pace by month */}
+            {swim && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="h-9 w-9 rounded-2xl bg-cyan-500/10 flex items-center justify-center border border-cyan-400/50 shrink-0">
+                    <Waves className="w-5 h-5 text-cyan-300" />
+                  </div>
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.2em] text-cyan-300">In the water</p>
+                    <p className="text-sm text-zinc-300">
+                      {swim.venues.pool.sessions} pool · {swim.venues.openWater.sessions} open water
+                      {swimUnit === 'yd' ? ' · yard pools' : ''}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-3 text-sm">
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Pool</p>
+                    {swim.venues.pool.sessions ? (
+                      <>
+                        <p className="text-zinc-100 font-semibold mt-1">{fmtSwimDistance(swim.venues.pool.meters)}</p>
+                        <p className="text-xs mt-1 text-zinc-500">
+                          {formatSwimPacePer100(swim.venues.pool.seconds, swim.venues.pool.meters, swimUnit)}
+                          {swim.avgSwolf != null ? ` · SWOLF ${Math.round(swim.avgSwolf)}` : ''}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-zinc-500 mt-1">—</p>
+                    )}
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Open water</p>
+                    {swim.venues.openWater.sessions ? (
+                      <>
+                        <p className="text-zinc-100 font-semibold mt-1">{fmtSwimDistance(swim.venues.openWater.meters)}</p>
+                        <p className="text-xs mt-1 text-zinc-500">
+                          {swim.longestOpenWater
+                            ? `Longest: ${swim.longestOpenWater.title} · ${fmtSwimDistance(swim.longestOpenWater.meters)}`
+                            : formatSwimPacePer100(swim.venues.openWater.seconds, swim.venues.openWater.meters, swimUnit)}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-zinc-500 mt-1">—</p>
+                    )}
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Strokes</p>
+                    {swim.totalStrokes != null ? (
+                      <>
+                        <p className="text-zinc-100 font-semibold mt-1">{swim.totalStrokes.toLocaleString()}</p>
+                        <p className="text-xs mt-1 text-zinc-500">
+                          {swim.strokesPer100 != null ? `${Math.round(swim.strokesPer100)} per 100 ${swimUnit}` : 'Across the year'}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-zinc-500 mt-1">—</p>
+                    )}
+                  </div>
+                </div>
+
+                {fastestSwimMonth != null && (
+                  <div className="mt-5">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Pace per 100 {swimUnit} by month · shorter is faster</p>
+                    <MonthlyBars
+                      values={swimPaceByMonth}
+                      accent="#22d3ee"
+                      highlightIdx={fastestSwimMonth}
+                      formatValue={(v) => formatClockTime(v)}
+                    />
+                  </div>
+                )}
+              </section>
+            )}
+
             {/* Big moments */}
             <section className="grid gap-4 sm:gap-5 md:grid-cols-2">
               {m?.longestActivity && (
@@ -1166,6 +2491,337 @@ export default function Home() {
               )}
             </section>
 
+            {/* Race season: rows flagged by title, standard distance and pace */}
+            {races.length > 0 && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex items-center justify-between gap-3 mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-2xl bg-rose-500/10 flex items-center justify-center border border-rose-400/50 shrink-0">
+                      <Medal className="w-5 h-5 text-rose-300" />
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-rose-300">Race season</p>
+                      <p className="text-sm text-zinc-300">{races.length} likely race{races.length === 1 ? '' : 's'} in {focusYear}</p>
+                    </div>
+                  </div>
+                </div>
+                <div className="divide-y divide-zinc-800">
+                  {races.map((r, i) => (
+                    <div key={`${r.date}-${i}`} className="flex items-baseline justify-between gap-3 py-2.5 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-zinc-100 font-medium truncate">{r.title}</p>
+                        <p className="text-[11px] text-zinc-500">
+                          {r.date} · {r.standard ? r.standard.label : `${toDist(r.distanceMi).toFixed(1)} ${distUnit}`}
+                          {r.type === 'Running' && r.secPerMi != null ? ` · ${fmtPaceFromSecPerMi(r.secPerMi)}` : ''}
+                          <span className="text-zinc-600"> · by {r.signals.join(' + ')}</span>
+                        </p>
+                      </div>
+                      <span className="text-zinc-50 font-semibold tabular-nums shrink-0">{formatClockTime(r.seconds)}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Personal records (device files / archive only — best efforts need track samples) */}
+            {records && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex items-center justify-between gap-3 mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-2xl bg-amber-500/10 flex items-center justify-center border border-amber-400/50 shrink-0">
+                      <Trophy className="w-5 h-5 text-amber-300" />
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-amber-300">Personal records</p>
+                      <p className="text-sm text-zinc-300">Fastest efforts inside any activity in {focusYear}</p>
+                    </div>
+                  </div>
+                  {newPrs.length > 0 && (
+                    <p className="text-xs font-semibold text-emerald-400 whitespace-nowrap">{newPrs.length} all-time PR{newPrs.length === 1 ? '' : 's'}</p>
+                  )}
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {([
+                    ['Running', records.run],
+                    [records.bikeKind === 'power' ? 'Cycling · best power' : 'Cycling · best speed', records.bike],
+                  ] as const).filter(([, list]) => list.length > 0).map(([title, list]) => (
+                    <div key={title} className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                      <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">{title}</p>
+                      <div className="divide-y divide-zinc-800">
+                        {list.map((r) => (
+                          <div key={r.key} className="flex items-baseline justify-between gap-3 py-2 text-sm">
+                            <div className="min-w-0">
+                              <p className="text-zinc-100 font-medium">{r.label}</p>
+                              <p className="text-[11px] text-zinc-500 truncate">
+                                {r.yearBest
+                                  ? r.isAllTimePr
+                                    ? `${r.yearBest.title} · ${r.yearBest.date}`
+                                    : `All-time ${fmtEffort(r.kind, r.allTimeBest)} in ${r.allTimeBest?.year}`
+                                  : `None this year · all-time ${fmtEffort(r.kind, r.allTimeBest)} in ${r.allTimeBest?.year}`}
+                              </p>
+                            </div>
+                            <div className="flex items-baseline gap-2 shrink-0">
+                              <span className="text-zinc-50 font-semibold tabular-nums">{fmtEffort(r.kind, r.yearBest)}</span>
+                              {r.isAllTimePr && <span className="text-[10px] font-bold uppercase tracking-wide text-emerald-400">PR</span>}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Training calendar: one square per day, contributions-style */}
+            {trainingCalendar && calendar && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-2xl bg-emerald-500/10 flex items-center justify-center border border-emerald-400/50 shrink-0">
+                      <CalendarDays className="w-5 h-5 text-emerald-300" />
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-emerald-300">Training calendar</p>
+                      <p className="text-sm text-zinc-300">
+                        {calendar.activeDays} active days · {calendar.restDays} rest days · {calendar.missedWeeks.length} missed week{calendar.missedWeeks.length === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 self-start max-w-full">
+                    {calendarSportOptions.length > 2 && (
+                      <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                        {calendarSportOptions.map((o) => (
+                          <button
+                            key={o.key}
+                            type="button"
+                            onClick={() => setCalendarSport(o.key)}
+                            className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                              o.key === effectiveCalendarSport ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                            }`}
+                          >
+                            {o.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                      {calendarMetricOptions.map((o) => (
+                        <button
+                          key={o.key}
+                          type="button"
+                          onClick={() => setCalendarMetric(o.key)}
+                          className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                            o.key === effectiveCalendarMetric ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                          }`}
+                        >
+                          {o.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <CalendarHeatmap
+                  cells={calendar.cells}
+                  weeks={trainingCalendar.weeks}
+                  missedWeeks={calendar.missedWeeks}
+                  describe={describeCalendarDay}
+                />
+
+                <p className="mt-3 text-[11px] text-zinc-500">
+                  Darker to brighter green: each step is a quarter of your active days. Rest days stay dark; weeks with no
+                  session between your first and last one are tinted rose and marked underneath.
+                </p>
+              </section>
+            )}
+
+            {/* Week by week: ISO-week volume, rolling average, consistency */}
+            {weeklyVolume && weeklyChart && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-2xl bg-emerald-500/10 flex items-center justify-center border border-emerald-400/50 shrink-0">
+                      <Activity className="w-5 h-5 text-emerald-300" />
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-emerald-300">Week by week</p>
+                      <p className="text-sm text-zinc-300">
+                        {weeklyMeasure === 'time' ? 'Hours' : 'Distance'} per ISO week ({weeklyChart.unit}), with a 4-week average
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 self-start max-w-full">
+                    {weeklySportOptions.length > 2 && (
+                      <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                        {weeklySportOptions.map((o) => (
+                          <button
+                            key={o.key}
+                            type="button"
+                            onClick={() => setWeeklySport(o.key)}
+                            className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                              o.key === effectiveWeeklySport ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                            }`}
+                          >
+                            {o.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                      {([['distance', 'Distance'], ['time', 'Time']] as const).map(([key, label]) => (
+                        <button
+                          key={key}
+                          type="button"
+                          onClick={() => setWeeklyMeasure(key)}
+                          className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                            key === weeklyMeasure ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <WeeklyBars
+                  values={weeklyChart.values}
+                  average={weeklyChart.average}
+                  mondays={weeklyVolume.weeks.map((w) => w.monday)}
+                  unitLabel={weeklyChart.unit}
+                  formatValue={(v) => (weeklyChart.unit === 'h' ? v.toFixed(1) : Math.round(v).toLocaleString())}
+                />
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-5">
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-zinc-400 text-xs uppercase tracking-wide">Consistency</p>
+                      <div className="inline-flex items-center gap-0.5 rounded-lg border border-zinc-700 bg-zinc-900/60 p-0.5">
+                        {[1, 2, 3, 4].map((n) => (
+                          <button
+                            key={n}
+                            type="button"
+                            onClick={() => setWeeklyMinSessions(n)}
+                            aria-label={`At least ${n} session${n === 1 ? '' : 's'} a week`}
+                            className={`px-1.5 h-5 rounded-md text-[10px] font-medium transition ${
+                              n === weeklyMinSessions ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                            }`}
+                          >
+                            {n}+
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <p className="text-zinc-100 font-semibold mt-1">{Math.round(weeklyChart.consistency.share * 100)}%</p>
+                    <p className="text-xs mt-1 text-zinc-500">
+                      {weeklyChart.consistency.activeWeeks} of {weeklyChart.consistency.weeksCounted} weeks with {weeklyMinSessions}+ session{weeklyMinSessions === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Longest run</p>
+                    <p className="text-zinc-100 font-semibold mt-1">
+                      {weeklyChart.consistency.longestRun
+                        ? `${weeklyChart.consistency.longestRun.weeks} week${weeklyChart.consistency.longestRun.weeks === 1 ? '' : 's'}`
+                        : '--'}
+                    </p>
+                    <p className="text-xs mt-1 text-zinc-500">
+                      {weeklyChart.consistency.longestRun
+                        ? `Weeks ${weeklyChart.consistency.longestRun.startWeek}–${weeklyChart.consistency.longestRun.endWeek} in a row`
+                        : `No week with ${weeklyMinSessions}+ sessions yet`}
+                    </p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Biggest week</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{fmtWeekly(weeklyChart.values[weeklyChart.peak] ?? 0, weeklyChart.unit)}</p>
+                    <p className="text-xs mt-1 text-zinc-500">
+                      Week {weeklyChart.peak + 1} · from {fmtIsoDay(weeklyVolume.weeks[weeklyChart.peak]!.monday)}
+                    </p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Typical week</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{fmtWeekly(weeklyChart.perActiveWeek, weeklyChart.unit)}</p>
+                    <p className="text-xs mt-1 text-zinc-500">Average over weeks you trained</p>
+                  </div>
+                </div>
+
+                <p className="mt-4 text-[11px] text-zinc-500">
+                  Weeks run Monday to Sunday and are numbered the ISO way, so early January can still count toward last
+                  year. The consistency score only counts weeks that have started.
+                </p>
+              </section>
+            )}
+
+            {/* Training clock: start-time heatmap, chronotype, weekends */}
+            {habits && chronotype && (
+              <section className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="h-9 w-9 rounded-2xl bg-sky-500/10 flex items-center justify-center border border-sky-400/50 shrink-0">
+                    <Clock className="w-5 h-5 text-sky-300" />
+                  </div>
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.2em] text-sky-300">Your training clock</p>
+                    <p className="text-sm text-zinc-300">When {habits.timed} sessions started, by weekday and hour</p>
+                  </div>
+                </div>
+
+                <StartTimeGrid grid={habits.grid} />
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-5">
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">You’re a…</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{chronotype.label}</p>
+                    <p className="text-xs mt-1 text-zinc-500">{chronotypeLine}</p>
+                  </div>
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Favorite slot</p>
+                    <p className="text-zinc-100 font-semibold mt-1">{WEEKDAY_NAMES[habits.peak.weekday]}s, {fmtHour(habits.peak.hour)}</p>
+                    <p className="text-xs mt-1 text-zinc-500">
+                      {habits.peak.sessions} session{habits.peak.sessions === 1 ? '' : 's'} · typical start {formatTimeOfDay(habits.typicalStartMin)}
+                    </p>
+                  </div>
+                  {weekendShare != null && (
+                    <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                      <p className="text-zinc-400 text-xs uppercase tracking-wide">Weekends</p>
+                      <p className="text-zinc-100 font-semibold mt-1">{Math.round(weekendShare * 100)}% of your time</p>
+                      <p className="text-xs mt-1 text-zinc-500">
+                        {habits.weekend.sessions} weekend vs {habits.weekday.sessions} weekday sessions
+                        {habits.weekend.sessions && habits.weekday.sessions
+                          ? ` · ${Math.round(habits.weekend.seconds / habits.weekend.sessions / 60)} vs ${Math.round(habits.weekday.seconds / habits.weekday.sessions / 60)} min each`
+                          : ''}
+                      </p>
+                    </div>
+                  )}
+                  <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">Earliest · latest</p>
+                    <p className="text-zinc-100 font-semibold mt-1">
+                      {formatTimeOfDay(habits.earliest.minutes)} · {formatTimeOfDay(habits.latest.minutes)}
+                    </p>
+                    <p className="text-xs mt-1 text-zinc-500 truncate" title={`${habits.earliest.title} · ${habits.latest.title}`}>
+                      {fmtIsoDay(habits.earliest.date)} · {fmtIsoDay(habits.latest.date)}
+                    </p>
+                  </div>
+                </div>
+
+                {habits.byType.length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {habits.byType.map((t) => (
+                      <span key={t.type} className="rounded-full border border-zinc-700 bg-black/40 px-3 py-1 text-xs text-zinc-300">
+                        {t.type} <span className="text-zinc-500">usually at</span> {fmtHour(t.hour)}
+                        <span className="text-zinc-500"> · {t.sessions} of {t.timed}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <p className="mt-4 text-[11px] text-zinc-500">
+                  Start times come from the Date column, in the time zone the activity was recorded in; rows without a
+                  clock time only count toward the weekend split. The day turns over at 3 a.m., so a 1 a.m. session is
+                  your latest, not your earliest.
+                </p>
+              </section>
+            )}
+
             {/* Streak + elevation */}
             <section className="grid gap-4 sm:gap-5 md:grid-cols-2">
               <div className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
@@ -1180,6 +2836,17 @@ export default function Home() {
                 </div>
                 <div className="text-3xl sm:text-4xl font-black tracking-tight mb-2">{streakStr}</div>
                 <p className="text-xs text-zinc-500">Longest run of consecutive days with at least one activity.</p>
+                {m?.longestWeekStreak && (
+                  <div className="mt-4 pt-4 border-t border-zinc-800">
+                    <div className="flex items-baseline gap-2">
+                      <span className="text-2xl font-black tracking-tight">
+                        {m.longestWeekStreak.weeks} week{m.longestWeekStreak.weeks === 1 ? '' : 's'}
+                      </span>
+                      <span className="text-sm text-zinc-300">{m.longestWeekStreak.start} → {m.longestWeekStreak.end}</span>
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-1">Longest run of Monday–Sunday weeks with at least one activity. Rest days don’t break it.</p>
+                  </div>
+                )}
               </div>
 
               <div className="bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
@@ -1322,9 +2989,352 @@ export default function Home() {
         )}
       </div>
     </div>
+    {sleepNights && (
+      <div className="mt-6 space-y-4">
+        {sleepNights.stageShare && (
+          <div>
+            <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Time in each stage</p>
+            <div className="flex h-2.5 rounded-full overflow-hidden bg-zinc-800">
+              {SLEEP_STAGES.map((st) => (
+                <div key={st.key} style={{ width: `${sleepNights.stageShare![st.key] * 100}%`, background: st.color }} />
+              ))}
+            </div>
+            <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs">
+              {SLEEP_STAGES.map((st) => (
+                <div key={st.key} className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-sm shrink-0" style={{ background: st.color }} />
+                  <p className="text-zinc-200 font-medium">{st.label} · {Math.round(sleepNights.stageShare![st.key] * 100)}%</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {sleepNights.bedtime && (
+            <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+              <p className="text-zinc-400 text-xs uppercase tracking-wide">Bedtime</p>
+              <p className="text-zinc-100 font-semibold mt-1">{formatTimeOfDay(sleepNights.bedtime.avg)}</p>
+              <p className="text-xs mt-1 text-zinc-500">± {Math.round(sleepNights.bedtime.sd)} min night to night</p>
+            </div>
+          )}
+          {sleepNights.wakeTime && (
+            <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+              <p className="text-zinc-400 text-xs uppercase tracking-wide">Wake time</p>
+              <p className="text-zinc-100 font-semibold mt-1">{formatTimeOfDay(sleepNights.wakeTime.avg)}</p>
+              <p className="text-xs mt-1 text-zinc-500">± {Math.round(sleepNights.wakeTime.sd)} min night to night</p>
+            </div>
+          )}
+          {sleepNights.socialJetlagMinutes != null && (
+            <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+              <p className="text-zinc-400 text-xs uppercase tracking-wide">Social jetlag</p>
+              <p className="text-zinc-100 font-semibold mt-1">{formatDurationMinutesToHuman(sleepNights.socialJetlagMinutes)}</p>
+              <p className="text-xs mt-1 text-zinc-500">
+                Mid-sleep {formatTimeOfDay(sleepNights.weekdayMidpoint!)} weekdays, {formatTimeOfDay(sleepNights.weekendMidpoint!)} weekends
+              </p>
+            </div>
+          )}
+          {sleepNights.longestStreak && (
+            <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+              <p className="text-zinc-400 text-xs uppercase tracking-wide">Longest 7h+ streak</p>
+              <p className="text-zinc-100 font-semibold mt-1">{sleepNights.longestStreak.nights} night{sleepNights.longestStreak.nights === 1 ? '' : 's'}</p>
+              <p className="text-xs mt-1 text-zinc-500">
+                {fmtIsoDay(sleepNights.longestStreak.start)} – {fmtIsoDay(sleepNights.longestStreak.end)}
+              </p>
+            </div>
+          )}
+          {sleepNights.bestNight && (
+            <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+              <p className="text-zinc-400 text-xs uppercase tracking-wide">Best night</p>
+              <p className="text-zinc-100 font-semibold mt-1">Score {sleepNights.bestNight.score}</p>
+              <p className="text-xs mt-1 text-zinc-500">
+                {fmtIsoDay(sleepNights.bestNight.date)}{sleepNights.bestNight.minutes ? ` · ${formatDurationMinutesToHuman(sleepNights.bestNight.minutes)}` : ''}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <p className="text-[11px] text-zinc-500">
+          A night counts toward the day it ends on. Regularity is the standard deviation of bedtime and wake time;
+          social jetlag is how far your sleep midpoint moves on weekend nights.
+        </p>
+      </div>
+    )}
   </section>
 )}
 
+        {/* Daily wellness (daily report CSVs / archive only) */}
+        {dailyWellness && (
+          <section className="mt-5 sm:mt-6 bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="h-9 w-9 rounded-2xl bg-teal-500/10 flex items-center justify-center border border-teal-400/50 shrink-0">
+                <Activity className="w-5 h-5 text-teal-200" />
+              </div>
+              <div>
+                <p className="text-[0.7rem] sm:text-xs uppercase tracking-[0.2em] text-teal-200">Daily wellness</p>
+                <p className="text-sm sm:text-base text-zinc-300">
+                  {dailyWellness.days} days tracked in {wellnessYear}
+                </p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                { label: 'Resting HR', value: dailyWellness.avgRestingHr, unit: ' bpm', helper: 'Daily average' },
+                { label: 'Stress', value: dailyWellness.avgStress, unit: '', helper: 'All-day average, 0–100' },
+                { label: 'Body Battery high', value: dailyWellness.avgBodyBatteryHigh, unit: '', helper: 'Average daily peak' },
+                { label: 'Body Battery low', value: dailyWellness.avgBodyBatteryLow, unit: '', helper: 'Average daily low' },
+              ].filter((c) => c.value != null).map((c) => (
+                <div key={c.label} className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                  <p className="text-zinc-400 text-xs uppercase tracking-wide">{c.label}</p>
+                  <p className="text-zinc-100 font-semibold mt-1">{Math.round(c.value!)}{c.unit}</p>
+                  <p className="text-xs mt-1 text-zinc-500">{c.helper}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Heart & recovery: resting HR and HRV status (daily data only) */}
+        {heartTrend && (rhr || hrv) && (
+          <section className="mt-5 sm:mt-6 bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="h-9 w-9 rounded-2xl bg-rose-500/10 flex items-center justify-center border border-rose-400/50 shrink-0">
+                <HeartPulse className="w-5 h-5 text-rose-200" />
+              </div>
+              <div>
+                <p className="text-[0.7rem] sm:text-xs uppercase tracking-[0.2em] text-rose-200">Heart &amp; recovery</p>
+                <p className="text-sm sm:text-base text-zinc-300">
+                  {rhr ? `${rhr.days} days of resting heart rate` : `${hrv!.nights} nights of HRV`} in {wellnessYear}
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {rhr && (
+                <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                  <p className="text-zinc-400 text-xs uppercase tracking-wide">Lowest resting HR</p>
+                  <p className="text-zinc-100 font-semibold mt-1">{rhr.lowest.bpm} bpm</p>
+                  <p className="text-xs mt-1 text-zinc-500">{fmtIsoDay(rhr.lowest.date)} · avg {Math.round(rhr.avg)} bpm</p>
+                </div>
+              )}
+              {rhr?.change && (
+                <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                  <p className="text-zinc-400 text-xs uppercase tracking-wide">Over the year</p>
+                  <p className={`font-semibold mt-1 ${rhr.change.bpm < -0.5 ? 'text-emerald-400' : 'text-zinc-100'}`}>
+                    {rhr.change.bpm > 0 ? '+' : ''}{rhr.change.bpm.toFixed(1)} bpm
+                  </p>
+                  <p className="text-xs mt-1 text-zinc-500">
+                    {MONTH_LABELS[rhr.change.firstMonthIdx]!.slice(0, 3)} {Math.round(rhr.change.first)} → {MONTH_LABELS[rhr.change.lastMonthIdx]!.slice(0, 3)} {Math.round(rhr.change.last)} bpm
+                  </p>
+                </div>
+              )}
+              {hrv?.avgOvernight != null && (
+                <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                  <p className="text-zinc-400 text-xs uppercase tracking-wide">Overnight HRV</p>
+                  <p className="text-zinc-100 font-semibold mt-1">{Math.round(hrv.avgOvernight)} ms</p>
+                  <p className="text-xs mt-1 text-zinc-500">
+                    {hrv.baseline ? `Baseline ${Math.round(hrv.baseline.low)}–${Math.round(hrv.baseline.high)} ms` : 'Nightly average'}
+                  </p>
+                </div>
+              )}
+              {hrvStatusTotal > 0 && (
+                <div className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                  <p className="text-zinc-400 text-xs uppercase tracking-wide">HRV status</p>
+                  <p className="text-zinc-100 font-semibold mt-1">{hrv!.statusDays.balanced} balanced</p>
+                  <p className="text-xs mt-1 text-zinc-500">
+                    {hrv!.statusDays.unbalanced} unbalanced{hrv!.statusDays.low ? ` · ${hrv!.statusDays.low} low` : ''}{hrv!.statusDays.poor ? ` · ${hrv!.statusDays.poor} poor` : ''}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {rhr && rhr.monthly.filter((v) => v != null).length >= 2 && (
+              <div className="mt-5">
+                <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Resting HR by month (lowest highlighted)</p>
+                <MonthlyBars
+                  values={rhr.monthly.map((v) => v ?? 0)}
+                  accent="#fb7185"
+                  unitLabel="bpm"
+                  highlightIdx={rhr.monthly.reduce<number | null>((best, v, i) => (v != null && (best == null || v < rhr.monthly[best]!) ? i : best), null)}
+                />
+              </div>
+            )}
+
+            {heartTrend.volume && (
+              <p className="mt-4 text-sm text-zinc-300">
+                In {MONTH_LABELS[heartTrend.volume.busiest.monthIdx]}, your biggest training month ({Math.round(heartTrend.volume.busiest.hours)}h),
+                resting HR averaged {Math.round(heartTrend.volume.busiest.restingHr)} bpm; in {MONTH_LABELS[heartTrend.volume.quietest.monthIdx]} ({Math.round(heartTrend.volume.quietest.hours)}h)
+                it was {Math.round(heartTrend.volume.quietest.restingHr)} bpm.
+              </p>
+            )}
+
+            <p className="mt-4 text-[11px] text-zinc-500">
+              The year’s change compares the first and last months with at least five readings. Nights without a Garmin
+              HRV status are counted balanced when the 7-day average sits inside that night’s baseline band.
+            </p>
+          </section>
+        )}
+
+        {/* Insights: training load joined with sleep, resting HR and steps */}
+        {insights.length > 0 && (
+          <section className="mt-5 sm:mt-6 bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="h-9 w-9 rounded-2xl bg-amber-500/10 flex items-center justify-center border border-amber-400/50 shrink-0">
+                <Lightbulb className="w-5 h-5 text-amber-200" />
+              </div>
+              <div>
+                <p className="text-[0.7rem] sm:text-xs uppercase tracking-[0.2em] text-amber-200">Insights</p>
+                <p className="text-sm sm:text-base text-zinc-300">How your training showed up in your recovery</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {insights.map((ins) => {
+                const top = Math.max(ins.a.mean, ins.b.mean);
+                const fmt = (v: number) => `${v >= 1000 ? Math.round(v).toLocaleString() : v.toFixed(ins.key === 'rhr-big-weeks' ? 1 : 0)}${ins.unit}`;
+                return (
+                  <div key={ins.key} className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide">{ins.title}</p>
+                    <p className="text-zinc-100 font-semibold mt-1 text-sm">{ins.finding}</p>
+                    <div className="mt-3 space-y-2">
+                      {[ins.a, ins.b].map((g, i) => (
+                        <div key={g.label}>
+                          <div className="flex justify-between text-xs text-zinc-400">
+                            <span>{g.label}</span>
+                            <span className="text-zinc-200">{fmt(g.mean)}</span>
+                          </div>
+                          <div className="mt-1 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${i === 0 ? 'bg-amber-400' : 'bg-zinc-500'}`}
+                              style={{ width: `${top > 0 ? (g.mean / top) * 100 : 0}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs mt-3 text-zinc-500">
+                      n = {ins.a.n} vs {ins.b.n} · d = {ins.effectSize.toFixed(2)} ({ins.strength})
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="mt-4 text-[11px] text-zinc-500">
+              Hard days are your top quarter of training days by load; easy days are rest days and the lighter half of
+              training days. Week comparisons use the top and bottom third of weeks with four or more resting HR readings.
+              d is the difference in standard deviations — about 0.2 is small, 0.5 medium, 0.8 large. These are
+              associations, not causes.
+            </p>
+          </section>
+        )}
+
+        {/* Body composition (opt-in: weigh-ins are personal) */}
+        {body && (
+          <section className="mt-5 sm:mt-6 bg-zinc-900/80 border border-zinc-700/70 rounded-3xl p-5 sm:p-6 shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+            <div className={`flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between ${bodyPrefs.show ? 'mb-4' : ''}`}>
+              <div className="flex items-center gap-3">
+                <div className="h-9 w-9 rounded-2xl bg-lime-500/10 flex items-center justify-center border border-lime-400/50 shrink-0">
+                  <LineChart className="w-5 h-5 text-lime-200" />
+                </div>
+                <div>
+                  <p className="text-[0.7rem] sm:text-xs uppercase tracking-[0.2em] text-lime-200">Body composition</p>
+                  <p className="text-sm sm:text-base text-zinc-300">
+                    {bodyPrefs.show
+                      ? `${body.weighIns} weigh-in${body.weighIns === 1 ? '' : 's'} in ${body.start.date.slice(0, 4)}`
+                      : 'Loaded, but hidden from your dashboard and story until you turn it on.'}
+                  </p>
+                </div>
+              </div>
+              <div className="self-start flex flex-wrap gap-2">
+                <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                  {([[false, 'Hidden'], [true, 'Show']] as const).map(([value, label]) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => setBodyPrefs((p) => ({ ...p, show: value }))}
+                      className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                        value === bodyPrefs.show ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {bodyPrefs.show && (
+                  <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+                    {([[false, 'Numbers'], [true, 'Change only']] as const).map(([value, label]) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => setBodyPrefs((p) => ({ ...p, hideAbsolute: value }))}
+                        className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                          value === bodyPrefs.hideAbsolute ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {bodyPrefs.show && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {(bodyPrefs.hideAbsolute
+                    ? [
+                        { label: 'Weight change', value: fmtMassChange(body.changeKg), helper: `${fmtIsoDay(body.start.date)} – ${fmtIsoDay(body.end.date)}` },
+                        { label: 'Range', value: `${Math.abs(toMass(body.max.kg - body.min.kg)).toFixed(1)} ${massUnit}`, helper: 'Highest to lowest weigh-in' },
+                        body.bodyFat && { label: 'Body fat', value: fmtPts(body.bodyFat.change), helper: 'First to last reading' },
+                        body.muscleChangeKg != null && { label: 'Muscle mass', value: fmtMassChange(body.muscleChangeKg), helper: 'First to last reading' },
+                      ]
+                    : [
+                        { label: 'Start', value: fmtMass(body.start.kg), helper: fmtIsoDay(body.start.date) },
+                        { label: 'End', value: fmtMass(body.end.kg), helper: `${fmtIsoDay(body.end.date)} · ${fmtMassChange(body.changeKg)}` },
+                        { label: 'Lowest', value: fmtMass(body.min.kg), helper: fmtIsoDay(body.min.date) },
+                        { label: 'Highest', value: fmtMass(body.max.kg), helper: fmtIsoDay(body.max.date) },
+                      ]
+                  ).filter((c): c is { label: string; value: string; helper: string } => !!c).map((c) => (
+                    <div key={c.label} className="bg-black/40 border border-zinc-700 rounded-2xl p-4">
+                      <p className="text-zinc-400 text-xs uppercase tracking-wide">{c.label}</p>
+                      <p className="text-zinc-100 font-semibold mt-1">{c.value}</p>
+                      <p className="text-xs mt-1 text-zinc-500">{c.helper}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-5 grid gap-5 md:grid-cols-2">
+                  <div>
+                    <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Weight by month</p>
+                    <Sparkline
+                      values={body.monthlyKg.map((v) => (v != null ? toMass(v) : null))}
+                      accent="#bef264"
+                      formatValue={bodyPrefs.hideAbsolute ? undefined : (v) => `${v.toFixed(1)} ${massUnit}`}
+                    />
+                  </div>
+                  {body.bodyFat && (
+                    <div>
+                      <p className="text-zinc-400 text-xs uppercase tracking-wide mb-2">Body fat by month</p>
+                      <Sparkline
+                        values={body.monthlyBodyFat}
+                        accent="#fbbf24"
+                        formatValue={bodyPrefs.hideAbsolute ? undefined : (v) => `${v.toFixed(1)}%`}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <p className="mt-4 text-[11px] text-zinc-500">
+                  Several weigh-ins on one day are averaged. “Change only” hides every absolute weight and body-fat reading,
+                  here and in the story scene.
+                </p>
+              </>
+            )}
+          </section>
+        )}
+
 
         {/* How to export (Garmin Connect) — quick reference once data is loaded */}
         {m && (
@@ -1373,6 +3383,14 @@ export default function Home() {
         </footer>
       </main>
     </div>
+    {igOpen && m && (
+      <IGCarousel
+        slides={igSlides}
+        year={focusYear ?? new Date().getFullYear()}
+        fileBase={`FitnessWrapped_${focusYear ?? new Date().getFullYear()}_ig`}
+        onClose={() => setIgOpen(false)}
+      />
+    )}
     {storyOpen && m && <StoryMode scenes={storyScenes} fileBase={`FitnessWrapped_${focusYear ?? new Date().getFullYear()}`} onClose={() => setStoryOpen(false)} />}
     </>
   );
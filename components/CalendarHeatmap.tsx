@@ -0,0 +1,82 @@
+// components/CalendarHeatmap.tsx — Inline-SVG year calendar, one square per day (no chart dependency).
+// Week columns run Monday to Sunday, shaded in four steps by the day's value. Rest days
+// stay dark, weeks with no training at all get a rose tint and a mark underneath, and
+// days still to come are outlined only. Hover or tap a day for its details.
+
+import { useState } from 'react';
+import type { CalendarCell } from '../lib/calendar';
+
+type CalendarHeatmapProps = {
+  cells: CalendarCell[];
+  weeks: number;
+  missedWeeks?: number[];
+  colors?: string[];                       // levels 1–4, light to strong
+  describe?: (cell: CalendarCell) => string;   // detail line; omit for a static (story) render
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_LABELS: Array<[number, string]> = [[0, 'Mon'], [2, 'Wed'], [4, 'Fri']];
+const DEFAULT_COLORS = ['#065f46', '#059669', '#34d399', '#a7f3d0'];
+const REST = '#27272a';
+const MISSED = '#4c1d2a';
+
+export default function CalendarHeatmap({ cells, weeks, missedWeeks = [], colors = DEFAULT_COLORS, describe }: CalendarHeatmapProps) {
+  const [active, setActive] = useState<CalendarCell | null>(null);
+  if (!cells.length) return null;
+
+  const size = 10, gap = 2, step = size + gap;
+  const left = 24, top = 12;
+  const W = left + weeks * step, H = top + 7 * step + 6;
+  const missed = new Set(missedWeeks);
+  const monthStarts = cells.filter((c) => c.date.endsWith('-01'));
+
+  const fillOf = (c: CalendarCell) =>
+    c.level > 0 ? colors[c.level - 1]! : c.future ? 'none' : missed.has(c.week) ? MISSED : REST;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${W} ${H}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Training calendar, one square per day"
+        onMouseLeave={() => setActive(null)}
+      >
+        {monthStarts.map((c) => (
+          <text key={c.date} x={left + c.week * step} y={top - 4} fontSize="7" fill="rgba(255,255,255,0.45)">
+            {MONTH_LABELS[parseInt(c.date.slice(5, 7), 10) - 1]}
+          </text>
+        ))}
+        {WEEKDAY_LABELS.map(([row, label]) => (
+          <text key={label} x={left - 4} y={top + row * step + size - 2} textAnchor="end" fontSize="6.5" fill="rgba(255,255,255,0.35)">
+            {label}
+          </text>
+        ))}
+        {cells.map((c) => (
+          <rect
+            key={c.date}
+            x={left + c.week * step}
+            y={top + c.weekday * step}
+            width={size}
+            height={size}
+            rx={2}
+            fill={fillOf(c)}
+            stroke={active?.date === c.date ? '#fafafa' : c.future ? 'rgba(255,255,255,0.1)' : 'none'}
+            strokeWidth={active?.date === c.date ? 1.2 : 0.6}
+            onMouseEnter={describe ? () => setActive(c) : undefined}
+            onClick={describe ? () => setActive(c) : undefined}
+            style={describe ? { cursor: 'pointer' } : undefined}
+          />
+        ))}
+        {[...missed].map((w) => (
+          <rect key={`m${w}`} x={left + w * step} y={H - 3} width={size} height={2} rx={1} fill="#fb7185" />
+        ))}
+      </svg>
+      {describe && (
+        <p className="mt-2 min-h-[1.25rem] text-xs text-zinc-300">
+          {active ? describe(active) : <span className="text-zinc-500">Hover or tap a day for details.</span>}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// components/LoadChart.tsx — Inline-SVG fitness / fatigue / form curves (no chart dependency).
+// Same footprint and month axis as MonthlyBars; screenshots cleanly via html-to-image.
+
+type LoadChartProps = {
+  days: Array<{ date: Date; ctl: number; atl: number; tsb: number }>;
+  accent?: string;          // fitness line
+  fatigueColor?: string;
+  formColor?: string;
+  peakIdx?: number | null;  // day to mark (defaults to peak fitness)
+};
+
+const MONTH_INITIALS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+export default function LoadChart({
+  days,
+  accent = '#34d399',
+  fatigueColor = 'rgba(244,114,182,0.75)',
+  formColor = 'rgba(250,204,21,0.35)',
+  peakIdx,
+}: LoadChartProps) {
+  const W = 360, H = 150;
+  const labelBand = 18;     // month initials
+  const formBand = 30;      // form (TSB) strip above the axis, centered on zero
+  const chartTop = 14;
+  const chartH = H - labelBand - formBand - chartTop;
+  if (!days.length) return null;
+
+  const year = days[0]!.date.getFullYear();
+  const yearDays = Math.round((Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / 86400000);
+  const xOf = (d: Date) => ((Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) - Date.UTC(year, 0, 1)) / 86400000 / (yearDays - 1)) * W;
+
+  const maxLoad = Math.max(1, ...days.map((d) => Math.max(d.ctl, d.atl)));
+  const yOf = (v: number) => chartTop + chartH - (v / maxLoad) * chartH;
+  const maxForm = Math.max(1, ...days.map((d) => Math.abs(d.tsb)));
+  const formMid = chartTop + chartH + formBand / 2;
+  const formY = (v: number) => formMid - (v / maxForm) * (formBand / 2 - 2);
+
+  const line = (pick: (d: LoadChartProps['days'][number]) => number) =>
+    days.map((d, i) => `${i ? 'L' : 'M'}${xOf(d.date).toFixed(1)} ${yOf(pick(d)).toFixed(1)}`).join('');
+  const formArea =
+    `M${xOf(days[0]!.date).toFixed(1)} ${formMid}` +
+    days.map((d) => `L${xOf(d.date).toFixed(1)} ${formY(d.tsb).toFixed(1)}`).join('') +
+    `L${xOf(days[days.length - 1]!.date).toFixed(1)} ${formMid}Z`;
+
+  const peak = peakIdx ?? days.reduce((best, d, i) => (d.ctl > days[best]!.ctl ? i : best), 0);
+  const peakDay = days[peak];
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label="Fitness, fatigue and form over the year">
+      <path d={formArea} fill={formColor} />
+      <line x1={0} x2={W} y1={formMid} y2={formMid} stroke="rgba(255,255,255,0.12)" strokeWidth={0.5} />
+      <path d={line((d) => d.atl)} fill="none" stroke={fatigueColor} strokeWidth={1} />
+      <path d={line((d) => d.ctl)} fill="none" stroke={accent} strokeWidth={2} strokeLinejoin="round" />
+      {peakDay && peakDay.ctl > 0 && (
+        <g>
+          <circle cx={xOf(peakDay.date)} cy={yOf(peakDay.ctl)} r={3} fill={accent} />
+          <text
+            x={Math.min(Math.max(xOf(peakDay.date), 16), W - 16)}
+            y={Math.max(yOf(peakDay.ctl) - 6, 9)}
+            textAnchor="middle"
+            fontSize="8.5"
+            fontWeight={700}
+            fill={accent}
+          >
+            {Math.round(peakDay.ctl)}
+          </text>
+        </g>
+      )}
+      {MONTH_INITIALS.map((m, i) => (
+        <text key={i} x={(i + 0.5) * (W / 12)} y={H - 5} textAnchor="middle" fontSize="10" fill="rgba(255,255,255,0.45)">
+          {m}
+        </text>
+      ))}
+    </svg>
+  );
+}
@@ -6,6 +6,7 @@ type MonthlyBarsProps = {
   accent?: string;           // bar color for the peak month
   unitLabel?: string;        // e.g. 'mi' / 'km' (shown on the peak bar)
   highlightIdx?: number | null; // month index to emphasize (defaults to the max)
+  formatValue?: (v: number) => string; // value label (defaults to a rounded number)
 };
 
 const MONTH_INITIALS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
@@ -15,6 +16,7 @@ export default function MonthlyBars({
   accent = '#34d399',
   unitLabel,
   highlightIdx,
+  formatValue = (v) => Math.round(v).toLocaleString(),
 }: MonthlyBarsProps) {
   const data = values.length === 12 ? values : Array.from({ length: 12 }, (_, i) => values[i] ?? 0);
   const max = Math.max(1, ...data);
@@ -47,7 +49,7 @@ export default function MonthlyBars({
                 fontWeight={isPeak ? 700 : 400}
                 fill={isPeak ? accent : 'rgba(255,255,255,0.55)'}
               >
-                {Math.round(v).toLocaleString()}{isPeak && unitLabel ? ` ${unitLabel}` : ''}
+                {formatValue(v)}{isPeak && unitLabel ? ` ${unitLabel}` : ''}
               </text>
             )}
             <rect
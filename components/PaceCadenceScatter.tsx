@@ -0,0 +1,64 @@
+// components/PaceCadenceScatter.tsx — Inline-SVG pace vs cadence scatter (no chart dependency).
+// One dot per run, faster pace at the top; dots shade from blue (January) to pink
+// (December) so a change in form over the year shows up as a drift in color.
+
+type PaceCadenceScatterProps = {
+  points: Array<{ cadence: number; secPerMi: number; monthIdx: number }>;
+  formatPace: (secPerMi: number) => string;   // axis labels in the user's units
+};
+
+const EARLY = [96, 165, 250];   // #60a5fa
+const LATE = [244, 114, 182];   // #f472b6
+
+function monthColor(monthIdx: number): string {
+  const t = monthIdx / 11;
+  const [r, g, b] = EARLY.map((c, i) => Math.round(c + (LATE[i]! - c) * t));
+  return `rgb(${r},${g},${b})`;
+}
+
+/** Middle 96% of the values, so one GPS-glitch run doesn't squash the rest. */
+function robustRange(values: number[]): [number, number] {
+  const s = [...values].sort((a, b) => a - b);
+  const lo = s[Math.floor(s.length * 0.02)]!;
+  const hi = s[Math.min(s.length - 1, Math.ceil(s.length * 0.98) - 1)]!;
+  const pad = Math.max((hi - lo) * 0.08, 1);
+  return [lo - pad, hi + pad];
+}
+
+export default function PaceCadenceScatter({ points, formatPace }: PaceCadenceScatterProps) {
+  if (points.length < 2) return null;
+
+  const W = 360, H = 200;
+  const left = 44, right = 8, top = 8, bottom = 24;
+  const plotW = W - left - right, plotH = H - top - bottom;
+
+  const [cMin, cMax] = robustRange(points.map((p) => p.cadence));
+  const [pMin, pMax] = robustRange(points.map((p) => p.secPerMi));
+  const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+  const xOf = (c: number) => left + ((clamp(c, cMin, cMax) - cMin) / (cMax - cMin)) * plotW;
+  const yOf = (p: number) => top + ((clamp(p, pMin, pMax) - pMin) / (pMax - pMin)) * plotH;   // faster = higher
+
+  const ticks = (lo: number, hi: number) => [0.15, 0.5, 0.85].map((f) => lo + (hi - lo) * f);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label="Pace versus cadence, one dot per run">
+      {ticks(pMin, pMax).map((p) => (
+        <g key={`p${p}`}>
+          <line x1={left} x2={W - right} y1={yOf(p)} y2={yOf(p)} stroke="rgba(255,255,255,0.08)" strokeWidth={0.5} />
+          <text x={left - 4} y={yOf(p) + 3} textAnchor="end" fontSize="8.5" fill="rgba(255,255,255,0.45)">
+            {formatPace(p)}
+          </text>
+        </g>
+      ))}
+      {ticks(cMin, cMax).map((c) => (
+        <text key={`c${c}`} x={xOf(c)} y={H - 10} textAnchor="middle" fontSize="8.5" fill="rgba(255,255,255,0.45)">
+          {Math.round(c)}
+        </text>
+      ))}
+      <text x={W - right} y={H - 1} textAnchor="end" fontSize="8" fill="rgba(255,255,255,0.35)">cadence (spm)</text>
+      {points.map((p, i) => (
+        <circle key={i} cx={xOf(p.cadence)} cy={yOf(p.secPerMi)} r={2.6} fill={monthColor(p.monthIdx)} fillOpacity={0.75} />
+      ))}
+    </svg>
+  );
+}
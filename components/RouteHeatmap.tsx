@@ -0,0 +1,72 @@
+// components/RouteHeatmap.tsx — Inline-SVG route heatmap (no map tiles, works offline).
+// Every route is drawn as a translucent stroke over a glow layer, so streets you ran
+// fifty times burn brighter than a one-off. Screenshots cleanly via html-to-image.
+
+import { useId } from 'react';
+import type { RouteHeatmap as RouteHeatmapData } from '../lib/heatmap';
+import { fitBounds } from '../lib/heatmap';
+
+type RouteHeatmapProps = {
+  heatmap: RouteHeatmapData;
+  zoom?: 'focus' | 'all';     // densest cluster vs every route
+  accent?: string;            // stroke color
+  width?: number;
+  height?: number;
+  background?: string;        // 'none' to sit on a colored scene
+};
+
+export default function RouteHeatmap({
+  heatmap,
+  zoom = 'focus',
+  accent = '#34d399',
+  width = 360,
+  height = 240,
+  background = '#0b0f14',
+}: RouteHeatmapProps) {
+  const glowId = useId();
+  const b = fitBounds(zoom === 'all' ? heatmap.fullBounds : heatmap.bounds, width / height);
+  const sx = width / (b.maxX - b.minX);
+  const sy = height / (b.maxY - b.minY);
+
+  const paths = heatmap.routes.map((route) =>
+    route
+      .map(([x, y], i) => `${i ? 'L' : 'M'}${((x - b.minX) * sx).toFixed(1)} ${((y - b.minY) * sy).toFixed(1)}`)
+      .join('')
+  );
+  // Fewer routes → more opaque strokes, so a short year still reads.
+  const alpha = Math.max(0.12, Math.min(0.6, 1.5 / Math.sqrt(paths.length + 1)));
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`Map of ${heatmap.routeCount.toLocaleString()} routes`}
+    >
+      <defs>
+        <filter id={glowId} x="-10%" y="-10%" width="120%" height="120%">
+          <feGaussianBlur stdDeviation="2.2" />
+        </filter>
+        <clipPath id={`${glowId}-clip`}>
+          <rect width={width} height={height} rx={10} />
+        </clipPath>
+      </defs>
+      <g clipPath={`url(#${glowId}-clip)`}>
+        {background !== 'none' && <rect width={width} height={height} fill={background} />}
+        <g filter={`url(#${glowId})`} stroke={accent} strokeOpacity={alpha} strokeWidth={3} fill="none">
+          {paths.map((d, i) => <path key={i} d={d} />)}
+        </g>
+        <g
+          stroke={accent}
+          strokeOpacity={Math.min(1, alpha * 1.6)}
+          strokeWidth={0.9}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          fill="none"
+        >
+          {paths.map((d, i) => <path key={i} d={d} />)}
+        </g>
+      </g>
+    </svg>
+  );
+}
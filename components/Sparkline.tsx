@@ -0,0 +1,57 @@
+// components/Sparkline.tsx — Inline-SVG monthly sparkline (no chart dependency).
+// Months without a value are skipped and the line joins the months on either side.
+// End labels are optional, so the same line works with absolute numbers hidden.
+
+type SparklineProps = {
+  values: Array<number | null>;      // 12 monthly values (Jan..Dec)
+  accent?: string;
+  width?: number;
+  height?: number;
+  formatValue?: (v: number) => string;   // labels the first and last points when set
+};
+
+const MONTH_INITIALS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+export default function Sparkline({ values, accent = '#a3e635', width = 360, height = 110, formatValue }: SparklineProps) {
+  const points = values.map((v, i) => ({ v, i })).filter((p): p is { v: number; i: number } => p.v != null);
+  if (points.length < 2) return null;
+
+  const top = formatValue ? 16 : 8, bottom = 18, side = 14;
+  const plotH = height - top - bottom;
+  const lo = Math.min(...points.map((p) => p.v)), hi = Math.max(...points.map((p) => p.v));
+  const span = hi - lo || 1;
+  const xOf = (i: number) => side + (i / 11) * (width - side * 2);
+  const yOf = (v: number) => top + (1 - (v - lo) / span) * plotH;
+  const first = points[0]!, last = points[points.length - 1]!;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Monthly trend">
+      <polyline
+        points={points.map((p) => `${xOf(p.i)},${yOf(p.v)}`).join(' ')}
+        fill="none"
+        stroke={accent}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      {points.map((p) => (
+        <circle key={p.i} cx={xOf(p.i)} cy={yOf(p.v)} r={p === first || p === last ? 3.2 : 2} fill={accent} />
+      ))}
+      {formatValue && [first, last].map((p, k) => (
+        <text
+          key={k}
+          x={xOf(p.i)}
+          y={yOf(p.v) - 7}
+          textAnchor={k === 0 ? 'start' : 'end'}
+          fontSize="9"
+          fill="rgba(255,255,255,0.8)"
+        >
+          {formatValue(p.v)}
+        </text>
+      ))}
+      {MONTH_INITIALS.map((m, i) => (
+        <text key={i} x={xOf(i)} y={height - 4} textAnchor="middle" fontSize="8.5" fill="rgba(255,255,255,0.4)">{m}</text>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,48 @@
+// components/StartTimeGrid.tsx — Inline-SVG 7 × 24 start-time heatmap (no chart dependency).
+// One row per weekday (Monday first), one column per hour; a cell's strength is how many
+// sessions started in that hour, relative to the busiest cell.
+
+type StartTimeGridProps = {
+  grid: number[][];          // [weekday, Monday = 0][hour] → sessions
+  accent?: string;           // RGB triple, e.g. '56,189,248'
+};
+
+const WEEKDAY_INITIALS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+const HOUR_TICKS: Array<[number, string]> = [[0, '12a'], [6, '6a'], [12, '12p'], [18, '6p']];
+
+export default function StartTimeGrid({ grid, accent = '56,189,248' }: StartTimeGridProps) {
+  const max = Math.max(1, ...grid.flat());
+  const size = 12, gap = 2, step = size + gap;
+  const left = 14, bottom = 14;
+  const W = left + 24 * step, H = 7 * step + bottom;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label="Session start times by weekday and hour">
+      {grid.map((hours, wd) => (
+        <g key={wd}>
+          <text x={left - 5} y={wd * step + size - 2.5} textAnchor="end" fontSize="7.5" fill="rgba(255,255,255,0.4)">
+            {WEEKDAY_INITIALS[wd]}
+          </text>
+          {hours.map((n, h) => (
+            <rect
+              key={h}
+              x={left + h * step}
+              y={wd * step}
+              width={size}
+              height={size}
+              rx={2.5}
+              fill={n > 0 ? `rgba(${accent},${(0.25 + 0.75 * (n / max)).toFixed(2)})` : 'rgba(255,255,255,0.05)'}
+            >
+              <title>{`${n} session${n === 1 ? '' : 's'}`}</title>
+            </rect>
+          ))}
+        </g>
+      ))}
+      {HOUR_TICKS.map(([h, label]) => (
+        <text key={h} x={left + h * step} y={H - 3} fontSize="7.5" fill="rgba(255,255,255,0.4)">
+          {label}
+        </text>
+      ))}
+    </svg>
+  );
+}
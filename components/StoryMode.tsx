@@ -4,13 +4,17 @@
 // (scenes); this component owns the look — palettes, motifs, and motion.
 
 import { useEffect, useRef, useState } from 'react';
+import type { CSSProperties, PointerEvent as ReactPointerEvent, ReactNode } from 'react';
 import {
-  X, ChevronDown, Download,
+  X, ChevronDown, Download, FileArchive, Share2, Film, Pause, Play,
   Sparkles, Route, Timer, TrendingUp, Gauge, Flame, Mountain,
   Footprints, Moon, Trophy, Bike, Activity, Waves, Dumbbell,
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import * as htmlToImage from 'html-to-image';
+import JSZip from 'jszip';
+import { VIDEO_FORMATS, HOLD_OPTIONS_MS, canRecordVideo, createStoryRecorder, sceneDurationMs, videoExtension } from '../lib/story-video';
+import type { SceneLayers, VideoFormat } from '../lib/story-video';
 
 export type PaletteKey = 'ember' | 'violet' | 'abyss' | 'lime' | 'rose' | 'gold' | 'indigo';
 export type MotifKey =
@@ -29,11 +33,15 @@ export type StoryScene = {
   footnote?: string;
   kind?: 'stat' | 'summary';
   stats?: StoryStat[];
+  art?: ReactNode;   // optional inline graphic (e.g. the route map) under the headline
+  durationMs?: number;   // tap-through hold; defaults by kind (see sceneDuration)
 };
 
+export type StoryPlayback = 'play' | 'scroll';
+
 type Palette = { bg: string; accent: string; glow: string };
 
-const PALETTES: Record<PaletteKey, Palette> = {
+export const PALETTES: Record<PaletteKey, Palette> = {
   ember:  { bg: 'linear-gradient(165deg, #190a07 0%, #7c2d12 58%, #c2410c 100%)', accent: '#fdba74', glow: 'rgba(251,146,60,0.45)' },
   violet: { bg: 'linear-gradient(165deg, #0d0a2b 0%, #4c1d95 58%, #7c3aed 100%)', accent: '#c4b5fd', glow: 'rgba(167,139,250,0.45)' },
   abyss:  { bg: 'linear-gradient(165deg, #021a24 0%, #0e7490 58%, #06b6d4 100%)', accent: '#67e8f9', glow: 'rgba(34,211,238,0.40)' },
@@ -43,18 +51,166 @@ const PALETTES: Record<PaletteKey, Palette> = {
   indigo: { bg: 'linear-gradient(165deg, #070b1f 0%, #1e3a8a 58%, #2563eb 100%)', accent: '#93c5fd', glow: 'rgba(59,130,246,0.42)' },
 };
 
-const MOTIF_ICONS: Record<MotifKey, LucideIcon> = {
+export const MOTIF_ICONS: Record<MotifKey, LucideIcon> = {
   sparkles: Sparkles, route: Route, timer: Timer, trending: TrendingUp, gauge: Gauge,
   flame: Flame, mountain: Mountain, footprints: Footprints, moon: Moon, trophy: Trophy,
   bike: Bike, run: Activity, swim: Waves, strength: Dumbbell, hike: Mountain, rower: Waves,
 };
 
+type SceneViewProps = {
+  scene: StoryScene;
+  i: number;
+  total: number;
+  shown: boolean;
+  still?: boolean;                                   // exports and tap-through: no scroll cue
+  className?: string;
+  style?: CSSProperties;
+  sectionRef?: (el: HTMLElement | null) => void;
+};
+
+/** One full-bleed scene; shared by the scroller and the off-screen "Save all" render. */
+function SceneView({ scene: s, i, total, shown, still = false, className = '', style, sectionRef }: SceneViewProps) {
+  const pal = PALETTES[s.palette];
+  const Motif = MOTIF_ICONS[s.motif];
+  const corner = i % 2 === 0
+    ? '@min-[40rem]:left-auto @min-[40rem]:top-auto @min-[40rem]:right-[-14%] @min-[40rem]:bottom-[-16%]'
+    : '@min-[40rem]:right-auto @min-[40rem]:bottom-auto @min-[40rem]:left-[-14%] @min-[40rem]:top-[-14%]';
+  // Sized against the scene (container units and queries), not the viewport, so a
+  // phone-shaped video frame lays out like a phone on a desktop too.
+  return (
+    <section
+      data-idx={i}
+      ref={sectionRef}
+      className={`relative flex items-center justify-center overflow-hidden [container-type:size] ${className}`}
+      style={{ background: pal.bg, ...style }}
+    >
+      {/* Accent glow */}
+      <div
+        aria-hidden
+        data-layer="glow"
+        className="absolute inset-0 transition-opacity duration-1000 motion-reduce:transition-none"
+        style={{ background: `radial-gradient(58% 48% at 50% 40%, ${pal.glow}, transparent 70%)`, opacity: shown ? 1 : 0 }}
+      />
+
+      {/* Blown-up motif — the signature: the sport/stat as ambient background art */}
+      <div
+        aria-hidden
+        data-layer="motif"
+        className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 @min-[40rem]:translate-x-0 @min-[40rem]:translate-y-0 ${corner} pointer-events-none transition-all duration-[1200ms] ease-out motion-reduce:transition-none motion-reduce:opacity-[0.14] motion-reduce:scale-100 ${
+          shown ? 'opacity-[0.14] scale-100' : 'opacity-0 scale-110'
+        }`}
+        style={{ width: '92cqmin', height: '92cqmin', color: pal.accent }}
+      >
+        <Motif className="w-full h-full" strokeWidth={1.05} />
+      </div>
+
+      {/* Legibility scrim */}
+      <div aria-hidden data-layer="scrim" className="absolute inset-0" style={{ background: 'radial-gradient(70% 56% at 50% 50%, rgba(0,0,0,0.30), transparent 78%)' }} />
+
+      {/* Content */}
+      <div
+        data-layer="content"
+        className={`relative z-10 w-full px-6 @min-[40rem]:px-8 transition-all duration-700 ease-out motion-reduce:transition-none ${
+          shown
+            ? 'opacity-100 translate-y-0'
+            : 'opacity-0 translate-y-6 motion-reduce:opacity-100 motion-reduce:translate-y-0'
+        }`}
+      >
+        {s.kind === 'summary' ? (
+          <div className="mx-auto max-w-2xl text-center">
+            <p className="uppercase font-semibold" style={{ color: pal.accent, letterSpacing: '0.28em', fontSize: 'clamp(0.7rem, 2.6cqw, 0.95rem)' }}>
+              {s.eyebrow}
+            </p>
+            <h2 className="mt-3 font-black text-white [text-wrap:balance]" style={{ fontSize: 'clamp(1.9rem, 8cqw, 3.25rem)', letterSpacing: '-0.02em', lineHeight: 1.0 }}>
+              {s.headline}
+            </h2>
+            <div className="mt-7 grid grid-cols-2 @min-[40rem]:grid-cols-3 gap-2.5 @min-[40rem]:gap-3">
+              {(s.stats ?? []).map((st) => (
+                <div key={st.label} className="rounded-2xl border border-white/15 bg-white/[0.06] px-3.5 py-3 text-left">
+                  <div className="uppercase tracking-[0.16em] text-white/55" style={{ fontSize: 'clamp(0.55rem, 1.8cqw, 0.66rem)' }}>{st.label}</div>
+                  <div className="mt-1 font-bold tracking-tight text-white truncate" style={{ fontSize: 'clamp(1.1rem, 5cqw, 1.55rem)' }}>{st.value}</div>
+                </div>
+              ))}
+            </div>
+            {s.footnote && (
+              <p className="mt-7 text-white/75" style={{ fontSize: 'clamp(0.85rem, 3cqw, 1rem)' }}>{s.footnote}</p>
+            )}
+          </div>
+        ) : (
+          <div className="mx-auto max-w-3xl text-center">
+            <p className="uppercase font-semibold" style={{ color: pal.accent, letterSpacing: '0.28em', fontSize: 'clamp(0.7rem, 2.6cqw, 0.95rem)' }}>
+              {s.eyebrow}
+            </p>
+            <h2 className="mt-5 font-black text-white [text-wrap:balance]" style={{ fontSize: 'clamp(2.85rem, 13cqw, 7.5rem)', letterSpacing: '-0.02em', lineHeight: 0.95 }}>
+              {s.headline}
+            </h2>
+            {s.art && <div className="mx-auto mt-6 w-full max-w-md">{s.art}</div>}
+            {s.caption && (
+              <p className="mt-6 text-white/85 [text-wrap:balance]" style={{ fontSize: 'clamp(1.05rem, 4.4cqw, 1.6rem)' }}>
+                {s.caption}
+              </p>
+            )}
+            {s.footnote && (
+              <p className="mt-7 uppercase font-medium" style={{ color: pal.accent, letterSpacing: '0.22em', fontSize: 'clamp(0.7rem, 2.4cqw, 0.85rem)' }}>
+                {s.footnote}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {i === 0 && total > 1 && !still && (
+        <div data-layer="cue" className="absolute bottom-10 left-1/2 -translate-x-1/2 text-white/60 motion-safe:animate-bounce">
+          <ChevronDown className="w-6 h-6" />
+        </div>
+      )}
+    </section>
+  );
+}
+
+// Tap-through: how long each scene holds before advancing.
+const SCENE_MS = 5000;
+const ART_SCENE_MS = 7000;      // scenes with a graphic under the headline
+const SUMMARY_MS = 9000;        // the stat grids take longer to read
+const HOLD_DELAY_MS = 200;      // a press longer than this pauses instead of tapping
+const SWIPE_PX = 50;
+
+const sceneDuration = (s: StoryScene) => s.durationMs ?? (s.kind === 'summary' ? SUMMARY_MS : s.art ? ART_SCENE_MS : SCENE_MS);
+
+const VIDEO_STAGE_W = 432;   // CSS px; a phone-width frame, scaled up to 1080 for the video
+
 export default function StoryMode({ scenes, onClose, fileBase = 'FitnessWrapped' }: { scenes: StoryScene[]; onClose: () => void; fileBase?: string }) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const sceneRefs = useRef<Array<HTMLElement | null>>([]);
   const [visible, setVisible] = useState<boolean[]>(() => scenes.map(() => false));
   const [activeIdx, setActiveIdx] = useState(0);
+  // Tap-through ("play") is the default; scroll stays one tap away, and is where reduced
+  // motion starts, since nothing moves there unless you move it.
+  const [playback, setPlayback] = useState<StoryPlayback>(() =>
+    typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ? 'scroll' : 'play');
+  const [paused, setPaused] = useState(false);        // the pause button / Space
+  const [held, setHeld] = useState(false);            // press-and-hold
+  const [tabHidden, setTabHidden] = useState(false);
+  const [run, setRun] = useState(0);                  // bumps to restart the active segment
+  const gesture = useRef<{ x: number; y: number; timer: number; held: boolean } | null>(null);
+  const playing = playback === 'play' && !paused && !held && !tabHidden;
   const [saving, setSaving] = useState(false);
+  // "Save all" / "Share": every scene is rendered into an off-screen stage, then captured.
+  const [bundling, setBundling] = useState<'zip' | 'share' | null>(null);
+  const [stage, setStage] = useState<{ w: number; h: number } | null>(null);   // CSS px per scene
+  const stageRefs = useRef<Array<HTMLElement | null>>([]);
+  const [canShareFiles] = useState(() => {
+    if (typeof navigator === 'undefined' || !navigator.canShare) return false;
+    try { return navigator.canShare({ files: [new File([''], 'scene.png', { type: 'image/png' })] }); } catch { return false; }
+  });
+  const sharedFiles = useRef<File[] | null>(null);
+  // Video export: a phone-sized stage, captured layer by layer and replayed on a canvas.
+  const [canVideo] = useState(canRecordVideo);
+  const [videoOpen, setVideoOpen] = useState(false);
+  const [videoFormat, setVideoFormat] = useState<VideoFormat>('story916');
+  const [holdMs, setHoldMs] = useState(3000);
+  const [recording, setRecording] = useState<number | null>(null);   // scene being recorded
+  const busy = bundling != null || recording != null;
 
   // Save the scene currently in view as a PNG (the shareable artifact).
   const saveActiveScene = async () => {
@@ -81,6 +237,140 @@ export default function StoryMode({ scenes, onClose, fileBase = 'FitnessWrapped'
     }
   };
 
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  const downloadBlob = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+  };
+
+  // Mount every scene, fully revealed, in the off-screen stage.
+  const openStage = async (size: { w: number; h: number }) => {
+    setStage(size);
+    // One frame to mount the stage, one for layout.
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+  };
+
+  // Every scene as a PNG, in order, rendered off-screen at the viewport's size.
+  const renderAllScenes = async (): Promise<Array<{ name: string; blob: Blob }>> => {
+    await openStage({ w: window.innerWidth, h: window.innerHeight });
+    const out: Array<{ name: string; blob: Blob }> = [];
+    try {
+      for (let i = 0; i < scenes.length; i++) {
+        const node = stageRefs.current[i];
+        if (!node) continue;
+        const blob = await htmlToImage.toBlob(node, { cacheBust: true, pixelRatio: 2, width: node.offsetWidth, height: node.offsetHeight });
+        if (blob) out.push({ name: `${fileBase}_${pad(i + 1)}_${scenes[i]!.key}.png`, blob });
+      }
+    } finally {
+      setStage(null);
+    }
+    return out;
+  };
+
+  // The scenes' text, so the numbers travel with the images.
+  const recapJson = () => JSON.stringify({
+    title: fileBase,
+    exportedAt: new Date().toISOString(),
+    scenes: scenes.map((s, i) => ({
+      order: i + 1, key: s.key, eyebrow: s.eyebrow, headline: s.headline,
+      caption: s.caption, footnote: s.footnote, stats: s.stats,
+    })),
+  }, null, 2);
+
+  const saveAllScenes = async () => {
+    if (busy) return;
+    setBundling('zip');
+    try {
+      const zip = new JSZip();
+      for (const f of await renderAllScenes()) zip.file(f.name, f.blob);
+      zip.file('recap.json', recapJson());
+      downloadBlob(await zip.generateAsync({ type: 'blob' }), `${fileBase}_story.zip`);
+    } catch (err) {
+      console.error('Failed to save story scenes', err);
+    } finally {
+      setBundling(null);
+    }
+  };
+
+  // Web Share with files (mostly mobile). Rendering can outlast the tap's user activation,
+  // so the files are kept and a second tap shares them straight away.
+  const shareAllScenes = async () => {
+    if (busy) return;
+    setBundling('share');
+    try {
+      if (!sharedFiles.current) {
+        const images = (await renderAllScenes()).map((f) => new File([f.blob], f.name, { type: 'image/png' }));
+        const recap = new File([recapJson()], 'recap.json', { type: 'application/json' });
+        sharedFiles.current = navigator.canShare({ files: [...images, recap] }) ? [...images, recap] : images;
+      }
+      await navigator.share({ files: sharedFiles.current, title: fileBase });
+    } catch (err) {
+      const name = (err as { name?: string } | null)?.name;
+      if (name !== 'AbortError' && name !== 'NotAllowedError') console.error('Failed to share story scenes', err);
+    } finally {
+      setBundling(null);
+    }
+  };
+
+  // One image per layer of a staged scene: the other layers are filtered out, and only the
+  // backdrop keeps the scene's background.
+  const captureLayers = async (node: HTMLElement, pixelRatio: number): Promise<SceneLayers> => {
+    const layer = (name: string | null) => htmlToImage.toCanvas(node, {
+      cacheBust: true,
+      pixelRatio,
+      width: node.offsetWidth,
+      height: node.offsetHeight,
+      filter: (el) => { const l = el.dataset?.layer; return !l || l === name; },
+      ...(name ? { style: { background: 'transparent' } } : {}),
+    });
+    const backdrop = await layer(null);
+    const glow = await layer('glow');
+    const motif = await layer('motif');
+    const scrim = await layer('scrim');
+    const content = await layer('content');
+    const box = node.getBoundingClientRect();
+    const m = node.querySelector('[data-layer="motif"]')?.getBoundingClientRect() ?? box;
+    return {
+      backdrop, glow, motif, scrim, content,
+      motifCenter: { x: (m.left + m.width / 2 - box.left) * pixelRatio, y: (m.top + m.height / 2 - box.top) * pixelRatio },
+      rise: 24 * pixelRatio,   // the content's translate-y-6
+    };
+  };
+
+  const recordVideo = async () => {
+    if (busy) return;
+    const { w, h, tag } = VIDEO_FORMATS[videoFormat];
+    const pixelRatio = w / VIDEO_STAGE_W;
+    setRecording(0);
+    try {
+      await openStage({ w: VIDEO_STAGE_W, h: Math.round(h / pixelRatio) });
+      const canvas = document.createElement('canvas');
+      canvas.width = w;
+      canvas.height = h;
+      const recorder = createStoryRecorder(canvas);
+      for (let i = 0; i < scenes.length; i++) {
+        const node = stageRefs.current[i];
+        if (!node) continue;
+        setRecording(i);
+        await recorder.playScene(await captureLayers(node, pixelRatio), holdMs);
+      }
+      downloadBlob(await recorder.finish(), `${fileBase}_story_${tag}.${videoExtension(recorder.mime)}`);
+    } catch (err) {
+      console.error('Failed to record story video', err);
+      alert('Sorry, something went wrong recording the video.');
+    } finally {
+      setStage(null);
+      setRecording(null);
+    }
+  };
+
   // Lock background scroll while open.
   useEffect(() => {
     const prev = document.body.style.overflow;
@@ -88,10 +378,11 @@ export default function StoryMode({ scenes, onClose, fileBase = 'FitnessWrapped'
     return () => { document.body.style.overflow = prev; };
   }, []);
 
-  // Keyboard: Escape closes; arrows / Page / Home / End move between scenes.
+  // Keyboard: Escape closes; arrows / Page / Home / End move between scenes; Space pauses tap-through.
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       if (e.key === 'Escape') { onClose(); return; }
+      if (e.key === ' ' && playback === 'play') { e.preventDefault(); setPaused((p) => !p); return; }
       const fwd = e.key === 'ArrowDown' || e.key === 'ArrowRight' || e.key === 'PageDown';
       const back = e.key === 'ArrowUp' || e.key === 'ArrowLeft' || e.key === 'PageUp';
       const first = e.key === 'Home';
@@ -105,21 +396,29 @@ export default function StoryMode({ scenes, onClose, fileBase = 'FitnessWrapped'
           : back
             ? Math.max(0, activeIdx - 1)
             : Math.min(scenes.length - 1, activeIdx + 1);
-      sceneRefs.current[target]?.scrollIntoView({ behavior: 'smooth' });
+      if (playback === 'play') { setActiveIdx(target); setRun((r) => r + 1); }
+      else sceneRefs.current[target]?.scrollIntoView({ behavior: 'smooth' });
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [onClose, activeIdx, scenes.length]);
+  }, [onClose, activeIdx, scenes.length, playback]);
 
-  // Move focus into the dialog on open so keyboard users start in context.
+  // A hidden tab pauses tap-through, so nobody comes back to the summary.
   useEffect(() => {
-    containerRef.current?.focus();
+    const onVisibility = () => setTabHidden(document.visibilityState === 'hidden');
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => document.removeEventListener('visibilitychange', onVisibility);
   }, []);
 
+  // Move focus into the dialog on open (and on a mode switch) so keyboard users start in context.
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, [playback]);
+
   // Reveal scenes as they enter; track the active one for the counter + rail.
   useEffect(() => {
     const root = containerRef.current;
-    if (!root) return;
+    if (!root || playback !== 'scroll') return;
     const obs = new IntersectionObserver(
       (entries) => {
         for (const entry of entries) {
@@ -134,19 +433,107 @@ export default function StoryMode({ scenes, onClose, fileBase = 'FitnessWrapped'
     );
     sceneRefs.current.forEach((el) => { if (el) obs.observe(el); });
     return () => obs.disconnect();
-  }, [scenes.length]);
+  }, [scenes.length, playback]);
 
-  const scrollToScene = (idx: number) => {
-    sceneRefs.current[idx]?.scrollIntoView({ behavior: 'smooth' });
+  // Switching to scroll lands on the scene tap-through was showing (once the list has mounted).
+  const switchPlayback = (next: StoryPlayback) => {
+    if (next === playback) return;
+    setPlayback(next);
+    if (next === 'scroll') requestAnimationFrame(() => sceneRefs.current[activeIdx]?.scrollIntoView({ behavior: 'instant' }));
   };
 
-  const pad = (n: number) => String(n).padStart(2, '0');
+  const goTo = (idx: number) => {
+    const target = Math.min(scenes.length - 1, Math.max(0, idx));
+    if (playback === 'play') { setActiveIdx(target); setRun((r) => r + 1); }
+    else sceneRefs.current[target]?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  // Tap-through gestures: tap the left third to go back, anywhere else to go on; press and
+  // hold to pause; swipe sideways to change scene.
+  const onPointerDown = (e: ReactPointerEvent) => {
+    if (!e.isPrimary || e.button !== 0) return;
+    const timer = window.setTimeout(() => {
+      if (!gesture.current) return;
+      gesture.current.held = true;
+      setHeld(true);
+    }, HOLD_DELAY_MS);
+    gesture.current = { x: e.clientX, y: e.clientY, timer, held: false };
+  };
+  const onPointerUp = (e: ReactPointerEvent) => {
+    const g = gesture.current;
+    gesture.current = null;
+    if (!g) return;
+    window.clearTimeout(g.timer);
+    setHeld(false);
+    const dx = e.clientX - g.x, dy = e.clientY - g.y;
+    if (Math.abs(dx) > SWIPE_PX && Math.abs(dx) > Math.abs(dy)) { goTo(activeIdx + (dx < 0 ? 1 : -1)); return; }
+    if (g.held || Math.abs(dy) > SWIPE_PX) return;
+    goTo(activeIdx + (e.clientX < window.innerWidth / 3 ? -1 : 1));
+  };
+  const onPointerCancel = () => {
+    if (gesture.current) window.clearTimeout(gesture.current.timer);
+    gesture.current = null;
+    setHeld(false);
+  };
 
   return (
     <div className="fixed inset-0 z-50 bg-black text-white" role="dialog" aria-modal="true" aria-label="Your year — story mode">
+      {/* Tap-through progress: one segment per scene, the active one filling over its duration. */}
+      {playback === 'play' && (
+        <div aria-hidden className="fixed top-2 inset-x-3 z-20 flex gap-1">
+          {scenes.map((s, i) => (
+            <div key={s.key} className="h-[3px] flex-1 rounded-full bg-white/25 overflow-hidden">
+              {i < activeIdx && <div className="h-full w-full bg-white" />}
+              {i === activeIdx && (
+                <div
+                  key={run}
+                  className="h-full w-full bg-white origin-left"
+                  style={{
+                    animationName: 'story-progress',
+                    animationDuration: `${sceneDuration(s)}ms`,
+                    animationTimingFunction: 'linear',
+                    animationFillMode: 'both',
+                    animationPlayState: playing ? 'running' : 'paused',
+                  }}
+                  onAnimationEnd={() => { if (i < scenes.length - 1) goTo(i + 1); }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Scene counter — the sequence is real, so the count is information, not decoration. */}
-      <div className="fixed top-4 left-4 z-20 text-sm tracking-[0.3em] tabular-nums text-white/70">
-        {pad(activeIdx + 1)} <span className="text-white/35">/ {pad(scenes.length)}</span>
+      <div className="fixed top-4 left-4 z-20 flex items-center gap-3">
+        <div className="text-sm tracking-[0.3em] tabular-nums text-white/70">
+          {pad(activeIdx + 1)} <span className="text-white/35">/ {pad(scenes.length)}</span>
+        </div>
+        {playback === 'play' && (
+          <button
+            type="button"
+            onClick={() => setPaused((p) => !p)}
+            aria-label={paused ? 'Resume' : 'Pause'}
+            className="h-8 w-8 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 flex items-center justify-center text-white transition focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70"
+          >
+            {paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+          </button>
+        )}
+      </div>
+
+      <div className="fixed bottom-4 left-4 z-20 inline-flex items-center gap-1 rounded-xl border border-white/15 bg-black/40 backdrop-blur p-1">
+        {(['play', 'scroll'] as StoryPlayback[]).map((p) => (
+          <button
+            key={p}
+            type="button"
+            onClick={() => switchPlayback(p)}
+            aria-pressed={p === playback}
+            className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+              p === playback ? 'bg-white text-zinc-900' : 'text-white/75 hover:bg-white/10'
+            }`}
+          >
+            {p === 'play' ? 'Tap through' : 'Scroll'}
+          </button>
+        ))}
       </div>
 
       <button
@@ -158,127 +545,179 @@ export default function StoryMode({ scenes, onClose, fileBase = 'FitnessWrapped'
         <X className="w-5 h-5" />
       </button>
 
-      <button
-        type="button"
-        onClick={saveActiveScene}
-        disabled={saving}
-        aria-label="Save this scene as an image"
-        className="fixed top-4 right-[3.75rem] z-20 h-10 px-3 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 flex items-center gap-2 text-white text-xs font-medium transition disabled:opacity-60 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70"
-      >
-        <Download className="w-4 h-4" />
-        <span className="hidden sm:inline">{saving ? 'Saving…' : 'Save image'}</span>
-      </button>
-
-      <div className="fixed right-4 top-1/2 -translate-y-1/2 z-20 flex flex-col gap-2">
-        {scenes.map((s, i) => (
+      <div className="fixed top-4 right-[3.75rem] z-20 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={saveActiveScene}
+          disabled={saving}
+          aria-label="Save this scene as an image"
+          className="h-10 px-3 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 flex items-center gap-2 text-white text-xs font-medium transition disabled:opacity-60 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70"
+        >
+          <Download className="w-4 h-4" />
+          <span className="hidden sm:inline">{saving ? 'Saving…' : 'Save image'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={saveAllScenes}
+          disabled={busy}
+          aria-label="Save every scene as a ZIP of images"
+          className="h-10 px-3 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 flex items-center gap-2 text-white text-xs font-medium transition disabled:opacity-60 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70"
+        >
+          <FileArchive className="w-4 h-4" />
+          <span className="hidden sm:inline">{bundling === 'zip' ? 'Bundling…' : 'Save all'}</span>
+        </button>
+        {canShareFiles && (
+          <button
+            type="button"
+            onClick={shareAllScenes}
+            disabled={busy}
+            aria-label="Share every scene"
+            className="h-10 px-3 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 flex items-center gap-2 text-white text-xs font-medium transition disabled:opacity-60 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70"
+          >
+            <Share2 className="w-4 h-4" />
+            <span className="hidden sm:inline">{bundling === 'share' ? 'Preparing…' : 'Share'}</span>
+          </button>
+        )}
+        {canVideo && (
           <button
-            key={s.key}
             type="button"
-            aria-label={`Go to ${s.eyebrow}`}
-            onClick={() => scrollToScene(i)}
-            className={`rounded-full transition-all focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70 ${
-              i === activeIdx ? 'h-5 w-2 bg-white' : 'h-2 w-2 bg-white/35 hover:bg-white/60'
+            onClick={() => setVideoOpen((v) => !v)}
+            aria-expanded={videoOpen}
+            aria-label="Export the story as a video"
+            className={`h-10 px-3 rounded-full border flex items-center gap-2 text-white text-xs font-medium transition focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70 ${
+              videoOpen ? 'bg-white/25 border-white/30' : 'bg-white/10 hover:bg-white/20 border-white/15'
             }`}
-          />
-        ))}
+          >
+            <Film className="w-4 h-4" />
+            <span className="hidden sm:inline">Video</span>
+          </button>
+        )}
       </div>
 
-      <div ref={containerRef} tabIndex={-1} className="h-full overflow-y-auto snap-y snap-mandatory scroll-smooth outline-none">
-        {scenes.map((s, i) => {
-          const pal = PALETTES[s.palette];
-          const Motif = MOTIF_ICONS[s.motif];
-          const shown = visible[i];
-          const corner = i % 2 === 0
-            ? 'sm:left-auto sm:top-auto sm:right-[-14%] sm:bottom-[-16%]'
-            : 'sm:right-auto sm:bottom-auto sm:left-[-14%] sm:top-[-14%]';
-          return (
-            <section
+      {canVideo && videoOpen && (
+        <div className="fixed top-16 right-4 z-20 w-[min(20rem,calc(100vw-2rem))] rounded-2xl border border-white/15 bg-black/75 backdrop-blur p-4">
+          <p className="text-xs uppercase tracking-[0.2em] text-white/60">Video</p>
+          <div className="mt-3 inline-flex items-center gap-1 rounded-xl border border-white/15 bg-white/5 p-1">
+            {(Object.keys(VIDEO_FORMATS) as VideoFormat[]).map((f) => (
+              <button
+                key={f}
+                type="button"
+                onClick={() => setVideoFormat(f)}
+                disabled={recording != null}
+                className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                  f === videoFormat ? 'bg-white text-zinc-900' : 'text-white/75 hover:bg-white/10'
+                }`}
+              >
+                {VIDEO_FORMATS[f].label}
+              </button>
+            ))}
+          </div>
+          <div className="mt-3 flex items-center gap-2">
+            <span className="text-xs text-white/60">Hold each scene</span>
+            <div className="inline-flex items-center gap-1 rounded-xl border border-white/15 bg-white/5 p-1">
+              {HOLD_OPTIONS_MS.map((ms) => (
+                <button
+                  key={ms}
+                  type="button"
+                  onClick={() => setHoldMs(ms)}
+                  disabled={recording != null}
+                  className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                    ms === holdMs ? 'bg-white text-zinc-900' : 'text-white/75 hover:bg-white/10'
+                  }`}
+                >
+                  {ms / 1000}s
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={recordVideo}
+            disabled={busy}
+            className="mt-4 w-full h-9 rounded-xl bg-white text-zinc-900 text-sm font-semibold hover:bg-zinc-200 transition disabled:opacity-60"
+          >
+            {recording != null ? `Recording ${recording + 1} of ${scenes.length}…` : 'Record video'}
+          </button>
+          <p className="mt-2 text-[11px] text-white/50">
+            Records in real time, about {Math.round((scenes.length * sceneDurationMs(holdMs)) / 1000)} seconds. Keep this tab in front; recording pauses while it is hidden.
+          </p>
+        </div>
+      )}
+
+      {playback === 'scroll' && (
+        <div className="fixed right-4 top-1/2 -translate-y-1/2 z-20 flex flex-col gap-2">
+          {scenes.map((s, i) => (
+            <button
               key={s.key}
-              data-idx={i}
-              ref={(el) => { sceneRefs.current[i] = el; }}
-              className="relative h-full snap-start snap-always flex items-center justify-center overflow-hidden"
-              style={{ background: pal.bg }}
-            >
-              {/* Accent glow */}
-              <div
-                aria-hidden
-                className="absolute inset-0 transition-opacity duration-1000 motion-reduce:transition-none"
-                style={{ background: `radial-gradient(58% 48% at 50% 40%, ${pal.glow}, transparent 70%)`, opacity: shown ? 1 : 0 }}
+              type="button"
+              aria-label={`Go to ${s.eyebrow}`}
+              onClick={() => goTo(i)}
+              className={`rounded-full transition-all focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70 ${
+                i === activeIdx ? 'h-5 w-2 bg-white' : 'h-2 w-2 bg-white/35 hover:bg-white/60'
+              }`}
+            />
+          ))}
+        </div>
+      )}
+
+      {playback === 'play' ? (
+        <div
+          ref={containerRef}
+          tabIndex={-1}
+          className="relative h-full outline-none select-none touch-none"
+          onPointerDown={onPointerDown}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerCancel}
+          onContextMenu={(e) => e.preventDefault()}
+        >
+          {/* Every scene stays mounted; the active one re-runs its entrance each time it comes up. */}
+          {scenes.map((s, i) => (
+            <div key={s.key} className={`absolute inset-0 ${i === activeIdx ? '' : 'invisible'}`}>
+              <SceneView
+                scene={s}
+                i={i}
+                total={scenes.length}
+                shown={i === activeIdx}
+                still
+                className="h-full"
+                sectionRef={(el) => { sceneRefs.current[i] = el; }}
               />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div ref={containerRef} tabIndex={-1} className="h-full overflow-y-auto snap-y snap-mandatory scroll-smooth outline-none">
+          {scenes.map((s, i) => (
+            <SceneView
+              key={s.key}
+              scene={s}
+              i={i}
+              total={scenes.length}
+              shown={visible[i] ?? false}
+              className="h-full snap-start snap-always"
+              sectionRef={(el) => { sceneRefs.current[i] = el; }}
+            />
+          ))}
+        </div>
+      )}
 
-              {/* Blown-up motif — the signature: the sport/stat as ambient background art */}
-              <div
-                aria-hidden
-                className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 sm:translate-x-0 sm:translate-y-0 ${corner} pointer-events-none transition-all duration-[1200ms] ease-out motion-reduce:transition-none motion-reduce:opacity-[0.14] motion-reduce:scale-100 ${
-                  shown ? 'opacity-[0.14] scale-100' : 'opacity-0 scale-110'
-                }`}
-                style={{ width: '92vmin', height: '92vmin', color: pal.accent }}
-              >
-                <Motif className="w-full h-full" strokeWidth={1.05} />
-              </div>
-
-              {/* Legibility scrim */}
-              <div aria-hidden className="absolute inset-0" style={{ background: 'radial-gradient(70% 56% at 50% 50%, rgba(0,0,0,0.30), transparent 78%)' }} />
-
-              {/* Content */}
-              <div
-                className={`relative z-10 w-full px-6 sm:px-8 transition-all duration-700 ease-out motion-reduce:transition-none ${
-                  shown
-                    ? 'opacity-100 translate-y-0'
-                    : 'opacity-0 translate-y-6 motion-reduce:opacity-100 motion-reduce:translate-y-0'
-                }`}
-              >
-                {s.kind === 'summary' ? (
-                  <div className="mx-auto max-w-2xl text-center">
-                    <p className="uppercase font-semibold" style={{ color: pal.accent, letterSpacing: '0.28em', fontSize: 'clamp(0.7rem, 2.6vw, 0.95rem)' }}>
-                      {s.eyebrow}
-                    </p>
-                    <h2 className="mt-3 font-black text-white [text-wrap:balance]" style={{ fontSize: 'clamp(1.9rem, 8vw, 3.25rem)', letterSpacing: '-0.02em', lineHeight: 1.0 }}>
-                      {s.headline}
-                    </h2>
-                    <div className="mt-7 grid grid-cols-2 sm:grid-cols-3 gap-2.5 sm:gap-3">
-                      {(s.stats ?? []).map((st) => (
-                        <div key={st.label} className="rounded-2xl border border-white/15 bg-white/[0.06] px-3.5 py-3 text-left">
-                          <div className="uppercase tracking-[0.16em] text-white/55" style={{ fontSize: 'clamp(0.55rem, 1.8vw, 0.66rem)' }}>{st.label}</div>
-                          <div className="mt-1 font-bold tracking-tight text-white truncate" style={{ fontSize: 'clamp(1.1rem, 5vw, 1.55rem)' }}>{st.value}</div>
-                        </div>
-                      ))}
-                    </div>
-                    {s.footnote && (
-                      <p className="mt-7 text-white/75" style={{ fontSize: 'clamp(0.85rem, 3vw, 1rem)' }}>{s.footnote}</p>
-                    )}
-                  </div>
-                ) : (
-                  <div className="mx-auto max-w-3xl text-center">
-                    <p className="uppercase font-semibold" style={{ color: pal.accent, letterSpacing: '0.28em', fontSize: 'clamp(0.7rem, 2.6vw, 0.95rem)' }}>
-                      {s.eyebrow}
-                    </p>
-                    <h2 className="mt-5 font-black text-white [text-wrap:balance]" style={{ fontSize: 'clamp(2.85rem, 13vw, 7.5rem)', letterSpacing: '-0.02em', lineHeight: 0.95 }}>
-                      {s.headline}
-                    </h2>
-                    {s.caption && (
-                      <p className="mt-6 text-white/85 [text-wrap:balance]" style={{ fontSize: 'clamp(1.05rem, 4.4vw, 1.6rem)' }}>
-                        {s.caption}
-                      </p>
-                    )}
-                    {s.footnote && (
-                      <p className="mt-7 uppercase font-medium" style={{ color: pal.accent, letterSpacing: '0.22em', fontSize: 'clamp(0.7rem, 2.4vw, 0.85rem)' }}>
-                        {s.footnote}
-                      </p>
-                    )}
-                  </div>
-                )}
-              </div>
-
-              {i === 0 && scenes.length > 1 && (
-                <div className="absolute bottom-10 left-1/2 -translate-x-1/2 text-white/60 motion-safe:animate-bounce">
-                  <ChevronDown className="w-6 h-6" />
-                </div>
-              )}
-            </section>
-          );
-        })}
-      </div>
+      {/* Off-screen stage for "Save all", "Share" and the video: every scene fully revealed. */}
+      {stage && (
+        <div aria-hidden className="fixed top-0 left-[-200vw] pointer-events-none" style={{ width: stage.w }}>
+          {scenes.map((s, i) => (
+            <SceneView
+              key={s.key}
+              scene={s}
+              i={i}
+              total={scenes.length}
+              shown
+              still
+              style={{ width: stage.w, height: stage.h }}
+              sectionRef={(el) => { stageRefs.current[i] = el; }}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,361 @@
+// components/StorySceneEditor.tsx — Reorder, hide and re-caption story mode's scenes.
+// The dashboard still builds the scenes from the data; this keeps only the user's changes
+// on top (order, hidden keys, text/palette/motif overrides, free-text scenes), keyed by
+// scene key, so they survive new uploads and carry across years. applyStoryEdits merges
+// them into whatever scenes the current year has.
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, GripVertical, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { PALETTES, MOTIF_ICONS } from './StoryMode';
+import type { MotifKey, PaletteKey, StoryScene } from './StoryMode';
+
+export type SceneEdit = {
+  hidden?: boolean;
+  eyebrow?: string;      // '' falls back to the scene's own
+  caption?: string;      // '' removes the caption
+  palette?: PaletteKey;
+  motif?: MotifKey;
+};
+
+export type CustomScene = {
+  key: string;           // 'custom-…'
+  eyebrow: string;
+  headline: string;
+  caption: string;
+  palette: PaletteKey;
+  motif: MotifKey;
+};
+
+export type StoryEdits = {
+  order: string[];                   // scene keys; scenes not listed keep their default slot
+  edits: Record<string, SceneEdit>;
+  custom: CustomScene[];
+};
+
+export const EMPTY_STORY_EDITS: StoryEdits = { order: [], edits: {}, custom: [] };
+
+const PALETTE_KEYS = Object.keys(PALETTES) as PaletteKey[];
+const MOTIF_KEYS = Object.keys(MOTIF_ICONS) as MotifKey[];
+
+const isStr = (v: unknown): v is string => typeof v === 'string';
+const isPalette = (v: unknown): v is PaletteKey => isStr(v) && v in PALETTES;
+const isMotif = (v: unknown): v is MotifKey => isStr(v) && v in MOTIF_ICONS;
+
+/** Validate edits loaded from storage; anything malformed is dropped, not trusted. */
+export function parseStoryEdits(raw: unknown): StoryEdits | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const r = raw as Record<string, unknown>;
+  const order = Array.isArray(r.order) ? r.order.filter(isStr) : [];
+  const edits: Record<string, SceneEdit> = {};
+  if (typeof r.edits === 'object' && r.edits !== null) {
+    for (const [key, v] of Object.entries(r.edits as Record<string, unknown>)) {
+      if (typeof v !== 'object' || v === null) continue;
+      const e = v as Record<string, unknown>;
+      edits[key] = {
+        ...(e.hidden === true ? { hidden: true } : {}),
+        ...(isStr(e.eyebrow) ? { eyebrow: e.eyebrow } : {}),
+        ...(isStr(e.caption) ? { caption: e.caption } : {}),
+        ...(isPalette(e.palette) ? { palette: e.palette } : {}),
+        ...(isMotif(e.motif) ? { motif: e.motif } : {}),
+      };
+    }
+  }
+  const custom = (Array.isArray(r.custom) ? r.custom : []).flatMap((v): CustomScene[] => {
+    if (typeof v !== 'object' || v === null) return [];
+    const c = v as Record<string, unknown>;
+    if (!isStr(c.key) || !c.key.startsWith('custom-')) return [];
+    return [{
+      key: c.key,
+      eyebrow: isStr(c.eyebrow) ? c.eyebrow : '',
+      headline: isStr(c.headline) ? c.headline : '',
+      caption: isStr(c.caption) ? c.caption : '',
+      palette: isPalette(c.palette) ? c.palette : 'violet',
+      motif: isMotif(c.motif) ? c.motif : 'sparkles',
+    }];
+  });
+  return { order, edits, custom };
+}
+
+const customToScene = (c: CustomScene): StoryScene => ({
+  key: c.key,
+  palette: c.palette,
+  motif: c.motif,
+  eyebrow: c.eyebrow,
+  headline: c.headline || 'Your moment.',
+  caption: c.caption || undefined,
+});
+
+/**
+ * Every scene in the user's order, hidden ones included: the data scenes, with free-text
+ * scenes added before the closing summary. A key the saved order doesn't mention (a scene
+ * this year has and the last one didn't) goes right after its default predecessor.
+ */
+export function orderedScenes(scenes: StoryScene[], edits: StoryEdits): StoryScene[] {
+  const end = scenes.length && scenes[scenes.length - 1]!.key === 'summary' ? scenes.length - 1 : scenes.length;
+  const defaults = [...scenes.slice(0, end), ...edits.custom.map(customToScene), ...scenes.slice(end)];
+  const byKey = new Map(defaults.map((s) => [s.key, s]));
+  const order = edits.order.filter((k, i, all) => byKey.has(k) && all.indexOf(k) === i);
+  defaults.forEach((s, i) => {
+    if (order.includes(s.key)) return;
+    let at = 0;
+    for (let j = i - 1; j >= 0; j--) {
+      const prev = order.indexOf(defaults[j]!.key);
+      if (prev >= 0) { at = prev + 1; break; }
+    }
+    order.splice(at, 0, s.key);
+  });
+  return order.map((k) => byKey.get(k)!);
+}
+
+/** The scenes story mode plays: the user's order, hidden scenes dropped, overrides applied. */
+export function applyStoryEdits(scenes: StoryScene[], edits: StoryEdits): StoryScene[] {
+  return orderedScenes(scenes, edits).flatMap((s) => {
+    const e = edits.edits[s.key];
+    if (!e) return [s];
+    if (e.hidden) return [];
+    return [{
+      ...s,
+      eyebrow: e.eyebrow || s.eyebrow,
+      caption: e.caption != null ? e.caption || undefined : s.caption,
+      palette: e.palette ?? s.palette,
+      motif: e.motif ?? s.motif,
+    }];
+  });
+}
+
+type StorySceneEditorProps = {
+  scenes: StoryScene[];              // as built from the data, before edits
+  edits: StoryEdits;
+  onChange: (edits: StoryEdits) => void;
+  onClose: () => void;
+};
+
+const INPUT = 'w-full rounded-lg border border-zinc-700 bg-black/40 px-2.5 py-1.5 text-xs text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:border-zinc-500';
+
+export default function StorySceneEditor({ scenes, edits, onChange, onClose }: StorySceneEditorProps) {
+  const [openKey, setOpenKey] = useState<string | null>(null);
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const list = orderedScenes(scenes, edits);
+  const keys = list.map((s) => s.key);
+  const shown = list.filter((s) => !edits.edits[s.key]?.hidden).length;
+
+  const move = (key: string, to: number) => {
+    const next = keys.filter((k) => k !== key);
+    next.splice(Math.max(0, Math.min(next.length, to)), 0, key);
+    onChange({ ...edits, order: next });
+  };
+  const patch = (key: string, p: SceneEdit) =>
+    onChange({ ...edits, edits: { ...edits.edits, [key]: { ...edits.edits[key], ...p } } });
+  const patchCustom = (key: string, p: Partial<CustomScene>) =>
+    onChange({ ...edits, custom: edits.custom.map((c) => (c.key === key ? { ...c, ...p } : c)) });
+
+  const addCustom = () => {
+    const used = new Set(edits.custom.map((c) => c.key));
+    let n = edits.custom.length + 1;
+    while (used.has(`custom-${n}`)) n += 1;
+    const key = `custom-${n}`;
+    const summaryAt = keys.indexOf('summary');
+    const order = [...keys];
+    order.splice(summaryAt >= 0 ? summaryAt : order.length, 0, key);
+    onChange({
+      ...edits,
+      order,
+      custom: [...edits.custom, { key, eyebrow: 'Also this year', headline: '', caption: '', palette: 'rose', motif: 'sparkles' }],
+    });
+    setOpenKey(key);
+  };
+  const removeCustom = (key: string) => {
+    const rest = { ...edits.edits };
+    delete rest[key];
+    onChange({ order: edits.order.filter((k) => k !== key), edits: rest, custom: edits.custom.filter((c) => c.key !== key) });
+  };
+
+  return (
+    <div className="mt-3 w-full sm:w-[520px] rounded-2xl border border-zinc-700 bg-zinc-900/60 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold text-white">Edit story</div>
+          <div className="text-xs text-zinc-300 mt-1">
+            Drag to reorder, hide what you’d rather skip, rewrite the copy, or add a scene of your own.
+          </div>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <button
+            type="button"
+            onClick={() => { onChange(EMPTY_STORY_EDITS); setOpenKey(null); }}
+            className="inline-flex items-center gap-1 text-xs text-zinc-300 hover:text-white"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset
+          </button>
+          <button type="button" onClick={onClose} className="text-xs text-zinc-300 hover:text-white">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <ol className="mt-3 space-y-1.5">
+        {list.map((s, i) => {
+          const e = edits.edits[s.key] ?? {};
+          const custom = edits.custom.find((c) => c.key === s.key);
+          const palette = custom?.palette ?? e.palette ?? s.palette;
+          const motif = custom?.motif ?? e.motif ?? s.motif;
+          const Motif = MOTIF_ICONS[motif];
+          const open = openKey === s.key;
+          return (
+            <li
+              key={s.key}
+              draggable
+              onDragStart={(ev) => { setDragKey(s.key); ev.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(ev) => { if (dragKey) ev.preventDefault(); }}
+              onDrop={(ev) => { ev.preventDefault(); if (dragKey && dragKey !== s.key) move(dragKey, i); setDragKey(null); }}
+              onDragEnd={() => setDragKey(null)}
+              className={`rounded-xl border bg-black/40 transition ${
+                dragKey === s.key ? 'border-zinc-500 opacity-50' : 'border-zinc-700'
+              } ${e.hidden ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center gap-2 px-2 py-1.5">
+                <GripVertical aria-hidden className="w-4 h-4 text-zinc-500 cursor-grab shrink-0" />
+                <span
+                  aria-hidden
+                  className="h-6 w-6 rounded-md flex items-center justify-center shrink-0"
+                  style={{ background: PALETTES[palette].bg, color: PALETTES[palette].accent }}
+                >
+                  <Motif className="w-3.5 h-3.5" />
+                </span>
+                <span className={`flex-1 min-w-0 truncate text-xs ${e.hidden ? 'line-through text-zinc-500' : 'text-zinc-100'}`}>
+                  {(custom ? custom.eyebrow : e.eyebrow || s.eyebrow) || 'Untitled scene'}
+                </span>
+                <button
+                  type="button"
+                  aria-label="Move up"
+                  disabled={i === 0}
+                  onClick={() => move(s.key, i - 1)}
+                  className="h-6 w-6 rounded-md flex items-center justify-center text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                >
+                  <ChevronUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Move down"
+                  disabled={i === list.length - 1}
+                  onClick={() => move(s.key, i + 1)}
+                  className="h-6 w-6 rounded-md flex items-center justify-center text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                >
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  aria-label={e.hidden ? 'Show scene' : 'Hide scene'}
+                  aria-pressed={!!e.hidden}
+                  onClick={() => patch(s.key, { hidden: !e.hidden })}
+                  className="h-6 w-6 rounded-md flex items-center justify-center text-zinc-400 hover:text-white hover:bg-zinc-800"
+                >
+                  {e.hidden ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                </button>
+                <button
+                  type="button"
+                  aria-label="Edit scene"
+                  aria-expanded={open}
+                  onClick={() => setOpenKey(open ? null : s.key)}
+                  className={`h-6 w-6 rounded-md flex items-center justify-center hover:bg-zinc-800 ${open ? 'text-white' : 'text-zinc-400 hover:text-white'}`}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              {open && (
+                <div className="border-t border-zinc-800 px-3 py-3 space-y-2.5">
+                  {custom ? (
+                    <>
+                      <input className={INPUT} value={custom.eyebrow} placeholder="Eyebrow" maxLength={60} onChange={(ev) => patchCustom(s.key, { eyebrow: ev.target.value })} />
+                      <input className={INPUT} value={custom.headline} placeholder="Headline — and I got married this year" maxLength={80} onChange={(ev) => patchCustom(s.key, { headline: ev.target.value })} />
+                      <textarea className={INPUT} rows={2} value={custom.caption} placeholder="Caption (optional)" maxLength={200} onChange={(ev) => patchCustom(s.key, { caption: ev.target.value })} />
+                    </>
+                  ) : (
+                    <>
+                      <input className={INPUT} value={e.eyebrow ?? s.eyebrow} placeholder={s.eyebrow} maxLength={60} onChange={(ev) => patch(s.key, { eyebrow: ev.target.value })} />
+                      {s.kind !== 'summary' && (
+                        <textarea className={INPUT} rows={2} value={e.caption ?? s.caption ?? ''} placeholder="No caption" maxLength={200} onChange={(ev) => patch(s.key, { caption: ev.target.value })} />
+                      )}
+                    </>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {PALETTE_KEYS.map((p) => (
+                      <button
+                        key={p}
+                        type="button"
+                        title={p}
+                        aria-label={`Palette ${p}`}
+                        aria-pressed={p === palette}
+                        onClick={() => (custom ? patchCustom(s.key, { palette: p }) : patch(s.key, { palette: p }))}
+                        className={`h-6 w-6 rounded-full border-2 transition ${p === palette ? 'border-white' : 'border-transparent hover:border-zinc-500'}`}
+                        style={{ background: PALETTES[p].bg }}
+                      />
+                    ))}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-1">
+                    {MOTIF_KEYS.map((k) => {
+                      const Icon = MOTIF_ICONS[k];
+                      return (
+                        <button
+                          key={k}
+                          type="button"
+                          title={k}
+                          aria-label={`Motif ${k}`}
+                          aria-pressed={k === motif}
+                          onClick={() => (custom ? patchCustom(s.key, { motif: k }) : patch(s.key, { motif: k }))}
+                          className={`h-7 w-7 rounded-lg flex items-center justify-center transition ${
+                            k === motif ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                          }`}
+                        >
+                          <Icon className="w-3.5 h-3.5" />
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    {custom ? (
+                      <button
+                        type="button"
+                        onClick={() => removeCustom(s.key)}
+                        className="inline-flex items-center gap-1 text-[11px] text-rose-300 hover:text-rose-200"
+                      >
+                        <Trash2 className="w-3 h-3" /> Delete scene
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const rest = { ...edits.edits };
+                          delete rest[s.key];
+                          onChange({ ...edits, edits: e.hidden ? { ...rest, [s.key]: { hidden: true } } : rest });
+                        }}
+                        className="text-[11px] text-zinc-400 hover:text-white"
+                      >
+                        Restore original
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={addCustom}
+          className="inline-flex items-center gap-1.5 h-8 px-3 rounded-full text-xs border border-zinc-700 text-zinc-200 hover:border-zinc-500 transition"
+        >
+          <Plus className="w-3.5 h-3.5" /> Add your own scene
+        </button>
+        <span className="text-[11px] text-zinc-400">{shown}/{list.length} scenes in the story</span>
+      </div>
+    </div>
+  );
+}
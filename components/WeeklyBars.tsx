@@ -0,0 +1,92 @@
+// components/WeeklyBars.tsx — Inline-SVG weekly bar chart with a rolling average (no chart dependency).
+// Same footprint as MonthlyBars; 52 or 53 slim bars, the biggest week in the accent color,
+// the rolling average as a line on top, and month initials under each month's first week.
+
+type WeeklyBarsProps = {
+  values: number[];                  // one per ISO week
+  average?: Array<number | null>;    // rolling average, same length; null where it stops
+  mondays: string[];                 // "YYYY-MM-DD" per week, for the month axis
+  accent?: string;
+  averageColor?: string;
+  unitLabel?: string;                // shown on the peak week's label
+  formatValue?: (v: number) => string;
+};
+
+const MONTH_INITIALS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+export default function WeeklyBars({
+  values,
+  average,
+  mondays,
+  accent = '#34d399',
+  averageColor = '#fbbf24',
+  unitLabel,
+  formatValue = (v) => Math.round(v).toLocaleString(),
+}: WeeklyBarsProps) {
+  if (!values.length) return null;
+  const max = Math.max(1, ...values);
+  const peakIdx = values.reduce((best, v, i) => (v > values[best]! ? i : best), 0);
+
+  const W = 360, H = 150;
+  const valueBand = 16, labelBand = 18;
+  const chartTop = valueBand, chartH = H - labelBand - chartTop;
+  const slot = W / values.length;
+  const barW = slot * 0.62;
+  const yOf = (v: number) => chartTop + chartH - (v / max) * chartH;
+
+  // A week belongs to the month its Thursday falls in, as ISO weeks belong to years.
+  const monthTicks = mondays
+    .map((d, i) => {
+      const [y, m, day] = d.split('-').map(Number);
+      return { i, month: new Date(y!, m! - 1, day! + 3).getMonth() };
+    })
+    .filter((t, k, all) => k === 0 || t.month !== all[k - 1]!.month);
+  const peakX = peakIdx * slot + slot / 2;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label="Volume by week">
+      {values.map((v, i) => {
+        const h = (v / max) * chartH;
+        return (
+          <rect
+            key={i}
+            x={i * slot + (slot - barW) / 2}
+            y={chartTop + chartH - h}
+            width={barW}
+            height={Math.max(h, v > 0 ? 2 : 0)}
+            rx={1.5}
+            fill={i === peakIdx && v > 0 ? accent : 'rgba(255,255,255,0.16)'}
+          />
+        );
+      })}
+      {average && average.length === values.length && (
+        <polyline
+          points={average
+            .flatMap((v, i) => (v == null ? [] : [`${(i * slot + slot / 2).toFixed(1)},${yOf(v).toFixed(1)}`]))
+            .join(' ')}
+          fill="none"
+          stroke={averageColor}
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+      )}
+      {values[peakIdx]! > 0 && (
+        <text
+          x={Math.min(Math.max(peakX, 24), W - 24)}
+          y={Math.max(yOf(values[peakIdx]!) - 4, valueBand - 4)}
+          textAnchor="middle"
+          fontSize="8.5"
+          fontWeight={700}
+          fill={accent}
+        >
+          {formatValue(values[peakIdx]!)}{unitLabel ? ` ${unitLabel}` : ''}
+        </text>
+      )}
+      {monthTicks.map((t) => (
+        <text key={t.i} x={t.i * slot + slot / 2} y={H - 5} textAnchor="middle" fontSize="10" fill="rgba(255,255,255,0.45)">
+          {MONTH_INITIALS[t.month]}
+        </text>
+      ))}
+    </svg>
+  );
+}
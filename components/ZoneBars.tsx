@@ -0,0 +1,59 @@
+// components/ZoneBars.tsx — Inline-SVG stacked monthly time-in-zone chart (no chart dependency).
+// Same footprint as MonthlyBars so the two sit side by side and screenshot identically.
+
+type ZoneBarsProps = {
+  monthly: number[][];       // 12 × 5 seconds (Jan..Dec, Z1..Z5)
+  colors?: string[];         // one per zone
+};
+
+const MONTH_INITIALS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+// Garmin Connect's zone colors: grey, blue, green, orange, red.
+export const ZONE_COLORS = ['#a1a1aa', '#60a5fa', '#4ade80', '#fb923c', '#f87171'];
+
+export default function ZoneBars({ monthly, colors = ZONE_COLORS }: ZoneBarsProps) {
+  const totals = Array.from({ length: 12 }, (_, i) => (monthly[i] ?? []).reduce((a, b) => a + b, 0));
+  const max = Math.max(1, ...totals);
+
+  const W = 360, H = 150;
+  const valueBand = 16;   // space above bars for per-month hour labels
+  const labelBand = 18;   // space below for month initials
+  const chartTop = valueBand;
+  const chartH = H - labelBand - chartTop;
+  const slot = W / 12;
+  const barW = slot * 0.56;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label="Time in heart-rate zone by month">
+      {totals.map((total, i) => {
+        const x = i * slot + (slot - barW) / 2;
+        const cx = i * slot + slot / 2;
+        const zones = monthly[i] ?? [];
+        return (
+          <g key={i}>
+            {zones.map((s, z) => {
+              const below = zones.slice(0, z).reduce((a, b) => a + b, 0);   // Z1 sits at the bottom
+              const h = (s / max) * chartH;
+              const y = chartTop + chartH - ((below + s) / max) * chartH;
+              return h > 0 ? <rect key={z} x={x} y={y} width={barW} height={h} fill={colors[z]} /> : null;
+            })}
+            {total > 0 && (
+              <text
+                x={cx}
+                y={Math.max(chartTop + chartH - (total / max) * chartH - 3, valueBand - 4)}
+                textAnchor="middle"
+                fontSize="8.5"
+                fill="rgba(255,255,255,0.55)"
+              >
+                {Math.round(total / 3600)}h
+              </text>
+            )}
+            <text x={cx} y={H - 5} textAnchor="middle" fontSize="10" fill="rgba(255,255,255,0.45)">
+              {MONTH_INITIALS[i]}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,161 @@
+// components/ig/IGCarousel.tsx — Instagram carousel exporter.
+// Previews every slide scaled down to fit the screen, lets you pick the post format and a
+// theme (or each slide's own from THEME_BY_SLIDE), and saves the set as one ZIP of
+// numbered PNGs at the format's exact pixel size (browsers block a burst of downloads).
+
+import { useEffect, useRef, useState } from 'react';
+import { X, Download } from 'lucide-react';
+import * as htmlToImage from 'html-to-image';
+import JSZip from 'jszip';
+import IGSlide from './IGSlide';
+import type { IGSlideData } from './IGSlide';
+import { IG_FORMATS, IG_THEMES, THEME_BY_SLIDE } from './config';
+import type { IGFormat, IGThemeKey } from './config';
+
+type IGCarouselProps = {
+  slides: IGSlideData[];
+  year: number;
+  fileBase?: string;
+  onClose: () => void;
+};
+
+const PREVIEW_H = 360;   // px; slides are rendered full size and scaled to this height
+
+export default function IGCarousel({ slides, year, fileBase = 'FitnessWrapped', onClose }: IGCarouselProps) {
+  const [format, setFormat] = useState<IGFormat>('portrait45');
+  const [theme, setTheme] = useState<IGThemeKey | 'auto'>('auto');
+  const [exporting, setExporting] = useState<number | null>(null);   // slide being saved
+  const slideRefs = useRef<Array<HTMLDivElement | null>>([]);
+  const { w, h } = IG_FORMATS[format];
+  const scale = PREVIEW_H / h;
+
+  // Lock background scroll while open; Escape closes.
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => {
+      document.body.style.overflow = prev;
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [onClose]);
+
+  // One PNG per slide, in order, zipped into a single download; the scale lives on the
+  // wrapper, so each node is full size.
+  const exportAll = async () => {
+    if (exporting != null) return;
+    try {
+      const zip = new JSZip();
+      for (let i = 0; i < slides.length; i++) {
+        const node = slideRefs.current[i];
+        if (!node) continue;
+        setExporting(i);
+        const blob = await htmlToImage.toBlob(node, { cacheBust: true, pixelRatio: 1, width: w, height: h });
+        if (blob) zip.file(`${fileBase}_${String(i + 1).padStart(2, '0')}_${slides[i]!.key}.png`, blob);
+      }
+      const url = URL.createObjectURL(await zip.generateAsync({ type: 'blob' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileBase}_carousel_${IG_FORMATS[format].w}x${IG_FORMATS[format].h}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 10_000);
+    } catch (err) {
+      console.error('Failed to export carousel', err);
+      alert('Sorry, something went wrong exporting the carousel.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 text-white overflow-y-auto" role="dialog" aria-modal="true" aria-label="Instagram carousel">
+      <div className="mx-auto max-w-6xl px-4 sm:px-6 py-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-fuchsia-300">Instagram carousel</p>
+            <p className="text-sm text-zinc-300 mt-1">
+              {slides.length} slides at {w}×{h}, saved as one ZIP. Post them in order — the numbers in the file names match the slides.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close carousel"
+            className="h-10 w-10 shrink-0 rounded-full bg-white/10 hover:bg-white/20 border border-white/15 flex items-center justify-center transition"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mt-5 flex flex-wrap items-center gap-3">
+          <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+            {(Object.keys(IG_FORMATS) as IGFormat[]).map((f) => (
+              <button
+                key={f}
+                type="button"
+                onClick={() => setFormat(f)}
+                title={IG_FORMATS[f].label}
+                className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition ${
+                  f === format ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                }`}
+              >
+                {IG_FORMATS[f].label.replace(/\s*\(.*$/, '')}
+              </button>
+            ))}
+          </div>
+
+          <div className="inline-flex items-center gap-1 rounded-xl border border-zinc-700 bg-zinc-900/60 p-1">
+            {(['auto', ...Object.keys(IG_THEMES)] as Array<IGThemeKey | 'auto'>).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => setTheme(k)}
+                className={`px-2.5 h-7 rounded-lg text-xs font-medium whitespace-nowrap transition inline-flex items-center gap-1.5 ${
+                  k === theme ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-300 hover:bg-zinc-800'
+                }`}
+              >
+                {k !== 'auto' && <span aria-hidden className="h-2.5 w-2.5 rounded-full" style={{ background: IG_THEMES[k].accent }} />}
+                {k === 'auto' ? 'Mixed' : IG_THEMES[k].label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={exportAll}
+            disabled={exporting != null}
+            className="ml-auto inline-flex items-center gap-2 h-9 px-4 rounded-xl bg-white text-zinc-900 text-sm font-semibold hover:bg-zinc-200 transition disabled:opacity-60"
+          >
+            <Download className="w-4 h-4" />
+            {exporting != null ? `Saving ${exporting + 1} of ${slides.length}…` : `Save all ${slides.length} as ZIP`}
+          </button>
+        </div>
+
+        <div className="mt-6 flex gap-4 overflow-x-auto pb-4 snap-x">
+          {slides.map((s, i) => (
+            <div
+              key={s.key}
+              className="shrink-0 snap-start rounded-xl overflow-hidden border border-white/10"
+              style={{ width: w * scale, height: h * scale }}
+            >
+              <div style={{ width: w, height: h, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+                <IGSlide
+                  ref={(el) => { slideRefs.current[i] = el; }}
+                  slide={s}
+                  format={format}
+                  theme={theme === 'auto' ? THEME_BY_SLIDE[s.key] : theme}
+                  index={i}
+                  total={slides.length}
+                  year={year}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// components/ig/IGSlide.tsx — One Instagram carousel slide at its exact export size.
+// Everything is sized in pixels against the 1080-px width rather than the viewport, so
+// the PNG comes out identical on a phone and a desktop; previews scale it with CSS.
+
+import { forwardRef } from 'react';
+import { IG_FORMATS, IG_THEMES } from './config';
+import type { IGFormat, IGSlideKey, IGThemeKey } from './config';
+
+export type IGSlideData = {
+  key: IGSlideKey;
+  eyebrow: string;
+  value: string;          // the big number
+  detail?: string;        // one line of context under it
+  tagline: string;        // from IG_TAGLINES via pickStable
+};
+
+type IGSlideProps = {
+  slide: IGSlideData;
+  format: IGFormat;
+  theme: IGThemeKey;
+  index: number;          // 0-based position in the carousel
+  total: number;
+  year: number;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Long values ("12 days 4hrs 31m") step down so they stay on one or two lines.
+const valueSize = (value: string) => (value.length <= 7 ? 210 : value.length <= 11 ? 150 : value.length <= 16 ? 112 : 88);
+
+const IGSlide = forwardRef<HTMLDivElement, IGSlideProps>(function IGSlide({ slide, format, theme, index, total, year }, ref) {
+  const { w, h } = IG_FORMATS[format];
+  const t = IG_THEMES[theme];
+  const cover = slide.key === 'cover';
+
+  return (
+    <div
+      ref={ref}
+      style={{
+        width: w,
+        height: h,
+        background: t.bg,
+        color: '#fff',
+        position: 'relative',
+        overflow: 'hidden',
+        display: 'flex',
+        flexDirection: 'column',
+        padding: 88,
+        boxSizing: 'border-box',
+        fontFamily: 'inherit',
+      }}
+    >
+      <div aria-hidden style={{ position: 'absolute', inset: 0, background: `radial-gradient(60% 45% at 50% 42%, ${t.accent}33, transparent 70%)` }} />
+
+      <div style={{ position: 'relative', display: 'flex', justifyContent: 'space-between', fontSize: 30, letterSpacing: '0.24em', textTransform: 'uppercase', color: t.muted }}>
+        <span>Fitness Wrapped · {year}</span>
+        <span style={{ fontVariantNumeric: 'tabular-nums' }}>{pad(index + 1)}/{pad(total)}</span>
+      </div>
+
+      <div style={{ position: 'relative', flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
+        <p style={{ margin: 0, fontSize: 36, fontWeight: 600, letterSpacing: '0.26em', textTransform: 'uppercase', color: t.accent }}>
+          {slide.eyebrow}
+        </p>
+        <p style={{ margin: '28px 0 0', fontSize: cover ? 260 : valueSize(slide.value), fontWeight: 900, letterSpacing: '-0.03em', lineHeight: 0.95 }}>
+          {slide.value}
+        </p>
+        {slide.detail && (
+          <p style={{ margin: '36px 0 0', fontSize: 44, lineHeight: 1.25, color: t.muted }}>{slide.detail}</p>
+        )}
+      </div>
+
+      <div style={{ position: 'relative', background: t.card, border: '1px solid rgba(255,255,255,0.12)', borderRadius: 36, padding: '36px 44px' }}>
+        <p style={{ margin: 0, fontSize: 42, fontWeight: 700, lineHeight: 1.25 }}>{slide.tagline}</p>
+      </div>
+    </div>
+  );
+});
+
+export default IGSlide;
@@ -5,8 +5,9 @@
 // per-column decimal detection). It is intentionally isolated so that work won't
 // disturb metrics/formatting/UI.
 
-import type { CsvRow, UnitHint } from './types';
-import { toStringSafe, asCell } from './parse';
+import type { ActivityRecord, CsvRow, UnitHint, UnitSystem } from './types';
+import { toStringSafe, asCell, parseNumber, parseTimeToSeconds } from './parse';
+import { YARD_M } from './constants';
 
 export function normalizeKey(s: string): string {
   return s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '');
@@ -82,6 +83,69 @@ export function buildActivityIndexMap(headerRow: string[]): ActivityIdxMap {
   return idx;
 }
 
+/*
+ * Optional columns: every other column Garmin may export (which ones appear depends on
+ * the device, sports and settings). They have no default index and only match an
+ * exact (normalized) header — substring matching would confuse e.g. "Aerobic TE" with
+ * "Anaerobic TE". Keyed by row key; the keys match what lib/fit.ts and lib/archive.ts
+ * write, so toActivityRecord reads every source the same way.
+ */
+const OPTIONAL_ACTIVITY_COLUMNS: Record<string, string[]> = {
+  'Favorite': ['Favorite','Favori','Favorit','Favorito','Favoriet'],
+  'Avg Speed': ['Avg Speed','Average Speed','Avg Pace','Average Pace','Vitesse moyenne','Allure moyenne','Ø Geschwindigkeit','Durchschnittsgeschwindigkeit','Ø Pace','Durchschnittliche Pace','Velocidad media','Ritmo medio','Gem. snelheid','Gemiddelde snelheid','Gem. tempo','Gemiddeld tempo'],
+  'Max Speed': ['Max Speed','Maximum Speed','Best Pace','Vitesse max','Vitesse maximale','Meilleure allure','Maximale Geschwindigkeit','Max. Geschwindigkeit','Beste Pace','Velocidad máxima','Velocidad maxima','Mejor ritmo','Max. snelheid','Maximale snelheid','Beste tempo'],
+  'Avg Run Cadence': ['Avg Run Cadence','Average Run Cadence','Cadence de course moyenne','Ø Laufkadenz','Durchschnittliche Laufkadenz','Cadencia de carrera media','Gem. loopcadans','Gemiddelde loopcadans'],
+  'Max Run Cadence': ['Max Run Cadence','Maximum Run Cadence','Cadence de course max','Cadence de course maximale','Max. Laufkadenz','Maximale Laufkadenz','Cadencia de carrera máxima','Cadencia de carrera maxima','Max. loopcadans','Maximale loopcadans'],
+  'Avg Bike Cadence': ['Avg Bike Cadence','Average Bike Cadence','Cadence de vélo moyenne','Cadence de velo moyenne','Ø Trittfrequenz','Durchschnittliche Trittfrequenz','Cadencia de pedaleo media','Gem. fietscadans','Gemiddelde fietscadans'],
+  'Max Bike Cadence': ['Max Bike Cadence','Maximum Bike Cadence','Cadence de vélo max','Cadence de velo max','Max. Trittfrequenz','Maximale Trittfrequenz','Cadencia de pedaleo máxima','Cadencia de pedaleo maxima','Max. fietscadans','Maximale fietscadans'],
+  'Avg Stride Length': ['Avg Stride Length','Average Stride Length','Longueur de foulée moyenne','Longueur de foulee moyenne','Ø Schrittlänge','Durchschnittliche Schrittlänge','Longitud de zancada media','Gem. staplengte','Gemiddelde staplengte'],
+  'Avg Vertical Ratio': ['Avg Vertical Ratio','Average Vertical Ratio','Rapport vertical moyen','Ø Vertikales Verhältnis','Relación vertical media','Relacion vertical media','Gem. verticale ratio'],
+  'Avg Vertical Oscillation': ['Avg Vertical Oscillation','Average Vertical Oscillation','Oscillation verticale moyenne','Ø Vertikale Bewegung','Oscilación vertical media','Oscilacion vertical media','Gem. verticale oscillatie'],
+  'Avg Ground Contact Time': ['Avg Ground Contact Time','Average Ground Contact Time','Temps de contact au sol moyen','Ø Bodenkontaktzeit','Tiempo medio de contacto con el suelo','Gem. grondcontacttijd'],
+  'Avg GAP': ['Avg GAP','Average GAP','Allure ajustée à la pente moyenne','Ø GAP'],
+  'Avg Power': ['Avg Power','Average Power','Puissance moyenne','Ø Leistung','Durchschnittliche Leistung','Potencia media','Gem. vermogen','Gemiddeld vermogen'],
+  'Max Power': ['Max Power','Maximum Power','Puissance max','Puissance maximale','Max. Leistung','Maximale Leistung','Potencia máxima','Potencia maxima','Max. vermogen','Maximaal vermogen'],
+  'Normalized Power': ['Normalized Power® (NP®)','Normalized Power (NP)','Normalized Power','Puissance normalisée (NP)','Puissance normalisee','Normalized Power® (NP®) W','Potencia normalizada (NP)','Genormaliseerd vermogen (NP)'],
+  'Max Avg Power (20 min)': ['Max Avg Power (20 min)','Puissance moyenne max (20 min)','Max. Ø Leistung (20 Min.)','Potencia media máxima (20 min)'],
+  'Training Stress Score': ['Training Stress Score®','Training Stress Score','TSS','Score de stress d’entraînement','Training Stress Score® (TSS®)'],
+  'Intensity Factor': ['Intensity Factor®','Intensity Factor','IF','Facteur d’intensité','Intensitätsfaktor','Factor de intensidad'],
+  'Total Work': ['Total Work','Work','Travail total','Gesamtarbeit','Trabajo total','Totaal werk'],
+  'Training Load': ['Training Load','Charge d’entraînement','Charge d entrainement','Trainingsbelastung','Carga de entrenamiento','Trainingsbelasting'],
+  'Aerobic TE': ['Aerobic TE','Aerobic Training Effect','TE aérobie','TE aerobie','Aerober TE','TE aeróbico','TE aerobico','Aerobe TE'],
+  'Anaerobic TE': ['Anaerobic TE','Anaerobic Training Effect','TE anaérobie','TE anaerobie','Anaerober TE','TE anaeróbico','TE anaerobico','Anaerobe TE'],
+  'Total Strokes': ['Total Strokes','Nombre total de mouvements','Mouvements','Gesamtzüge','Züge','Brazadas totales','Brazadas','Totaal aantal slagen','Slagen'],
+  'Avg Swolf': ['Avg. Swolf','Avg Swolf','Average Swolf','Swolf moyen','Ø Swolf','Swolf medio','Gem. Swolf'],
+  'Avg Stroke Rate': ['Avg Stroke Rate','Average Stroke Rate','Cadence de mouvements moyenne','Ø Zugfrequenz','Frecuencia de brazada media','Gem. slagfrequentie'],
+  'Pool Length': ['Pool Length','Longueur de bassin','Beckenlänge','Longitud de piscina','Zwembadlengte'],
+  'Number of Laps': ['Number of Laps','Laps','Nombre de circuits','Nombre de tours','Anzahl der Runden','Runden','Número de vueltas','Numero de vueltas','Aantal ronden'],
+  'Best Lap Time': ['Best Lap Time','Meilleur temps de circuit','Meilleur tour','Beste Rundenzeit','Mejor tiempo de vuelta','Beste rondetijd'],
+  'Min Temp': ['Min Temp','Minimum Temperature','Température min','Temperature min','Min. Temperatur','Minimale Temperatur','Temperatura mínima','Temperatura minima','Min. temp','Minimale temperatuur'],
+  'Max Temp': ['Max Temp','Maximum Temperature','Température max','Temperature max','Max. Temperatur','Maximale Temperatur','Temperatura máxima','Temperatura maxima','Max. temp','Maximale temperatuur'],
+  'Total Descent': ['Total Descent','Descent','Dénivelé négatif','Denivele negatif','Gesamter Abstieg','Descenso total','Totale daling'],
+  'Min Elevation': ['Min Elevation','Minimum Elevation','Altitude min','Altitude minimale','Minimale Höhe','Minimale Hoehe','Altura mínima','Altura minima','Minimale hoogte'],
+  'Avg Resp': ['Avg Resp','Average Respiration','Respiration moyenne','Ø Atemfrequenz','Respiración media','Respiracion media','Gem. ademhaling'],
+  'Min Resp': ['Min Resp','Respiration min','Min. Atemfrequenz','Respiración mínima','Respiracion minima','Min. ademhaling'],
+  'Max Resp': ['Max Resp','Respiration max','Max. Atemfrequenz','Respiración máxima','Respiracion maxima','Max. ademhaling'],
+  'Total Reps': ['Total Reps','Répétitions totales','Repetitions totales','Wiederholungen gesamt','Repeticiones totales','Totaal aantal herhalingen'],
+  'Total Sets': ['Total Sets','Séries totales','Series totales','Sätze gesamt','Totaal aantal sets'],
+  'Body Battery Drain': ['Body Battery Drain','Consommation Body Battery','Body Battery-Verbrauch','Consumo de Body Battery','Body Battery-verbruik'],
+  'Grit': ['Grit'],
+  'Flow': ['Flow'],
+  'Dive Time': ['Dive Time','Temps de plongée','Tauchzeit','Tiempo de inmersión','Duiktijd'],
+  'Surface Interval': ['Surface Interval','Intervalle de surface','Oberflächenpause','Intervalo en superficie','Oppervlakte-interval'],
+  'Decompression': ['Decompression','Décompression','Dekompression','Descompresión','Decompressie'],
+};
+
+function buildOptionalIndexMap(headerRow: string[]): Array<[string, number]> {
+  const normHeader = headerRow.map((h) => normalizeKey(h));
+  const out: Array<[string, number]> = [];
+  for (const [key, aliases] of Object.entries(OPTIONAL_ACTIVITY_COLUMNS)) {
+    const idx = aliases.map((a) => normHeader.indexOf(normalizeKey(a))).find((i) => i >= 0);
+    if (idx != null) out.push([key, idx]);
+  }
+  return out;
+}
+
 /* ================== Unit hints (auto-detect from header annotations) ================== */
 
 export function unitHintFromHeaderDistance(h: string): UnitHint {
@@ -107,7 +171,7 @@ export function canonicalizeActivityType(raw: string): string {
   if (/tapis.*course|laufband|tapisroulant/.test(s)) return 'Running';
   if (/piste.*course|bahn/.test(s)) return 'Running';
   if (/cyclisme|velo|radfahren|fahrrad|biking|cycling|virtualcycling|indoorcycling|spinning|vtt|mountainbike/.test(s)) return 'Cycling';
-  if (/natation|schwimmen|swimming|poolswim|openwaterswimming|freibad|hallenbad/.test(s)) return 'Swimming';
+  if (/natation|natacion|nuoto|zwemmen|schwimmen|swimming|poolswim|openwaterswimming|freibad|hallenbad/.test(s)) return 'Swimming';
   if (/aviron|rameur|rudern|rowing|rowerg|ergometer/.test(s)) return 'Rowing';
   if (/(skierg|ski[\s-]*erg|ergomet)/.test(s)) return 'SkiErg';
   if (/marche|spaziergang|gehen|walking|walk/.test(s)) return 'Walking';
@@ -125,6 +189,7 @@ export function mapActivityRowsByIndex(rows2D: unknown[][]): CsvRow[] {
   if (!rows2D.length) return [];
   const headerRow = (rows2D[0] as unknown[]).map(h => toStringSafe(h));
   const idx = buildActivityIndexMap(headerRow);
+  const optional = buildOptionalIndexMap(headerRow);
 
   const out: CsvRow[] = [];
   for (let i = 1; i < rows2D.length; i++) {
@@ -146,8 +211,116 @@ export function mapActivityRowsByIndex(rows2D: unknown[][]): CsvRow[] {
       'Max Elevation': asCell(r[idx.MaxElevation]),
       'Steps':         asCell(r[idx.Steps]),
     };
+    for (const [key, col] of optional) row[key] = asCell(r[col]);
 
     if (row['Activity Type'] || row['Distance'] || row['Time'] || row['Elapsed Time'] || row['Calories']) out.push(row);
   }
   return out;
 }
+
+/* ================== Typed activity record ================== */
+
+const num = (v: unknown): number | undefined => { const n = parseNumber(v); return n > 0 ? n : undefined; };
+const secs = (v: unknown): number | undefined => { const n = parseTimeToSeconds(v); return n > 0 ? n : undefined; };
+
+/** "25.3" (speed) or "5:42" (pace per unit, as running rows carry it) → speed per hour. */
+function speedPerHour(v: unknown): number | undefined {
+  const s = toStringSafe(v);
+  if (!s.includes(':')) return num(s);
+  const paceSec = parseTimeToSeconds(s);
+  return paceSec > 0 ? 3600 / paceSec : undefined;
+}
+
+/** "5:42" (pace per unit) → seconds per unit. */
+function paceSeconds(v: unknown): number | undefined {
+  const s = toStringSafe(v);
+  return s.includes(':') ? secs(s) : undefined;
+}
+
+/** "true" / "Yes" / "1" → true, "false" / "No" / "0" → false, anything else undefined. */
+function flag(v: unknown): boolean | undefined {
+  if (typeof v === 'boolean') return v;
+  const s = toStringSafe(v).toLowerCase();
+  if (/^(true|yes|oui|ja|s[ií]|1)$/.test(s)) return true;
+  if (/^(false|no|non|nein|nee|0)$/.test(s)) return false;
+  return undefined;
+}
+
+/** The unit an export's optional columns were written in, from its distance hint. */
+export function recordDistanceUnit(distanceHint: UnitHint, unitSystem: UnitSystem): 'km' | 'mi' {
+  if (distanceHint === 'mi') return 'mi';
+  if (distanceHint === 'km' || distanceHint === 'm') return 'km';
+  return unitSystem === 'imperial' ? 'mi' : 'km';
+}
+
+/**
+ * Typed view of a row's optional columns, converted to metric. `distanceUnit` is the
+ * unit the export was written in ('mi' exports also use ft, in and °F); device-file
+ * and archive rows are metric and km/h already.
+ */
+export function toActivityRecord(row: CsvRow, distanceUnit: 'km' | 'mi'): ActivityRecord {
+  const imperial = distanceUnit === 'mi';
+  const kmh = (v: unknown) => { const s = speedPerHour(v); return s != null && imperial ? s * 1.60934 : s; };
+  const perKm = (v: unknown) => { const p = paceSeconds(v); return p != null && imperial ? p / 1.60934 : p; };
+  const meters = (v: unknown, imperialFactor: number) => { const n = num(v); return n != null && imperial ? n * imperialFactor : n; };
+  const celsius = (v: unknown) => {
+    const n = parseNumber(v);
+    if (!toStringSafe(v) || toStringSafe(v) === '--' || !Number.isFinite(n)) return undefined;
+    return imperial ? (n - 32) / 1.8 : n;
+  };
+  // Device files and the archive give the pool length in meters (22.86 for 25 yd); the
+  // Activities CSV gives it in the pool's own unit, and a statute export's bare 25 or 50
+  // is a yard pool.
+  const poolRaw = num(row['Pool Length']);
+  const poolUnitCell = toStringSafe(row['Pool Length Unit']).toLowerCase();
+  const poolUnit = /^y(ar)?ds?$/.test(poolUnitCell) ? 'yd'
+    : /^m(et(er|re)s?)?$/.test(poolUnitCell) ? 'm'
+    : imperial && (poolRaw === 25 || poolRaw === 50) ? 'yd'
+    : undefined;
+  const poolInMeters = poolRaw != null && poolUnit === 'yd' && Number.isInteger(poolRaw) ? poolRaw * YARD_M : poolRaw;
+
+  return {
+    favorite: flag(row['Favorite']),
+    avgSpeedKmh: kmh(row['Avg Speed']),
+    maxSpeedKmh: kmh(row['Max Speed']),
+    avgRunCadence: num(row['Avg Run Cadence']),
+    maxRunCadence: num(row['Max Run Cadence']),
+    avgBikeCadence: num(row['Avg Bike Cadence']),
+    maxBikeCadence: num(row['Max Bike Cadence']),
+    avgStrideLengthM: meters(row['Avg Stride Length'], 0.3048),
+    avgVerticalRatio: num(row['Avg Vertical Ratio']),
+    avgVerticalOscillationCm: meters(row['Avg Vertical Oscillation'], 2.54),
+    avgGroundContactMs: num(row['Avg Ground Contact Time']),
+    avgGapSecPerKm: perKm(row['Avg GAP']),
+    avgPower: num(row['Avg Power']),
+    maxPower: num(row['Max Power']),
+    normalizedPower: num(row['Normalized Power']),
+    maxAvgPower20Min: num(row['Max Avg Power (20 min)']),
+    trainingStressScore: num(row['Training Stress Score']),
+    intensityFactor: num(row['Intensity Factor']),
+    totalWorkKj: num(row['Total Work']),
+    aerobicTE: num(row['Aerobic TE']),
+    anaerobicTE: num(row['Anaerobic TE']),
+    trainingLoad: num(row['Training Load']),
+    totalStrokes: num(row['Total Strokes']),
+    avgSwolf: num(row['Avg Swolf']),
+    avgStrokeRate: num(row['Avg Stroke Rate']),
+    poolLengthM: poolInMeters,
+    poolLengthUnit: poolUnit,
+    numberOfLaps: num(row['Number of Laps']),
+    bestLapSeconds: secs(row['Best Lap Time']),
+    minTempC: celsius(row['Min Temp']),
+    maxTempC: celsius(row['Max Temp']),
+    avgRespiration: num(row['Avg Resp']),
+    minRespiration: num(row['Min Resp']),
+    maxRespiration: num(row['Max Resp']),
+    totalReps: num(row['Total Reps']),
+    totalSets: num(row['Total Sets']),
+    bodyBatteryDrain: num(row['Body Battery Drain']),
+    grit: num(row['Grit']),
+    flow: num(row['Flow']),
+    diveSeconds: secs(row['Dive Time']),
+    surfaceIntervalSeconds: secs(row['Surface Interval']),
+    decompression: flag(row['Decompression']),
+  };
+}
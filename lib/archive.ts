@@ -0,0 +1,384 @@
+// lib/archive.ts — Garmin "Export Your Data" account archive (.zip) ingestion.
+//
+// The archive is a tree of JSON + nested ZIPs under DI_CONNECT/. We never ask the user
+// which file is which: every entry is classified by its path and routed to a parser —
+// activity summaries → activity rows, sleep, HRV and daily summary (UDS) JSON → wellness
+// days (steps, resting HR, HRV, stress, Body Battery), weight JSON → weigh-ins, and device files (.fit/.gpx/.tcx) → GPS tracks (and the activity rows
+// themselves when the archive has no summaries).
+//
+// Activity rows are written in metric units — pair them with METRIC_FILE_UNIT_HINTS.
+//
+// A multi-year archive can hold thousands of device files. Their samples only feed the
+// route heatmap, best efforts, HR-stream zones and power, so each track keeps just the
+// fields those read, and only the MAX_ARCHIVE_TRACKS most recent are kept at all.
+
+import JSZip from 'jszip';
+import type { ActivityFile, CsvRow, HrvStatus, TrackPoint, WeightEntry, WellnessDay } from './types';
+import { formatCsvDateTime, formatCsvDuration, round2 } from './format';
+import { decodeDeviceFile, isDeviceFileName } from './device-files';
+import { mergeWellnessDays } from './wellness-days';
+import { mergeWeightEntries, weightFromJson } from './body';
+
+export type GarminArchive = {
+  activities: CsvRow[];
+  tracks: ActivityFile[];   // decoded device files (route heatmap, best efforts), newest first, thinned
+  tracksSkipped: number;    // older device files left out past MAX_ARCHIVE_TRACKS
+  wellness: WellnessDay[];  // one entry per calendar day, sleep and daily summaries merged
+  weights: WeightEntry[];
+};
+
+type Json = Record<string, unknown>;
+
+export const MAX_ARCHIVE_TRACKS = 1500;
+const YIELD_EVERY = 20;   // device files decoded between yields to the main thread
+
+const isObj = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+const num = (v: unknown): number | undefined => (typeof v === 'number' && Number.isFinite(v) ? v : undefined);
+
+export function isZipFileName(name: string): boolean {
+  return /\.zip$/i.test(name);
+}
+
+/* ----------------------------- Entry classification ----------------------------- */
+
+type EntryKind = 'activities' | 'sleep' | 'hrv' | 'weight' | 'daily' | 'device' | 'zip' | null;
+
+function classifyEntry(path: string): EntryKind {
+  const name = path.split('/').pop() ?? '';
+  if (/summarizedActivities\.json$/i.test(name)) return 'activities';
+  if (/sleepData\.json$/i.test(name)) return 'sleep';
+  if (/hrv[^/]*\.json$/i.test(name)) return 'hrv';
+  if (/(weight|biometrics)[^/]*\.json$/i.test(name)) return 'weight';
+  if (/^UDSFile_.*\.json$/i.test(name)) return 'daily';
+  if (isDeviceFileName(name)) return 'device';
+  if (isZipFileName(name)) return 'zip';
+  return null;
+}
+
+/* ----------------------------- Activity summaries ----------------------------- */
+
+const ACTIVITY_TYPE_LABELS: Record<string, string> = {
+  virtual_ride: 'Virtual Cycling',
+  virtual_run: 'Virtual Running',
+  lap_swimming: 'Pool Swim',
+  open_water_swimming: 'Open Water Swimming',
+};
+
+/** "trail_running" → "Trail Running" (canonicalizeActivityType understands these). */
+function activityTypeLabel(raw: unknown): string {
+  const key = typeof raw === 'string' ? raw : isObj(raw) && typeof raw.typeKey === 'string' ? raw.typeKey : '';
+  if (!key) return 'Other';
+  return ACTIVITY_TYPE_LABELS[key] ?? key.split('_').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/** startTimeLocal is wall-clock time encoded as if it were UTC epoch ms. */
+function wallClockDate(v: unknown): Date | null {
+  if (typeof v === 'string') {
+    const d = new Date(v.replace(' ', 'T'));
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+  const ms = num(v);
+  if (ms == null) return null;
+  const u = new Date(ms);
+  return new Date(u.getUTCFullYear(), u.getUTCMonth(), u.getUTCDate(), u.getUTCHours(), u.getUTCMinutes(), u.getUTCSeconds());
+}
+
+/** One summarizedActivities entry → a row keyed like the Activities CSV (metric units). */
+function mapSummarizedActivity(a: Json): CsvRow | null {
+  const date = wallClockDate(a.startTimeLocal) ?? wallClockDate(a.beginTimestamp);
+  if (!date) return null;
+  const type = activityTypeLabel(a.activityType);
+  const cm = (k: string) => { const v = num(a[k]); return v == null ? undefined : v / 100; };
+  const secs = (k: string) => { const v = num(a[k]); return v == null ? null : formatCsvDuration(v / 1000); };
+  // Archive calories are kilojoules; the CSV (and the dashboard) use kcal.
+  const kj = num(a.calories);
+  const kmh = (k: string) => { const v = num(a[k]); return v == null ? undefined : v * 36; }; // cm/ms → km/h
+  const pool = cm('poolLength');
+  const poolUnit = isObj(a.unitOfPoolLength) ? a.unitOfPoolLength.unitKey : undefined;
+
+  return {
+    'Activity Type': type,
+    'Date': formatCsvDateTime(date),
+    'Title': typeof a.name === 'string' && a.name.trim() ? a.name.trim() : type,
+    'Distance': round2(cm('distance')),
+    'Calories': kj != null ? Math.round(kj / 4.184) : null,
+    'Time': secs('duration'),
+    'Avg HR': num(a.avgHr) ?? null,
+    'Max HR': num(a.maxHr) ?? null,
+    'Total Ascent': round2(cm('elevationGain')),
+    'Moving Time': secs('movingDuration'),
+    'Elapsed Time': secs('elapsedDuration'),
+    'Max Elevation': round2(cm('maxElevation')),
+    'Steps': num(a.steps) ?? null,
+
+    // Extras, named after the matching Activities CSV headers (as in lib/fit.ts).
+    'Total Descent': round2(cm('elevationLoss')),
+    'Min Elevation': round2(cm('minElevation')),
+    'Avg Speed': round2(kmh('avgSpeed')),                               // km/h
+    'Max Speed': round2(kmh('maxSpeed')),                               // km/h
+    'Avg Run Cadence': round2(num(a.avgRunCadence)),
+    'Max Run Cadence': round2(num(a.maxRunCadence)),
+    'Avg Bike Cadence': round2(num(a.avgBikeCadence)),
+    'Max Bike Cadence': round2(num(a.maxBikeCadence)),
+    'Avg Stride Length': round2(cm('avgStrideLength')),                 // m
+    'Avg Vertical Ratio': round2(num(a.avgVerticalRatio)),
+    'Avg Vertical Oscillation': round2(num(a.avgVerticalOscillation)),  // cm
+    'Avg Ground Contact Time': round2(num(a.avgGroundContactTime)),     // ms
+    'Avg Power': round2(num(a.avgPower)),
+    'Max Power': round2(num(a.maxPower)),
+    'Normalized Power': round2(num(a.normPower)),
+    'Max Avg Power (20 min)': round2(num(a.max20MinPower)),
+    'Training Stress Score': round2(num(a.trainingStressScore)),
+    'Intensity Factor': round2(num(a.intensityFactor)),
+    'Aerobic TE': round2(num(a.aerobicTrainingEffect)),
+    'Anaerobic TE': round2(num(a.anaerobicTrainingEffect)),
+    'Training Load': round2(num(a.activityTrainingLoad)),
+    'Total Strokes': num(a.strokes) ?? num(a.totalNumberOfStrokes) ?? null,
+    'Avg Swolf': round2(num(a.avgSwolf)),
+    'Pool Length': round2(pool),                                         // m
+    'Pool Length Unit': pool != null ? (poolUnit === 'yard' ? 'yd' : 'm') : null,
+    'Number of Laps': num(a.lapCount) ?? null,
+    'Min Temp': round2(num(a.minTemperature)),                           // °C
+    'Max Temp': round2(num(a.maxTemperature)),                           // °C
+  };
+}
+
+/** summarizedActivities.json is `[{ summarizedActivitiesExport: [...] }]` (or a bare list). */
+function activitiesFromJson(data: unknown): CsvRow[] {
+  const list: unknown[] = Array.isArray(data)
+    ? data.flatMap((d) => (isObj(d) && Array.isArray(d.summarizedActivitiesExport) ? d.summarizedActivitiesExport : [d]))
+    : [];
+  return list.filter(isObj).map(mapSummarizedActivity).filter((r): r is CsvRow => !!r);
+}
+
+/* ----------------------------- Wellness JSON ----------------------------- */
+
+const minutes = (v: unknown): number | undefined => { const n = num(v); return n != null && n > 0 ? n / 60 : undefined; };
+
+/** A "…GMT" timestamp (epoch ms, or an ISO string without a zone) → epoch ms. */
+function gmtMs(v: unknown): number | null {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v !== 'string' || !v) return null;
+  const iso = v.replace(' ', 'T');
+  const ms = Date.parse(/Z$|[+-]\d{2}:?\d{2}$/.test(iso) ? iso : iso + 'Z');
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/** Sleep nights keep their GMT window until the day's UTC offset (from the UDS files) is known. */
+type SleepNight = { day: WellnessDay; startMs: number | null; endMs: number | null };
+
+function sleepFromJson(data: unknown): SleepNight[] {
+  if (!Array.isArray(data)) return [];
+  const out: SleepNight[] = [];
+  for (const d of data) {
+    if (!isObj(d) || typeof d.calendarDate !== 'string') continue;
+    const stages = ['deepSleepSeconds', 'lightSleepSeconds', 'remSleepSeconds'].map((k) => num(d[k]) ?? 0);
+    let seconds = stages.reduce((a, b) => a + b, 0);
+    const start = gmtMs(d.sleepStartTimestampGMT);
+    const end = gmtMs(d.sleepEndTimestampGMT);
+    const window = start != null && end != null && end > start;
+    if (!seconds && window) seconds = (end - start) / 1000;
+    const scores = isObj(d.sleepScores) ? d.sleepScores : null;
+    const overall = scores ? scores.overallScore ?? scores.overall : undefined;
+    const score = num(overall) ?? (isObj(overall) ? num(overall.value) : undefined);
+    out.push({
+      day: {
+        date: d.calendarDate,
+        sleepScore: score,
+        sleepMinutes: seconds ? seconds / 60 : undefined,
+        deepMinutes: minutes(d.deepSleepSeconds),
+        lightMinutes: minutes(d.lightSleepSeconds),
+        remMinutes: minutes(d.remSleepSeconds),
+        awakeMinutes: minutes(d.awakeSleepSeconds),
+      },
+      startMs: window ? start : null,
+      endMs: window ? end : null,
+    });
+  }
+  return out;
+}
+
+/** Minutes after local midnight; without a known offset, the browser's time zone stands in. */
+function localClockMinutes(ms: number, offsetMin: number | undefined): number {
+  if (offsetMin == null) { const d = new Date(ms); return d.getHours() * 60 + d.getMinutes(); }
+  const d = new Date(ms + offsetMin * 60_000);
+  return d.getUTCHours() * 60 + d.getUTCMinutes();
+}
+
+/** Each UDS day's UTC offset in minutes, from its local and GMT start times. */
+function utcOffsetsFromJson(data: unknown): Array<[string, number]> {
+  if (!Array.isArray(data)) return [];
+  const out: Array<[string, number]> = [];
+  for (const d of data) {
+    if (!isObj(d) || typeof d.calendarDate !== 'string') continue;
+    const local = gmtMs(d.wellnessStartTimeLocal), gmt = gmtMs(d.wellnessStartTimeGmt);
+    if (local != null && gmt != null) out.push([d.calendarDate, Math.round((local - gmt) / 60_000)]);
+  }
+  return out;
+}
+
+/** The TOTAL entry of a UDS aggregator list (allDayStress), else the first one. */
+function totalAggregate(list: unknown): Json | undefined {
+  if (!Array.isArray(list)) return undefined;
+  const entries = list.filter(isObj);
+  return entries.find((e) => e.type === 'TOTAL') ?? entries[0];
+}
+
+/** Daily summaries (UDSFile_*.json): steps, resting HR, all-day stress, Body Battery. */
+function dailyFromJson(data: unknown): WellnessDay[] {
+  if (!Array.isArray(data)) return [];
+  const out: WellnessDay[] = [];
+  for (const d of data) {
+    if (!isObj(d) || typeof d.calendarDate !== 'string') continue;
+    const stress = isObj(d.allDayStress) ? totalAggregate(d.allDayStress.aggregatorList) : undefined;
+    const bb = isObj(d.bodyBattery) ? d.bodyBattery : undefined;
+    const bbStats = bb && Array.isArray(bb.bodyBatteryStatList) ? bb.bodyBatteryStatList.filter(isObj) : [];
+    const bbStat = (type: string) => num(bbStats.find((e) => e.bodyBatteryStatType === type)?.statsValue);
+    const positive = (v: number | undefined) => (v != null && v > 0 ? v : undefined);
+    out.push({
+      date: d.calendarDate,
+      steps: positive(num(d.totalSteps)),
+      restingHr: positive(num(d.restingHeartRate)),
+      // Garmin uses -1/-2 for "not enough data" stress readings.
+      avgStress: positive(num(stress?.averageStressLevel)),
+      maxStress: positive(num(stress?.maxStressLevel)),
+      bodyBatteryHigh: positive(bbStat('HIGHEST')),
+      bodyBatteryLow: positive(bbStat('LOWEST')),
+      bodyBatteryCharged: positive(num(bb?.chargedValue)),
+      bodyBatteryDrained: positive(num(bb?.drainedValue)),
+    });
+  }
+  return out;
+}
+
+const HRV_STATUSES: Record<string, HrvStatus> = { BALANCED: 'balanced', UNBALANCED: 'unbalanced', LOW: 'low', POOR: 'poor' };
+
+/** HRV status summaries: `[{ hrvSummary: {...} }]` or the summaries themselves. */
+function hrvFromJson(data: unknown): WellnessDay[] {
+  if (!Array.isArray(data)) return [];
+  const out: WellnessDay[] = [];
+  for (const item of data) {
+    const d = isObj(item) && isObj(item.hrvSummary) ? item.hrvSummary : item;
+    if (!isObj(d) || typeof d.calendarDate !== 'string') continue;
+    const baseline = isObj(d.baseline) ? d.baseline : undefined;
+    out.push({
+      date: d.calendarDate,
+      hrvOvernight: num(d.lastNightAvg),
+      hrvWeeklyAvg: num(d.weeklyAvg),
+      hrvBaselineLow: num(baseline?.balancedLow),
+      hrvBaselineHigh: num(baseline?.balancedUpper),
+      hrvStatus: typeof d.status === 'string' ? HRV_STATUSES[d.status.toUpperCase()] : undefined,
+    });
+  }
+  return out;
+}
+
+/* ----------------------------- Reader ----------------------------- */
+
+/**
+ * A track with only what the consumers read: time, position, altitude, distance, HR and
+ * power. Speed and cadence are dropped (see TrackPoint).
+ */
+function thinTrack(file: ActivityFile): ActivityFile {
+  const track = file.track.map((p) => {
+    const q: TrackPoint = { time: p.time };
+    if (p.lat != null && p.lon != null) { q.lat = p.lat; q.lon = p.lon; }
+    if (p.altM != null) q.altM = p.altM;
+    if (p.distM != null) q.distM = p.distM;
+    if (p.hr != null) q.hr = p.hr;
+    if (p.power != null) q.power = p.power;
+    return q;
+  });
+  return { row: file.row, track };
+}
+
+// formatCsvDateTime strings sort chronologically as text.
+const newestFirst = (a: ActivityFile, b: ActivityFile) => String(b.row['Date'] ?? '').localeCompare(String(a.row['Date'] ?? ''));
+
+/** Read a Garmin account archive and route every recognised entry to its parser. */
+export async function readGarminArchive(file: File | Blob): Promise<GarminArchive> {
+  const activities: CsvRow[] = [];
+  const wellness: WellnessDay[] = [];
+  const nights: SleepNight[] = [];
+  let weights: WeightEntry[] = [];
+  const utcOffsets = new Map<string, number>();
+  let tracks: ActivityFile[] = [];
+  const deviceRows: CsvRow[] = [];
+  let tracksSkipped = 0;
+  // Device files (and the nested ZIPs that hold them) are read after the JSON.
+  const deferred: JSZip.JSZipObject[] = [];
+
+  const readEntries = async (zip: JSZip): Promise<void> => {
+    const entries: JSZip.JSZipObject[] = [];
+    zip.forEach((_, entry) => { if (!entry.dir) entries.push(entry); });
+
+    for (const entry of entries) {
+      const kind = classifyEntry(entry.name);
+      if (!kind) continue;
+      if (kind === 'device' || kind === 'zip') { deferred.push(entry); continue; }
+      try {
+        const data: unknown = JSON.parse(await entry.async('string'));
+        if (kind === 'activities') activities.push(...activitiesFromJson(data));
+        else if (kind === 'sleep') nights.push(...sleepFromJson(data));
+        else if (kind === 'hrv') wellness.push(...hrvFromJson(data));
+        else if (kind === 'weight') weights = mergeWeightEntries(weights, weightFromJson(data));
+        else {
+          wellness.push(...dailyFromJson(data));
+          for (const [date, offset] of utcOffsetsFromJson(data)) utcOffsets.set(date, offset);
+        }
+      } catch (err) {
+        console.warn(`Skipping unreadable archive entry ${entry.name}`, err);
+      }
+    }
+  };
+
+  await readEntries(await JSZip.loadAsync(file));
+
+  // Uploaded device files ship as nested ZIPs, one level deep.
+  for (const entry of deferred.filter((e) => classifyEntry(e.name) === 'zip')) {
+    try {
+      await readEntries(await JSZip.loadAsync(await entry.async('arraybuffer')));
+    } catch (err) {
+      console.warn(`Skipping unreadable nested archive ${entry.name}`, err);
+    }
+  }
+  // Keep the newest tracks as we go, so memory stays bounded however many files there are.
+  const trimTracks = () => {
+    if (tracks.length <= MAX_ARCHIVE_TRACKS) return;
+    tracks.sort(newestFirst);
+    tracksSkipped += tracks.length - MAX_ARCHIVE_TRACKS;
+    tracks = tracks.slice(0, MAX_ARCHIVE_TRACKS);
+  };
+  const devices = deferred.filter((e) => classifyEntry(e.name) === 'device');
+  for (let i = 0; i < devices.length; i++) {
+    const entry = devices[i]!;
+    try {
+      for (const file of decodeDeviceFile(entry.name, await entry.async('arraybuffer'))) {
+        deviceRows.push(file.row);
+        tracks.push(thinTrack(file));
+      }
+    } catch (err) {
+      console.warn(`Skipping unreadable device file ${entry.name}`, err);
+    }
+    if (tracks.length >= MAX_ARCHIVE_TRACKS * 1.2) trimTracks();
+    if (i % YIELD_EVERY === YIELD_EVERY - 1) await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  trimTracks();
+
+  for (const { day, startMs, endMs } of nights) {
+    const offset = utcOffsets.get(day.date);
+    if (startMs != null) day.bedtime = localClockMinutes(startMs, offset);
+    if (endMs != null) day.wakeTime = localClockMinutes(endMs, offset);
+    wellness.push(day);
+  }
+
+  return {
+    // Summaries cover every activity; device files stand in when there are none.
+    activities: activities.length ? activities : deviceRows,
+    tracks,
+    tracksSkipped,
+    // Sleep and daily summaries share calendar dates; merge them field by field.
+    wellness: [...mergeWellnessDays(null, wellness).values()],
+    weights,
+  };
+}
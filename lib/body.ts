@@ -0,0 +1,178 @@
+// lib/body.ts — Weight and body composition: Index scale / manual weigh-ins for a year.
+//
+// Reads Garmin Connect's Weight export (Health Stats → Weight → Export) and the account
+// archive's weight JSON. The CSV lists each date on a row of its own followed by one
+// row per weigh-in time ("6:45 AM", "80.2 kg", …); plain one-row-per-day files work too.
+// Everything is stored in kg — the unit is read from each cell ("176.8 lbs") — and a
+// day with several weigh-ins keeps their average.
+
+import type { BodyComposition, WeightEntry } from './types';
+import { toStringSafe, parseNumber } from './parse';
+import { normalizeKey } from './activity-columns';
+import { isoDay, parseDayLabel } from './wellness-days';
+
+export const KG_PER_LB = 0.45359237;
+
+const MIN_KG = 20, MAX_KG = 400;
+
+type Measure = 'weightKg' | 'bodyFatPct' | 'muscleMassKg' | 'bmi';
+
+// Header names (English, German, French, Spanish, Dutch), most specific first.
+const COLUMN_PATTERNS: Array<{ field: Measure; re: RegExp }> = [
+  { field: 'bodyFatPct', re: /bodyfat|korperfett|graissecorporelle|grasacorporal|lichaamsvet/ },
+  { field: 'muscleMassKg', re: /muscle|muskel|musculaire|muscular|spier/ },
+  { field: 'bmi', re: /^bmi$|^imc$/ },
+  { field: 'weightKg', re: /^weight$|^gewicht$|^poids$|^peso$/ },
+];
+
+/** A mass cell in kg: the cell's own unit wins, else the file's. */
+function massKg(v: unknown, fallbackUnit: 'kg' | 'lb'): number | undefined {
+  const s = toStringSafe(v);
+  if (!s || s === '--') return undefined;
+  const n = parseNumber(s);
+  if (!(n > 0)) return undefined;
+  const unit = /lb/i.test(s) ? 'lb' : /kg/i.test(s) ? 'kg' : fallbackUnit;
+  return unit === 'lb' ? n * KG_PER_LB : n;
+}
+
+type DayAcc = Record<Measure, { sum: number; n: number }>;
+
+function averageDays(byDay: Map<string, DayAcc>): WeightEntry[] {
+  const avg = (a: { sum: number; n: number }) => (a.n ? a.sum / a.n : undefined);
+  return [...byDay.entries()]
+    .map(([date, acc]) => ({
+      date,
+      weightKg: avg(acc.weightKg)!,
+      bodyFatPct: avg(acc.bodyFatPct),
+      muscleMassKg: avg(acc.muscleMassKg),
+      bmi: avg(acc.bmi),
+    }))
+    .filter((e) => e.weightKg >= MIN_KG && e.weightKg <= MAX_KG)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function addMeasure(byDay: Map<string, DayAcc>, date: string, field: Measure, value: number | undefined) {
+  if (value == null) return;
+  const acc = byDay.get(date) ?? { weightKg: { sum: 0, n: 0 }, bodyFatPct: { sum: 0, n: 0 }, muscleMassKg: { sum: 0, n: 0 }, bmi: { sum: 0, n: 0 } };
+  acc[field].sum += value; acc[field].n += 1;
+  byDay.set(date, acc);
+}
+
+/**
+ * Map a Weight export to one entry per day, or [] when the grid isn't one (no weight
+ * column). `fallbackUnit` applies only to cells and headers that don't name a unit.
+ */
+export function mapWeightRows(rows2D: unknown[][], fallbackUnit: 'kg' | 'lb'): WeightEntry[] {
+  if (rows2D.length < 2) return [];
+  const rawHeader = (rows2D[0] as unknown[]).map(toStringSafe);
+  const header = rawHeader.map((h) => normalizeKey(h.replace(/\(.*\)/, '')));
+  const columns: Array<{ idx: number; field: Measure }> = [];
+  header.forEach((h, idx) => {
+    if (idx === 0 || !h) return;
+    const match = COLUMN_PATTERNS.find((p) => p.re.test(h));
+    if (match && !columns.some((c) => c.field === match.field)) columns.push({ idx, field: match.field });
+  });
+  const weightCol = columns.find((c) => c.field === 'weightKg');
+  if (!weightCol) return [];
+  const fileUnit = /\blbs?\b/i.test(rawHeader[weightCol.idx]!) ? 'lb' : /\bkg\b/i.test(rawHeader[weightCol.idx]!) ? 'kg' : fallbackUnit;
+
+  const byDay = new Map<string, DayAcc>();
+  let current: string | null = null;
+  for (const r of rows2D.slice(1) as unknown[][]) {
+    if (!Array.isArray(r)) continue;
+    // A date row sets the day for the time rows under it (and may carry values itself).
+    const date = parseDayLabel(r[0]);
+    if (date) current = date;
+    if (!current) continue;
+    for (const { idx, field } of columns) {
+      if (field === 'weightKg' || field === 'muscleMassKg') addMeasure(byDay, current, field, massKg(r[idx], fileUnit));
+      else {
+        const n = parseNumber(r[idx]);
+        addMeasure(byDay, current, field, n > 0 ? n : undefined);
+      }
+    }
+  }
+  return averageDays(byDay);
+}
+
+type Json = Record<string, unknown>;
+const isObj = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+const num = (v: unknown): number | undefined => (typeof v === 'number' && Number.isFinite(v) ? v : undefined);
+/** Archive masses are grams; anything that already looks like kg passes through. */
+const gramsToKg = (v: unknown): number | undefined => { const n = num(v); return n == null ? undefined : n > 1000 ? n / 1000 : n; };
+
+/** Weight JSON from the account archive: a list of samples, possibly nested under a wrapper key. */
+export function weightFromJson(data: unknown): WeightEntry[] {
+  const samples: Json[] = [];
+  const visit = (v: unknown, depth: number): void => {
+    if (Array.isArray(v)) { v.forEach((x) => visit(x, depth + 1)); return; }
+    if (!isObj(v) || depth > 3) return;
+    if (num(v.weight) != null) { samples.push(v); return; }
+    Object.values(v).forEach((x) => visit(x, depth + 1));
+  };
+  visit(data, 0);
+
+  const byDay = new Map<string, DayAcc>();
+  for (const s of samples) {
+    const ms = num(s.date) ?? num(s.timestampGMT);
+    const date = typeof s.calendarDate === 'string' ? s.calendarDate.slice(0, 10) : ms != null ? isoDay(new Date(ms)) : null;
+    if (!date) continue;
+    addMeasure(byDay, date, 'weightKg', gramsToKg(s.weight));
+    addMeasure(byDay, date, 'bodyFatPct', num(s.bodyFat));
+    addMeasure(byDay, date, 'muscleMassKg', gramsToKg(s.muscleMass));
+    addMeasure(byDay, date, 'bmi', num(s.bmi));
+  }
+  return averageDays(byDay);
+}
+
+/** Merge weigh-ins by date; a later upload replaces the same day. */
+export function mergeWeightEntries(prev: WeightEntry[] | null, next: WeightEntry[]): WeightEntry[] {
+  const byDate = new Map((prev ?? []).map((e) => [e.date, e]));
+  for (const e of next) byDate.set(e.date, e);
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Years with any weigh-in, ascending. */
+export function weightYears(entries: WeightEntry[]): number[] {
+  return [...new Set(entries.map((e) => parseInt(e.date.slice(0, 4), 10)))].sort((a, b) => a - b);
+}
+
+function monthlyMeans(entries: WeightEntry[], value: (e: WeightEntry) => number | undefined): Array<number | null> {
+  const sums = Array<number>(12).fill(0), counts = Array<number>(12).fill(0);
+  for (const e of entries) {
+    const v = value(e);
+    if (v == null) continue;
+    const m = parseInt(e.date.slice(5, 7), 10) - 1;
+    sums[m]! += v; counts[m]! += 1;
+  }
+  return sums.map((s, i) => (counts[i] ? s / counts[i]! : null));
+}
+
+/** Body composition for one calendar year, or null with no weigh-ins that year. */
+export function computeBodyComposition(entries: WeightEntry[], year: number): BodyComposition | null {
+  const inYear = entries.filter((e) => e.date.startsWith(`${year}-`)).sort((a, b) => a.date.localeCompare(b.date));
+  if (!inYear.length) return null;
+
+  const first = inYear[0]!, last = inYear[inYear.length - 1]!;
+  const point = (e: WeightEntry) => ({ date: e.date, kg: e.weightKg });
+  const min = inYear.reduce((a, b) => (b.weightKg < a.weightKg ? b : a));
+  const max = inYear.reduce((a, b) => (b.weightKg > a.weightKg ? b : a));
+
+  const fat = inYear.filter((e) => e.bodyFatPct != null);
+  const muscle = inYear.filter((e) => e.muscleMassKg != null);
+
+  return {
+    weighIns: inYear.length,
+    start: point(first),
+    end: point(last),
+    min: point(min),
+    max: point(max),
+    changeKg: last.weightKg - first.weightKg,
+    bodyFat: fat.length >= 2
+      ? { start: fat[0]!.bodyFatPct!, end: fat[fat.length - 1]!.bodyFatPct!, change: fat[fat.length - 1]!.bodyFatPct! - fat[0]!.bodyFatPct! }
+      : null,
+    muscleChangeKg: muscle.length >= 2 ? muscle[muscle.length - 1]!.muscleMassKg! - muscle[0]!.muscleMassKg! : null,
+    monthlyKg: monthlyMeans(inYear, (e) => e.weightKg),
+    monthlyBodyFat: monthlyMeans(inYear, (e) => e.bodyFatPct),
+  };
+}
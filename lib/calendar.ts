@@ -0,0 +1,144 @@
+// lib/calendar.ts — Day-by-day training calendar for one year (the contributions-style heatmap).
+//
+// computeMetrics only keeps which days had an activity, for the streak. This keeps every
+// session with its sport, time, distance and load, laid out as Monday-first week columns,
+// so the heatmap can switch sport and measure without going back to the rows.
+
+import type { CsvRow, UnitHint, UnitSystem } from './types';
+import { parseDateWithLocale, parseTimeToSeconds, toStringSafe } from './parse';
+import { canonicalizeActivityType, recordDistanceUnit, toActivityRecord } from './activity-columns';
+import { swimDistanceMeters } from './swim';
+import { MILE_M } from './constants';
+import { normalizeDistanceToMiles } from './normalize';
+import { activityLoad } from './load';
+import { isoDay } from './wellness-days';
+
+export type CalendarSport = 'run' | 'bike' | 'swim' | 'other';
+export type CalendarMetric = 'duration' | 'distance' | 'load';
+
+export type CalendarSession = {
+  sport: CalendarSport;
+  type: string;              // canonical activity type
+  title: string;
+  seconds: number;
+  distanceMi: number;        // swims converted from meters
+  load: number | null;       // null when the row can't be scored
+};
+
+export type CalendarDay = {
+  date: string;              // local "YYYY-MM-DD"
+  week: number;              // column; week 0 holds Jan 1
+  weekday: number;           // row; 0 = Monday
+  future: boolean;           // after today (current year only)
+  sessions: CalendarSession[];
+};
+
+export type TrainingCalendar = {
+  year: number;
+  weeks: number;             // 53 most years, 54 when Dec 31 spills into an extra column
+  days: CalendarDay[];       // Jan 1 .. Dec 31
+};
+
+export type CalendarCell = CalendarDay & {
+  shown: CalendarSession[];  // sessions matching the sport filter
+  value: number;             // summed seconds, miles or load
+  level: 0 | 1 | 2 | 3 | 4;  // 0 = rest; 1–4 by quartile of the active days
+};
+
+export type CalendarView = {
+  cells: CalendarCell[];
+  activeDays: number;
+  restDays: number;          // days so far with nothing shown, inside the active season
+  missedWeeks: number[];     // week columns with nothing shown, inside the active season
+};
+
+
+/** Canonical activity type → the sport filters used by the calendar and weekly charts. */
+export const calendarSportOf = (type: string): CalendarSport =>
+  type === 'Running' ? 'run' : type === 'Cycling' ? 'bike' : type === 'Swimming' ? 'swim' : 'other';
+
+/** Every day of `year` with its sessions, or null when the year has no dated activity. */
+export function computeTrainingCalendar(
+  rows: CsvRow[],
+  year: number,
+  unitSystem: UnitSystem,
+  unitHints: { distance: UnitHint; ascent: UnitHint; elevation: UnitHint },
+  hr: { restHr: number; maxHr: number }
+): TrainingCalendar | null {
+  const byDay = new Map<string, CalendarSession[]>();
+  const recordUnit = recordDistanceUnit(unitHints.distance, unitSystem);
+  for (const row of rows) {
+    const date = parseDateWithLocale(row['Date']);
+    if (!date || date.getFullYear() !== year) continue;
+    const type = canonicalizeActivityType(toStringSafe(row['Activity Type']));
+    const sport = calendarSportOf(type);
+    const list = byDay.get(isoDay(date)) ?? [];
+    list.push({
+      sport,
+      type,
+      title: toStringSafe(row['Title']) || type || 'Activity',
+      seconds: parseTimeToSeconds(row['Time'] ?? row['Moving Time'] ?? row['Elapsed Time']),
+      // Swim distance is meters, yard pools converted (as in computeMetrics).
+      distanceMi: sport === 'swim'
+        ? swimDistanceMeters(row, toActivityRecord(row, recordUnit), unitHints.distance === 'm') / MILE_M
+        : normalizeDistanceToMiles(row['Distance'], type, unitHints.distance, unitSystem),
+      load: activityLoad(row, hr)?.load ?? null,
+    });
+    byDay.set(isoDay(date), list);
+  }
+  if (!byDay.size) return null;
+
+  const today = isoDay(new Date());
+  const lead = (new Date(year, 0, 1).getDay() + 6) % 7;   // Jan 1's weekday, Monday = 0
+  const days: CalendarDay[] = [];
+  for (let i = 0; new Date(year, 0, 1 + i).getFullYear() === year; i++) {
+    const date = isoDay(new Date(year, 0, 1 + i));
+    days.push({
+      date,
+      week: Math.floor((i + lead) / 7),
+      weekday: (i + lead) % 7,
+      future: date > today,
+      sessions: byDay.get(date) ?? [],
+    });
+  }
+  return { year, weeks: days[days.length - 1]!.week + 1, days };
+}
+
+function valueOf(sessions: CalendarSession[], metric: CalendarMetric): number {
+  return sessions.reduce(
+    (sum, s) => sum + (metric === 'duration' ? s.seconds : metric === 'distance' ? s.distanceMi : s.load ?? 0),
+    0
+  );
+}
+
+/**
+ * The calendar for one sport ("all" for every session) and measure. Days with a session
+ * but nothing to measure (a strength session by distance) still count as level 1. Rest
+ * days and missed weeks only count between the first and last shown session.
+ */
+export function calendarView(cal: TrainingCalendar, sport: CalendarSport | 'all', metric: CalendarMetric): CalendarView {
+  const cells = cal.days.map((d) => {
+    const shown = sport === 'all' ? d.sessions : d.sessions.filter((s) => s.sport === sport);
+    return { ...d, shown, value: valueOf(shown, metric), level: 0 as CalendarCell['level'] };
+  });
+
+  const active = cells.filter((c) => c.shown.length);
+  const sorted = active.map((c) => c.value).filter((v) => v > 0).sort((a, b) => a - b);
+  const q = (f: number) => sorted[Math.floor((sorted.length - 1) * f)] ?? 0;
+  const [q1, q2, q3] = [q(0.25), q(0.5), q(0.75)];
+  for (const c of active) c.level = c.value > q3 ? 4 : c.value > q2 ? 3 : c.value > q1 ? 2 : 1;
+
+  if (!active.length) return { cells, activeDays: 0, restDays: 0, missedWeeks: [] };
+  const first = active[0]!.date, last = active[active.length - 1]!.date;
+  const season = cells.filter((c) => !c.future && c.date >= first && c.date <= last);
+  const missedWeeks: number[] = [];
+  for (let w = active[0]!.week; w <= active[active.length - 1]!.week; w++) {
+    if (!season.some((c) => c.week === w && c.shown.length)) missedWeeks.push(w);
+  }
+  return {
+    cells,
+    activeDays: active.length,
+    restDays: season.filter((c) => !c.shown.length).length,
+    missedWeeks,
+  };
+}
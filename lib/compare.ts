@@ -7,6 +7,7 @@
 import type { CsvRow, Metrics, UnitHint, UnitSystem } from './types';
 import { parseDateWithLocale } from './parse';
 import { computeMetrics } from './metrics';
+import { detectRaces, racesInYear } from './races';
 
 export type MetricDelta = {
   current: number;
@@ -30,6 +31,8 @@ export type YearComparison = {
     swimMeters: MetricDelta;
     /** Running pace in seconds per mile (lower is faster); abs < 0 means improvement. */
     runPaceSecPerMi: MetricDelta;
+    /** Likely races (lib/races), classified against the full history's pace baseline. */
+    races: MetricDelta;
   };
 };
 
@@ -91,6 +94,7 @@ export function compareYears(
 
   const current = computeMetrics(byYear.get(currentYear)!, unitSystem, unitHints);
   const prior = computeMetrics(byYear.get(priorYear)!, unitSystem, unitHints);
+  const races = detectRaces(rows, unitSystem, unitHints);
 
   return {
     currentYear,
@@ -106,6 +110,7 @@ export function compareYears(
       bikeDistanceMi: delta(current.bikeDistanceMi ?? 0, prior.bikeDistanceMi ?? 0),
       swimMeters: delta(current.swimMeters ?? 0, prior.swimMeters ?? 0),
       runPaceSecPerMi: delta(runPaceSecPerMi(current), runPaceSecPerMi(prior)),
+      races: delta(racesInYear(races, currentYear).length, racesInYear(races, priorYear).length),
     },
   };
 }
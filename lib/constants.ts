@@ -5,3 +5,5 @@ export const MARATHON_MI = 26.2188;
 export const FIVEK_MI = 3.10686;
 export const EVEREST_FT = 29032;
 export const FEET_PER_STEP = 2.3;
+export const YARD_M = 0.9144;
+export const MILE_M = 1609.34;
@@ -0,0 +1,38 @@
+// lib/device-files.ts — One entry point for per-activity device files (.fit / .gpx / .tcx).
+// Used by the Activities upload and the account-archive reader so both accept the same set.
+
+import type { ActivityFile } from './types';
+import { bestPowerForDuration } from './records';
+import { decodeFitActivities, isFitFileName } from './fit';
+import { parseGpx, isGpxFileName } from './gpx';
+import { parseTcx, isTcxFileName } from './tcx';
+
+export function isDeviceFileName(name: string): boolean {
+  return isFitFileName(name) || isGpxFileName(name) || isTcxFileName(name);
+}
+
+/** Decode a device file's bytes, dispatching on its extension. */
+export function decodeDeviceFile(name: string, data: ArrayBuffer): ActivityFile[] {
+  return decodeByExtension(name, data).map(withBest20MinPower);
+}
+
+function decodeByExtension(name: string, data: ArrayBuffer): ActivityFile[] {
+  if (isFitFileName(name)) return decodeFitActivities(data);
+  const text = new TextDecoder('utf-8').decode(data);
+  if (isGpxFileName(name)) return parseGpx(text);
+  if (isTcxFileName(name)) return parseTcx(text);
+  return [];
+}
+
+/** Fill the CSV's "Max Avg Power (20 min)" from the power stream (it feeds the FTP estimate). */
+function withBest20MinPower(file: ActivityFile): ActivityFile {
+  if (file.row['Max Avg Power (20 min)'] != null) return file;
+  const best = bestPowerForDuration(file.track, 20 * 60);
+  if (best != null) file.row['Max Avg Power (20 min)'] = Math.round(best);
+  return file;
+}
+
+/** Promise-based wrapper that reads a local File (mirrors parseCsvFile). */
+export async function parseDeviceFile(file: File): Promise<ActivityFile[]> {
+  return decodeDeviceFile(file.name, await file.arrayBuffer());
+}
@@ -0,0 +1,334 @@
+// lib/fit.ts — Native Garmin .fit decoder (device activity files → CsvRow + track samples).
+//
+// Reads the binary FIT protocol directly (no SDK dependency): file headers, definition
+// and data messages, compressed-timestamp headers, chained files, and developer fields
+// (skipped). Only activity, session, lap and record messages are kept. Each session
+// becomes one row keyed like the Activities CSV (see mapActivityRowsByIndex), so
+// computeMetrics, computeTrends and compareYears consume it unchanged; the extra FIT
+// fields ride along under Garmin's CSV header names. The Date is the watch's wall-clock
+// time (the activity message's local_timestamp), so a race abroad keeps its local start.
+//
+// Everything is written in metric units — pair these rows with METRIC_FILE_UNIT_HINTS.
+
+import type { ActivityFile, CsvRow, TrackPoint } from './types';
+import { formatCsvDateTime, formatCsvDuration, round2 } from './format';
+
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31); // 1989-12-31T00:00:00Z
+const SEMICIRCLE_TO_DEG = 180 / 2 ** 31;
+
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_ACTIVITY = 34;
+const FIELD_TIMESTAMP = 253;
+const FIELD_LOCAL_TIMESTAMP = 5;   // activity message
+
+type FieldValue = number | string;
+type Message = Record<number, FieldValue>;
+
+type FieldDef = { num: number; size: number; baseType: number };
+type MessageDef = { globalNum: number; littleEndian: boolean; fields: FieldDef[]; devBytes: number };
+
+type BaseType = { size: number; invalid: number; read: (v: DataView, o: number, le: boolean) => number };
+
+// Keyed by the low 5 bits of the base-type byte. 64-bit integers are never needed here.
+const BASE_TYPES: Record<number, BaseType> = {
+  0:  { size: 1, invalid: 0xff,       read: (v, o) => v.getUint8(o) },          // enum
+  1:  { size: 1, invalid: 0x7f,       read: (v, o) => v.getInt8(o) },           // sint8
+  2:  { size: 1, invalid: 0xff,       read: (v, o) => v.getUint8(o) },          // uint8
+  3:  { size: 2, invalid: 0x7fff,     read: (v, o, le) => v.getInt16(o, le) },  // sint16
+  4:  { size: 2, invalid: 0xffff,     read: (v, o, le) => v.getUint16(o, le) }, // uint16
+  5:  { size: 4, invalid: 0x7fffffff, read: (v, o, le) => v.getInt32(o, le) },  // sint32
+  6:  { size: 4, invalid: 0xffffffff, read: (v, o, le) => v.getUint32(o, le) }, // uint32
+  8:  { size: 4, invalid: NaN,        read: (v, o, le) => v.getFloat32(o, le) },// float32
+  9:  { size: 8, invalid: NaN,        read: (v, o, le) => v.getFloat64(o, le) },// float64
+  10: { size: 1, invalid: 0,          read: (v, o) => v.getUint8(o) },          // uint8z
+  11: { size: 2, invalid: 0,          read: (v, o, le) => v.getUint16(o, le) }, // uint16z
+  12: { size: 4, invalid: 0,          read: (v, o, le) => v.getUint32(o, le) }, // uint32z
+  13: { size: 1, invalid: 0xff,       read: (v, o) => v.getUint8(o) },          // byte
+};
+
+const utf8 = new TextDecoder('utf-8');
+
+function readField(view: DataView, offset: number, f: FieldDef, le: boolean): FieldValue | undefined {
+  const bt = f.baseType & 0x1f;
+  if (bt === 7) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, f.size);
+    const end = bytes.indexOf(0);
+    const s = utf8.decode(end >= 0 ? bytes.subarray(0, end) : bytes).trim();
+    return s || undefined;
+  }
+  const t = BASE_TYPES[bt];
+  // Arrays (size > base size) are only used by fields we ignore; read scalars only.
+  if (!t || f.size !== t.size) return undefined;
+  const v = t.read(view, offset, le);
+  if (!Number.isFinite(v) || v === t.invalid) return undefined;
+  return v;
+}
+
+type FitMessages = { activities: Message[]; sessions: Message[]; laps: Message[]; records: Message[] };
+
+/** Walk every record in a (possibly chained) FIT file, keeping the messages we use. */
+function decodeMessages(buffer: ArrayBuffer): FitMessages {
+  const view = new DataView(buffer);
+  const out: FitMessages = { activities: [], sessions: [], laps: [], records: [] };
+  let pos = 0;
+
+  while (pos + 12 <= view.byteLength) {
+    const headerSize = view.getUint8(pos);
+    const dataSize = view.getUint32(pos + 4, true);
+    const magic = String.fromCharCode(
+      view.getUint8(pos + 8), view.getUint8(pos + 9), view.getUint8(pos + 10), view.getUint8(pos + 11),
+    );
+    if (magic !== '.FIT' || headerSize < 12) {
+      if (pos === 0) throw new Error('Not a FIT file.');
+      break; // trailing bytes after the last chained file
+    }
+
+    const end = Math.min(pos + headerSize + dataSize, view.byteLength);
+    const defs = new Map<number, MessageDef>();
+    let lastTimestamp = 0;
+    let o = pos + headerSize;
+
+    while (o < end) {
+      const header = view.getUint8(o++);
+      let local: number;
+      let compressedTs: number | null = null;
+
+      if (header & 0x80) {
+        // Compressed timestamp header: 5-bit offset rolled onto the last full timestamp.
+        local = (header >> 5) & 0x03;
+        const offset = header & 0x1f;
+        let ts = (lastTimestamp & ~0x1f) + offset;
+        if (offset < (lastTimestamp & 0x1f)) ts += 0x20;
+        compressedTs = ts;
+        lastTimestamp = ts;
+      } else if (header & 0x40) {
+        local = header & 0x0f;
+        const littleEndian = view.getUint8(o + 1) === 0;
+        const globalNum = view.getUint16(o + 2, littleEndian);
+        const numFields = view.getUint8(o + 4);
+        o += 5;
+        const fields: FieldDef[] = [];
+        for (let i = 0; i < numFields; i++, o += 3) {
+          fields.push({ num: view.getUint8(o), size: view.getUint8(o + 1), baseType: view.getUint8(o + 2) });
+        }
+        let devBytes = 0;
+        if (header & 0x20) {
+          const numDev = view.getUint8(o++);
+          for (let i = 0; i < numDev; i++, o += 3) devBytes += view.getUint8(o + 1);
+        }
+        defs.set(local, { globalNum, littleEndian, fields, devBytes });
+        continue;
+      } else {
+        local = header & 0x0f;
+      }
+
+      const def = defs.get(local);
+      if (!def) throw new Error(`FIT data message without a definition (local ${local}).`);
+
+      const keep = def.globalNum === MESG_SESSION || def.globalNum === MESG_LAP || def.globalNum === MESG_RECORD
+        || def.globalNum === MESG_ACTIVITY;
+      const msg: Message = {};
+      for (const f of def.fields) {
+        if (o + f.size > view.byteLength) return out;
+        if (keep || f.num === FIELD_TIMESTAMP) {
+          const v = readField(view, o, f, def.littleEndian);
+          if (v !== undefined) msg[f.num] = v;
+        }
+        o += f.size;
+      }
+      o += def.devBytes;
+
+      const ts = msg[FIELD_TIMESTAMP];
+      if (typeof ts === 'number') lastTimestamp = ts;
+      else if (compressedTs != null) msg[FIELD_TIMESTAMP] = compressedTs;
+
+      if (def.globalNum === MESG_SESSION) out.sessions.push(msg);
+      else if (def.globalNum === MESG_LAP) out.laps.push(msg);
+      else if (def.globalNum === MESG_RECORD) out.records.push(msg);
+      else if (def.globalNum === MESG_ACTIVITY) out.activities.push(msg);
+    }
+
+    pos = end + 2; // skip the file CRC
+  }
+
+  return out;
+}
+
+/* ----------------------------- Profile lookups ----------------------------- */
+
+const SPORT_LABELS: Record<number, string> = {
+  0: 'Other', 1: 'Running', 2: 'Cycling', 4: 'Fitness Equipment', 5: 'Swimming',
+  10: 'Training', 11: 'Walking', 12: 'Cross Country Skiing', 13: 'Resort Skiing',
+  14: 'Snowboarding', 15: 'Rowing', 16: 'Mountaineering', 17: 'Hiking', 18: 'Multisport',
+  19: 'Paddling', 21: 'E-Biking', 30: 'Inline Skating', 31: 'Rock Climbing',
+  35: 'Snowshoeing', 37: 'Stand Up Paddleboarding', 38: 'Surfing', 41: 'Kayaking',
+  47: 'Boxing', 62: 'HIIT',
+};
+
+const SUB_SPORT_LABELS: Record<number, string> = {
+  1: 'Treadmill Running', 3: 'Trail Running', 4: 'Track Running', 5: 'Spinning',
+  6: 'Indoor Cycling', 7: 'Road Cycling', 8: 'Mountain Biking', 14: 'Indoor Rowing',
+  15: 'Elliptical', 17: 'Pool Swim', 18: 'Open Water Swimming', 20: 'Strength Training',
+  26: 'Cardio', 43: 'Yoga', 44: 'Pilates',
+};
+
+const SUB_SPORT_VIRTUAL = 58;
+
+/** Garmin Connect-style activity label (canonicalizeActivityType understands these). */
+function activityLabel(sport: number | undefined, subSport: number | undefined): string {
+  const base = SPORT_LABELS[sport ?? 0] ?? 'Other';
+  if (subSport === SUB_SPORT_VIRTUAL) return sport === 1 ? 'Virtual Running' : 'Virtual Cycling';
+  return (subSport != null && SUB_SPORT_LABELS[subSport]) || base;
+}
+
+/* ----------------------------- Row + track ----------------------------- */
+
+const num = (v: FieldValue | undefined): number | undefined => (typeof v === 'number' ? v : undefined);
+const scaled = (v: FieldValue | undefined, scale: number, offset = 0): number | undefined => {
+  const n = num(v);
+  return n == null ? undefined : n / scale - offset;
+};
+
+function toTrackPoint(r: Message): TrackPoint | null {
+  const ts = num(r[FIELD_TIMESTAMP]);
+  if (ts == null) return null;
+  const lat = num(r[0]), lon = num(r[1]);
+  const p: TrackPoint = { time: FIT_EPOCH_MS + ts * 1000 };
+  if (lat != null && lon != null) { p.lat = lat * SEMICIRCLE_TO_DEG; p.lon = lon * SEMICIRCLE_TO_DEG; }
+  const alt = scaled(r[78], 5, 500) ?? scaled(r[2], 5, 500); if (alt != null) p.altM = alt;
+  const dist = scaled(r[5], 100); if (dist != null) p.distM = dist;
+  const speed = scaled(r[73], 1000) ?? scaled(r[6], 1000); if (speed != null) p.speedMps = speed;
+  const hr = num(r[3]); if (hr != null) p.hr = hr;
+  const cad = num(r[4]); if (cad != null) p.cadence = cad;
+  const pow = num(r[7]); if (pow != null) p.power = pow;
+  return p;
+}
+
+/** The device's UTC offset in seconds (local_timestamp − timestamp), when it recorded one. */
+function utcOffsetSeconds(activities: Message[]): number | undefined {
+  for (const a of activities) {
+    const ts = num(a[FIELD_TIMESTAMP]), local = num(a[FIELD_LOCAL_TIMESTAMP]);
+    if (ts != null && local != null) return local - ts;
+  }
+  return undefined;
+}
+
+/** A FIT timestamp as the device's wall-clock time; without an offset, the browser's time zone stands in. */
+function localStartDate(ts: number, offsetSec: number | undefined): Date {
+  if (offsetSec == null) return new Date(FIT_EPOCH_MS + ts * 1000);
+  const u = new Date(FIT_EPOCH_MS + (ts + offsetSec) * 1000);
+  return new Date(u.getUTCFullYear(), u.getUTCMonth(), u.getUTCDate(), u.getUTCHours(), u.getUTCMinutes(), u.getUTCSeconds());
+}
+
+function sessionToRow(s: Message, laps: Message[], track: TrackPoint[], offsetSec: number | undefined): CsvRow {
+  const sport = num(s[5]);
+  const type = activityLabel(sport, num(s[6]));
+  const startTs = num(s[2]) ?? num(s[FIELD_TIMESTAMP]) ?? 0;
+  const elapsed = scaled(s[7], 1000);
+  const timer = scaled(s[8], 1000) ?? elapsed;
+  const moving = scaled(s[59], 1000);
+  const distM = scaled(s[9], 100);
+  const cycles = num(s[10]);
+  const isRunLike = sport === 1 || sport === 11 || sport === 17;
+  const isBike = sport === 2 || sport === 21;
+  const isSwim = sport === 5;
+
+  const maxAlt = scaled(s[128], 5, 500) ?? scaled(s[50], 5, 500)
+    ?? track.reduce<number | undefined>((m, p) => (p.altM != null && (m == null || p.altM > m) ? p.altM : m), undefined);
+  const minAlt = scaled(s[127], 5, 500) ?? scaled(s[71], 5, 500);
+
+  // Running cadence is stored per leg (strides/min); Garmin displays steps/min.
+  const cadence = (whole: FieldValue | undefined, frac: FieldValue | undefined) => {
+    const w = num(whole); if (w == null) return undefined;
+    const c = w + (scaled(frac, 128) ?? 0);
+    return isRunLike ? c * 2 : c;
+  };
+
+  const lengths = num(s[47]);
+  const swolf = isSwim && lengths && timer && cycles ? (timer + cycles) / lengths : undefined;
+  const poolLengthM = scaled(s[44], 100);
+
+  const lapTimes = laps.map((l) => scaled(l[8], 1000)).filter((t): t is number => t != null && t > 0);
+  const bestLap = lapTimes.length > 1 ? Math.min(...lapTimes) : undefined;
+
+  const avgSpeed = scaled(s[124], 1000) ?? scaled(s[14], 1000);
+  const maxSpeed = scaled(s[125], 1000) ?? scaled(s[15], 1000);
+  const work = num(s[48]);
+  const trainingLoad = scaled(s[168], 65536);
+
+  return {
+    'Activity Type': type,
+    'Date': formatCsvDateTime(localStartDate(startTs, offsetSec)),
+    'Title': type,
+    'Distance': round2(distM),
+    'Calories': num(s[11]) ?? null,
+    'Time': timer != null ? formatCsvDuration(timer) : null,
+    'Avg HR': num(s[16]) ?? null,
+    'Max HR': num(s[17]) ?? null,
+    'Total Ascent': num(s[22]) ?? null,
+    'Moving Time': moving != null ? formatCsvDuration(moving) : null,
+    'Elapsed Time': elapsed != null ? formatCsvDuration(elapsed) : null,
+    'Max Elevation': round2(maxAlt),
+    'Steps': isRunLike && cycles ? cycles * 2 : null,
+
+    // Extra FIT fields, named after the matching Activities CSV headers.
+    'Total Descent': num(s[23]) ?? null,
+    'Min Elevation': round2(minAlt),
+    'Avg Speed': round2(avgSpeed != null ? avgSpeed * 3.6 : undefined),   // km/h
+    'Max Speed': round2(maxSpeed != null ? maxSpeed * 3.6 : undefined),   // km/h
+    'Avg Run Cadence': isRunLike ? round2(cadence(s[18], s[92])) : null,
+    'Max Run Cadence': isRunLike ? round2(cadence(s[19], s[93])) : null,
+    'Avg Bike Cadence': isBike ? num(s[18]) ?? null : null,
+    'Max Bike Cadence': isBike ? num(s[19]) ?? null : null,
+    'Avg Stride Length': round2(scaled(s[133], 10000)),                   // m
+    'Avg Vertical Ratio': round2(scaled(s[131], 100)),                    // %
+    'Avg Vertical Oscillation': round2(scaled(s[89], 100)),               // cm
+    'Avg Ground Contact Time': round2(scaled(s[91], 10)),                 // ms
+    'Avg Power': num(s[20]) ?? null,
+    'Max Power': num(s[21]) ?? null,
+    'Normalized Power': num(s[34]) ?? null,
+    'Training Stress Score': round2(scaled(s[35], 10)),
+    'Intensity Factor': round2(scaled(s[36], 1000)),
+    'Total Work': work != null ? Math.round(work / 1000) : null,      // kJ
+    'Aerobic TE': round2(scaled(s[24], 10)),
+    'Anaerobic TE': round2(scaled(s[137], 10)),
+    'Training Load': round2(trainingLoad),
+    'Total Strokes': isSwim ? cycles ?? null : null,
+    'Avg Swolf': round2(swolf),
+    'Pool Length': round2(poolLengthM),                                    // m
+    'Pool Length Unit': poolLengthM != null ? (num(s[46]) === 1 ? 'yd' : 'm') : null,
+    'Number of Laps': num(s[26]) ?? (laps.length || null),
+    'Best Lap Time': bestLap != null ? formatCsvDuration(bestLap) : null,
+    'Min Temp': num(s[150]) ?? null,                                   // °C
+    'Max Temp': num(s[58]) ?? null,                                    // °C
+  };
+}
+
+/**
+ * Decode one .fit file into activities — normally one, several for multisport files.
+ * Non-activity FIT files (settings, monitoring, …) decode to an empty list.
+ */
+export function decodeFitActivities(buffer: ArrayBuffer): ActivityFile[] {
+  const { activities, sessions, laps, records } = decodeMessages(buffer);
+  const points = records.map(toTrackPoint).filter((p): p is TrackPoint => !!p);
+  if (!sessions.length) return [];
+  const offsetSec = utcOffsetSeconds(activities);
+
+  return sessions.map((s) => {
+    const startTs = num(s[2]);
+    const elapsed = scaled(s[7], 1000);
+    const inSession = (ts: number | undefined) =>
+      sessions.length === 1 || startTs == null || elapsed == null || ts == null
+        ? true
+        : ts >= startTs && ts <= startTs + elapsed;
+    const track = points.filter((p) => inSession((p.time - FIT_EPOCH_MS) / 1000));
+    const sessionLaps = laps.filter((l) => inSession(num(l[2])));
+    return { row: sessionToRow(s, sessionLaps, track, offsetSec), track };
+  });
+}
+
+export function isFitFileName(name: string): boolean {
+  return /\.fit$/i.test(name);
+}
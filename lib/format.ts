@@ -1,6 +1,7 @@
 // lib/format.ts — Pure display formatters (durations, pace, dates).
 
 import type { UnitSystem } from './types';
+import { YARD_M } from './constants';
 
 export function formatDurationLong(totalSeconds: number): string {
   let s = Math.round(totalSeconds);
@@ -42,6 +43,12 @@ export function formatSecondsHuman(totalSeconds: number): string {
   return formatDurationMinutesToHuman(mins);
 }
 
+/** Minutes after midnight (wrapping past 24h) as a local clock time, e.g. "11:10 PM". */
+export function formatTimeOfDay(minutes: number): string {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return new Date(2000, 0, 1, Math.floor(m / 60), m % 60).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
 export function formatDateDisplay(date: Date | null | undefined): string {
   if (!date) return '';
   return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
@@ -71,9 +78,41 @@ export function formatPacePerUnit(
   }
 }
 
+/** Stopwatch-style finish time: "22:14" under an hour, "1:42:05" above. */
+export function formatClockTime(totalSeconds: number): string {
+  const s = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(s / 3600), m = Math.floor((s % 3600) / 60), sec = s % 60;
+  const mmss = `${String(m).padStart(h ? 2 : 1, '0')}:${String(sec).padStart(2, '0')}`;
+  return h ? `${h}:${mmss}` : mmss;
+}
+
 export function formatSwimPacePer100m(totalSeconds: number, meters: number): string {
+  return formatSwimPacePer100(totalSeconds, meters, 'm');
+}
+
+/** Pace per 100 m or per 100 yd (yard pools); distance is always passed in meters. */
+export function formatSwimPacePer100(totalSeconds: number, meters: number, unit: 'm' | 'yd'): string {
   if (!totalSeconds || !meters) return '--';
-  const per100 = Math.round(totalSeconds / (meters / 100));
+  const units = unit === 'yd' ? meters / YARD_M : meters;
+  const per100 = Math.round(totalSeconds / (units / 100));
   const min = Math.floor(per100 / 60), sec = per100 % 60;
-  return `${min}:${String(sec).padStart(2, '0')}/100m`;
+  return `${min}:${String(sec).padStart(2, '0')}/100${unit}`;
+}
+
+/* ------------------- Row serialization (device files → CsvRow) ------------------- */
+
+/** Two decimals at most for a row cell: parseNumber reads "3.123" as a European thousands group. */
+export const round2 = (n: number | null | undefined): number | null => (n == null ? null : Math.round(n * 100) / 100);
+
+/** Local "YYYY-MM-DD HH:MM:SS", the shape of Garmin's CSV Date column. */
+export function formatCsvDateTime(date: Date): string {
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${p(date.getMonth() + 1)}-${p(date.getDate())} ${p(date.getHours())}:${p(date.getMinutes())}:${p(date.getSeconds())}`;
+}
+
+/** "H:MM:SS", the shape of Garmin's CSV Time columns (round-trips through parseTimeToSeconds). */
+export function formatCsvDuration(totalSeconds: number): string {
+  const s = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(s / 3600), m = Math.floor((s % 3600) / 60), sec = s % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(sec).padStart(2, '0')}`;
 }
@@ -0,0 +1,41 @@
+// lib/gpx.ts — GPX activity import (Strava, Wahoo, COROS, Garmin "Export GPX", …).
+//
+// GPX only carries samples, so every summary value is rebuilt from the trackpoints in
+// lib/track.ts. One activity per <trk>. Heart rate, cadence and power are read from the
+// common Garmin/Strava TrackPointExtension elements when present.
+
+import type { ActivityFile, TrackPoint } from './types';
+import { parseXml, xmlElements, xmlNumber, xmlText } from './parse';
+import { activityLabelFromFile, rowFromTrack, withCumulativeDistance } from './track';
+
+function toPoint(pt: Element): TrackPoint | null {
+  const time = Date.parse(xmlText(pt, 'time') ?? '');
+  if (!Number.isFinite(time)) return null;
+  const lat = parseFloat(pt.getAttribute('lat') ?? '');
+  const lon = parseFloat(pt.getAttribute('lon') ?? '');
+  const p: TrackPoint = { time };
+  if (Number.isFinite(lat) && Number.isFinite(lon)) { p.lat = lat; p.lon = lon; }
+  const ele = xmlNumber(pt, 'ele'); if (ele != null) p.altM = ele;
+  const hr = xmlNumber(pt, 'hr'); if (hr != null) p.hr = hr;
+  const cad = xmlNumber(pt, 'cad'); if (cad != null) p.cadence = cad;
+  const power = xmlNumber(pt, 'power'); if (power != null) p.power = power;
+  const speed = xmlNumber(pt, 'speed'); if (speed != null) p.speedMps = speed;
+  return p;
+}
+
+export function parseGpx(xml: string): ActivityFile[] {
+  const doc = parseXml(xml);
+  const out: ActivityFile[] = [];
+  for (const trk of xmlElements(doc, 'trk')) {
+    const points = xmlElements(trk, 'trkpt').map(toPoint).filter((p): p is TrackPoint => !!p);
+    const track = withCumulativeDistance(points);
+    const type = activityLabelFromFile(xmlText(trk, 'type', true));
+    const row = rowFromTrack(track, { type, title: xmlText(trk, 'name', true) ?? undefined });
+    if (row) out.push({ row, track });
+  }
+  return out;
+}
+
+export function isGpxFileName(name: string): boolean {
+  return /\.gpx$/i.test(name);
+}
@@ -0,0 +1,119 @@
+// lib/habits.ts — When you train: start hour by weekday, early bird vs night owl, weekends.
+//
+// Garmin's Date column is the activity's local start time, but everything else here only
+// keeps the day. Rows whose Date carries a clock time fill a 7 × 24 start-time grid and
+// the time-of-day findings; the weekend/weekday split uses every dated row. The training
+// day turns over at 03:00, so a 1 a.m. session is your latest, not your earliest.
+
+import type { CsvRow } from './types';
+import { parseDateWithLocale, parseTimeToSeconds, toStringSafe } from './parse';
+import { canonicalizeActivityType } from './activity-columns';
+import { isoDay } from './wellness-days';
+
+export type Chronotype = 'early-bird' | 'lunch-break' | 'afternoon' | 'night-owl' | 'anytime';
+
+export type HabitSession = { title: string; type: string; date: string; minutes: number };   // minutes after midnight
+
+export type DaySplit = { sessions: number; seconds: number; days: number };   // days = calendar days of that kind with a session
+
+export type Habits = {
+  timed: number;                                     // sessions with a start time
+  grid: number[][];                                  // [weekday, Monday = 0][hour] → sessions
+  peak: { weekday: number; hour: number; sessions: number };
+  chronotype: Chronotype;
+  shares: Record<'morning' | 'midday' | 'afternoon' | 'evening', number>;   // 0..1 of timed sessions
+  typicalStartMin: number;                           // median start, minutes after midnight
+  byType: Array<{ type: string; hour: number; sessions: number; timed: number }>;   // most common start hour
+  weekday: DaySplit;
+  weekend: DaySplit;
+  earliest: HabitSession;
+  latest: HabitSession;
+};
+
+const MIN_TIMED = 5;              // sessions with a clock time before any of this is shown
+const MIN_TYPE_SESSIONS = 3;      // per activity type for its favorite hour
+const MAX_TYPES = 4;
+const DAY_TURNS_AT = 3 * 60;      // 03:00
+const CHRONOTYPE_SHARE = 0.4;     // the leading part of the day needs this share
+
+const HAS_CLOCK = /\d{1,2}:\d{2}/;
+
+// Morning 04:00–10:59, midday 11:00–13:59, afternoon 14:00–17:59, evening 18:00–03:59.
+function partOfDay(minutes: number): keyof Habits['shares'] {
+  const h = Math.floor(minutes / 60);
+  return h >= 4 && h < 11 ? 'morning' : h >= 11 && h < 14 ? 'midday' : h >= 14 && h < 18 ? 'afternoon' : 'evening';
+}
+
+const CHRONOTYPE_OF: Record<keyof Habits['shares'], Chronotype> = {
+  morning: 'early-bird', midday: 'lunch-break', afternoon: 'afternoon', evening: 'night-owl',
+};
+
+/** Minutes into the training day (which starts at 03:00), for earliest/latest. */
+const dayOrder = (minutes: number) => (minutes - DAY_TURNS_AT + 1440) % 1440;
+
+/** Habits for one year's rows, or null when fewer than five carry a start time. */
+export function computeHabits(rows: CsvRow[]): Habits | null {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const timed: HabitSession[] = [];
+  const weekday: DaySplit = { sessions: 0, seconds: 0, days: 0 };
+  const weekend: DaySplit = { sessions: 0, seconds: 0, days: 0 };
+  const seenDays = new Set<string>();
+
+  for (const row of rows) {
+    const date = parseDateWithLocale(row['Date']);
+    if (!date) continue;
+    const type = canonicalizeActivityType(toStringSafe(row['Activity Type'])) || 'Other';
+    const split = date.getDay() === 0 || date.getDay() === 6 ? weekend : weekday;
+    split.sessions += 1;
+    split.seconds += parseTimeToSeconds(row['Time'] ?? row['Moving Time'] ?? row['Elapsed Time']);
+    if (!seenDays.has(isoDay(date))) { seenDays.add(isoDay(date)); split.days += 1; }
+
+    // A bare "2025-03-04" parses as UTC midnight; only trust cells that spell out a time.
+    if (!HAS_CLOCK.test(toStringSafe(row['Date']))) continue;
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    grid[(date.getDay() + 6) % 7]![date.getHours()]! += 1;
+    timed.push({ title: toStringSafe(row['Title']) || type, type, date: isoDay(date), minutes });
+  }
+  if (timed.length < MIN_TIMED) return null;
+
+  let peak = { weekday: 0, hour: 0, sessions: 0 };
+  grid.forEach((hours, wd) => hours.forEach((n, h) => { if (n > peak.sessions) peak = { weekday: wd, hour: h, sessions: n }; }));
+
+  const shares = { morning: 0, midday: 0, afternoon: 0, evening: 0 };
+  for (const s of timed) shares[partOfDay(s.minutes)] += 1 / timed.length;
+  const [lead, leadShare] = (Object.entries(shares) as Array<[keyof Habits['shares'], number]>)
+    .reduce((best, e) => (e[1] > best[1] ? e : best));
+
+  // Median in training-day order, so late-night sessions sit after the evening ones.
+  const ordered = [...timed].sort((a, b) => dayOrder(a.minutes) - dayOrder(b.minutes));
+  const median = ordered[Math.floor(ordered.length / 2)]!.minutes;
+
+  const types = new Map<string, number[]>();
+  for (const s of timed) {
+    const hours = types.get(s.type) ?? new Array<number>(24).fill(0);
+    hours[Math.floor(s.minutes / 60)]! += 1;
+    types.set(s.type, hours);
+  }
+  const byType = [...types.entries()]
+    .map(([type, hours]) => {
+      const hour = hours.reduce((best, n, h) => (n > hours[best]! ? h : best), 0);
+      return { type, hour, sessions: hours[hour]!, timed: hours.reduce((a, b) => a + b, 0) };
+    })
+    .filter((t) => t.timed >= MIN_TYPE_SESSIONS)
+    .sort((a, b) => b.timed - a.timed)
+    .slice(0, MAX_TYPES);
+
+  return {
+    timed: timed.length,
+    grid,
+    peak,
+    chronotype: leadShare >= CHRONOTYPE_SHARE ? CHRONOTYPE_OF[lead] : 'anytime',
+    shares,
+    typicalStartMin: median,
+    byType,
+    weekday,
+    weekend,
+    earliest: ordered[0]!,
+    latest: ordered[ordered.length - 1]!,
+  };
+}
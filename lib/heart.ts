@@ -0,0 +1,92 @@
+// lib/heart.ts — Resting heart rate and HRV status across a year of wellness days.
+//
+// Resting HR comes from the daily summaries (or a daily Resting Heart Rate / Sleep CSV),
+// HRV from Garmin's HRV Status data. Days without a status word are classified against
+// their own baseline band: a 7-day average inside it is balanced, outside it unbalanced.
+// Monthly training time (from computeTrends) links the two to how much you trained.
+
+import type { HeartTrend, HrvStatus, WellnessDay } from './types';
+
+const MIN_MONTH_DAYS = 5;          // readings a month needs to count toward the change
+const MIN_VOLUME_MONTHS = 3;
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+function monthlyMeans(days: WellnessDay[], value: (d: WellnessDay) => number | undefined): { means: Array<number | null>; counts: number[] } {
+  const sums = Array<number>(12).fill(0), counts = Array<number>(12).fill(0);
+  for (const d of days) {
+    const v = value(d);
+    if (v == null) continue;
+    const m = parseInt(d.date.slice(5, 7), 10) - 1;
+    sums[m]! += v; counts[m]! += 1;
+  }
+  return { means: sums.map((s, i) => (counts[i] ? s / counts[i]! : null)), counts };
+}
+
+function hrvStatusFor(d: WellnessDay): HrvStatus | null {
+  if (d.hrvStatus) return d.hrvStatus;
+  const avg = d.hrvWeeklyAvg ?? d.hrvOvernight;
+  if (avg == null || d.hrvBaselineLow == null || d.hrvBaselineHigh == null) return null;
+  return avg >= d.hrvBaselineLow && avg <= d.hrvBaselineHigh ? 'balanced' : 'unbalanced';
+}
+
+/**
+ * Heart trend for one year's wellness days, or null when they carry neither resting HR
+ * nor HRV. `monthlyTrainingSeconds` (Jan..Dec) enables the training-volume comparison.
+ */
+export function computeHeartTrend(days: WellnessDay[], monthlyTrainingSeconds?: number[]): HeartTrend | null {
+  const rhrDays = days.filter((d) => d.restingHr != null);
+  const hrvDays = days.filter((d) => d.hrvOvernight != null || d.hrvWeeklyAvg != null || d.hrvStatus != null);
+  if (!rhrDays.length && !hrvDays.length) return null;
+
+  let restingHr: HeartTrend['restingHr'] = null;
+  const rhrMonthly = monthlyMeans(rhrDays, (d) => d.restingHr);
+  if (rhrDays.length) {
+    const lowest = rhrDays.reduce((best, d) => (d.restingHr! < best.restingHr! ? d : best));
+    const settled = rhrMonthly.means
+      .map((v, i) => ({ v, i }))
+      .filter((x): x is { v: number; i: number } => x.v != null && rhrMonthly.counts[x.i]! >= MIN_MONTH_DAYS);
+    const first = settled[0], last = settled[settled.length - 1];
+    restingHr = {
+      days: rhrDays.length,
+      avg: mean(rhrDays.map((d) => d.restingHr!)),
+      lowest: { bpm: lowest.restingHr!, date: lowest.date },
+      monthly: rhrMonthly.means,
+      change: first && last && first !== last
+        ? { firstMonthIdx: first.i, first: first.v, lastMonthIdx: last.i, last: last.v, bpm: last.v - first.v }
+        : null,
+    };
+  }
+
+  let hrv: HeartTrend['hrv'] = null;
+  if (hrvDays.length) {
+    const overnight = hrvDays.filter((d) => d.hrvOvernight != null).map((d) => d.hrvOvernight!);
+    const banded = hrvDays.filter((d) => d.hrvBaselineLow != null && d.hrvBaselineHigh != null);
+    const statusDays: Record<HrvStatus, number> = { balanced: 0, unbalanced: 0, low: 0, poor: 0 };
+    for (const d of hrvDays) {
+      const status = hrvStatusFor(d);
+      if (status) statusDays[status] += 1;
+    }
+    hrv = {
+      nights: hrvDays.length,
+      avgOvernight: overnight.length ? mean(overnight) : null,
+      baseline: banded.length
+        ? { low: mean(banded.map((d) => d.hrvBaselineLow!)), high: mean(banded.map((d) => d.hrvBaselineHigh!)) }
+        : null,
+      statusDays,
+    };
+  }
+
+  let volume: HeartTrend['volume'] = null;
+  if (monthlyTrainingSeconds && restingHr) {
+    const months = restingHr.monthly
+      .map((rhr, i) => ({ monthIdx: i, restingHr: rhr, hours: (monthlyTrainingSeconds[i] ?? 0) / 3600 }))
+      .filter((x): x is { monthIdx: number; restingHr: number; hours: number } => x.restingHr != null && x.hours > 0);
+    if (months.length >= MIN_VOLUME_MONTHS) {
+      const byHours = [...months].sort((a, b) => b.hours - a.hours);
+      volume = { busiest: byHours[0]!, quietest: byHours[byHours.length - 1]! };
+    }
+  }
+
+  return { restingHr, hrv, volume };
+}
@@ -0,0 +1,125 @@
+// lib/heatmap.ts — Annual route heatmap data from GPS tracks (no tile server, no network).
+//
+// Tracks are projected to Web Mercator (unit square), thinned to what can actually be
+// drawn, and summarised: a bounding box auto-zoomed to the densest cluster (so one
+// holiday abroad doesn't shrink the home routes to a dot), the full extent, and the
+// number of unique ~250 m grid cells visited. components/RouteHeatmap renders it.
+
+import type { TrackPoint } from './types';
+
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+export type ProjectedRoute = Array<[number, number]>;
+
+export type RouteHeatmap = {
+  routes: ProjectedRoute[];
+  bounds: Bounds;          // auto-zoom: the densest cluster
+  fullBounds: Bounds;      // every route
+  routeCount: number;
+  uniqueCells: number;     // distinct CELL_M × CELL_M squares touched
+  clusterShare: number;    // 0..1 of sampled points inside `bounds`
+};
+
+const CELL_M = 250;
+const CLUSTER_M = 10000;
+const METERS_PER_DEG_LAT = 111320;
+const MIN_STEP = 5e-7;            // ~20 m at the equator; finer detail is invisible in the card
+const CLUSTER_PERCENTILE = 0.02;  // trim stray points at the cluster's edges
+const MIN_SPAN = 5e-5;            // ~2 km, so a single short loop isn't zoomed to pixels
+
+export function projectMercator(lat: number, lon: number): [number, number] {
+  const clamped = Math.max(-85.05, Math.min(85.05, lat));
+  const rad = (clamped * Math.PI) / 180;
+  const x = (lon + 180) / 360;
+  const y = (1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2;
+  return [x, y];
+}
+
+/** Roughly square geographic cell key (cell width shrinks with latitude). */
+function cellKey(lat: number, lon: number, sizeM: number): string {
+  const dLat = sizeM / METERS_PER_DEG_LAT;
+  const row = Math.floor(lat / dLat);
+  const rowLat = (row + 0.5) * dLat;
+  const dLon = sizeM / (METERS_PER_DEG_LAT * Math.max(0.01, Math.cos((rowLat * Math.PI) / 180)));
+  return `${row}:${Math.floor(lon / dLon)}`;
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (!sorted.length) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[idx]!;
+}
+
+function boundsOf(xs: number[], ys: number[], trim: number): Bounds {
+  const sx = [...xs].sort((a, b) => a - b);
+  const sy = [...ys].sort((a, b) => a - b);
+  return { minX: quantile(sx, trim), maxX: quantile(sx, 1 - trim), minY: quantile(sy, trim), maxY: quantile(sy, 1 - trim) };
+}
+
+/** Grow a box to at least MIN_SPAN and pad it, keeping its center. */
+function padBounds(b: Bounds, pad: number): Bounds {
+  const cx = (b.minX + b.maxX) / 2, cy = (b.minY + b.maxY) / 2;
+  const w = Math.max(MIN_SPAN, b.maxX - b.minX) * (1 + pad);
+  const h = Math.max(MIN_SPAN, b.maxY - b.minY) * (1 + pad);
+  return { minX: cx - w / 2, maxX: cx + w / 2, minY: cy - h / 2, maxY: cy + h / 2 };
+}
+
+/** Expand a box to the given width/height ratio so it fills a fixed-size viewport. */
+export function fitBounds(b: Bounds, aspect: number): Bounds {
+  const cx = (b.minX + b.maxX) / 2, cy = (b.minY + b.maxY) / 2;
+  let w = b.maxX - b.minX, h = b.maxY - b.minY;
+  if (w / h > aspect) h = w / aspect;
+  else w = h * aspect;
+  return { minX: cx - w / 2, maxX: cx + w / 2, minY: cy - h / 2, maxY: cy + h / 2 };
+}
+
+export function computeRouteHeatmap(tracks: TrackPoint[][]): RouteHeatmap | null {
+  const routes: ProjectedRoute[] = [];
+  const cells = new Set<string>();
+  const clusterCounts = new Map<string, number>();
+  const samples: Array<{ x: number; y: number; cluster: string }> = [];
+
+  for (const track of tracks) {
+    const route: ProjectedRoute = [];
+    let last: [number, number] | null = null;
+    for (const p of track) {
+      if (p.lat == null || p.lon == null) continue;
+      if (p.lat === 0 && p.lon === 0) continue; // "null island" fixes from a cold GPS
+      cells.add(cellKey(p.lat, p.lon, CELL_M));
+      const xy = projectMercator(p.lat, p.lon);
+      if (last && Math.abs(xy[0] - last[0]) < MIN_STEP && Math.abs(xy[1] - last[1]) < MIN_STEP) continue;
+      route.push(xy);
+      last = xy;
+      const cluster = cellKey(p.lat, p.lon, CLUSTER_M);
+      clusterCounts.set(cluster, (clusterCounts.get(cluster) ?? 0) + 1);
+      samples.push({ x: xy[0], y: xy[1], cluster });
+    }
+    if (route.length >= 2) routes.push(route);
+  }
+  if (!routes.length) return null;
+
+  // Densest cluster = the busiest CLUSTER_M cell plus its eight neighbours.
+  let densest = '', best = -1;
+  for (const [k, n] of clusterCounts) if (n > best) { best = n; densest = k; }
+  const [dr, dc] = densest.split(':').map(Number) as [number, number];
+  const near = new Set<string>();
+  for (let r = -1; r <= 1; r++) for (let c = -1; c <= 1; c++) near.add(`${dr + r}:${dc + c}`);
+  const inCluster = samples.filter((s) => near.has(s.cluster));
+
+  const bounds = padBounds(boundsOf(inCluster.map((s) => s.x), inCluster.map((s) => s.y), CLUSTER_PERCENTILE), 0.12);
+  const fullBounds = padBounds(boundsOf(samples.map((s) => s.x), samples.map((s) => s.y), 0), 0.06);
+  const within = samples.filter((s) => s.x >= bounds.minX && s.x <= bounds.maxX && s.y >= bounds.minY && s.y <= bounds.maxY);
+
+  return {
+    routes,
+    bounds,
+    fullBounds,
+    routeCount: routes.length,
+    uniqueCells: cells.size,
+    clusterShare: samples.length ? within.length / samples.length : 0,
+  };
+}
+
+/** Area covered by the unique cells, km². */
+export function heatmapAreaKm2(h: RouteHeatmap): number {
+  return (h.uniqueCells * CELL_M * CELL_M) / 1e6;
+}
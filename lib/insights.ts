@@ -0,0 +1,139 @@
+// lib/insights.ts — Training vs recovery: does a hard day, a big week or a rest day show up
+// in your sleep, resting HR and steps?
+//
+// Joins the focus year's daily training load (lib/load.ts) with the wellness store by
+// date and compares two groups at a time. Each finding carries both group means, their
+// sizes and Cohen's d (difference over the pooled standard deviation), and is only
+// reported when both groups clear a minimum sample. Only the stretch between the year's
+// first and last training day is used, so months without data don't pass as rest.
+
+import type { WellnessDay } from './types';
+import type { LoadDay } from './load';
+import { isoDay } from './wellness-days';
+
+export type InsightKey = 'sleep-after-hard' | 'rhr-big-weeks' | 'steps-rest-days';
+
+export type EffectStrength = 'negligible' | 'small' | 'medium' | 'large';
+
+export type InsightGroup = { label: string; mean: number; n: number };
+
+export type Insight = {
+  key: InsightKey;
+  title: string;
+  finding: string;                 // one plain-language sentence
+  unit: string;                    // for the group means ("", " bpm", " steps")
+  a: InsightGroup;
+  b: InsightGroup;
+  effectSize: number;              // Cohen's d, a − b
+  strength: EffectStrength;
+};
+
+const MIN_NIGHTS = 8;              // per group, sleep after hard vs easy days
+const MIN_WEEKS = 4;               // per group, high- vs low-volume weeks
+const MIN_WEEK_READINGS = 4;       // resting-HR days a week needs
+const MIN_DAYS = 10;               // per group, rest vs training days
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+function variance(xs: number[]): number {
+  const m = mean(xs);
+  return xs.reduce((s, x) => s + (x - m) ** 2, 0) / Math.max(1, xs.length - 1);
+}
+
+/** Cohen's d with the pooled standard deviation; 0 when both groups are flat. */
+export function cohensD(a: number[], b: number[]): number {
+  const pooled = Math.sqrt(((a.length - 1) * variance(a) + (b.length - 1) * variance(b)) / (a.length + b.length - 2));
+  return pooled > 0 ? (mean(a) - mean(b)) / pooled : 0;
+}
+
+export function effectStrength(d: number): EffectStrength {
+  const abs = Math.abs(d);
+  return abs < 0.2 ? 'negligible' : abs < 0.5 ? 'small' : abs < 0.8 ? 'medium' : 'large';
+}
+
+function compare(
+  key: InsightKey, title: string, unit: string,
+  a: { label: string; values: number[] }, b: { label: string; values: number[] },
+  describe: (diff: number, strength: EffectStrength) => string
+): Insight {
+  const d = cohensD(a.values, b.values);
+  const strength = effectStrength(d);
+  return {
+    key, title, unit,
+    a: { label: a.label, mean: mean(a.values), n: a.values.length },
+    b: { label: b.label, mean: mean(b.values), n: b.values.length },
+    effectSize: d,
+    strength,
+    finding: describe(mean(a.values) - mean(b.values), strength),
+  };
+}
+
+const sizeWord = (s: EffectStrength) => (s === 'negligible' ? '' : ` (a ${s} effect)`);
+
+/** Insights for one year, strongest first. Empty when nothing clears its sample guard. */
+export function computeInsights(loadDays: LoadDay[], wellnessDays: WellnessDay[]): Insight[] {
+  const trained = loadDays.filter((d) => d.load > 0);
+  if (!trained.length || !wellnessDays.length) return [];
+  const firstMs = trained[0]!.date.getTime(), lastMs = trained[trained.length - 1]!.date.getTime();
+  const span = loadDays.filter((d) => d.date.getTime() >= firstMs && d.date.getTime() <= lastMs);
+  const wellness = new Map(wellnessDays.map((d) => [d.date, d]));
+  const out: Insight[] = [];
+
+  // 1. Sleep score the night after a hard day (top quarter of training days by load)
+  //    vs after an easy one (rest, or the lower half of training days).
+  const ranked = span.filter((d) => d.load > 0).sort((a, b) => b.load - a.load);
+  const hard = new Set(ranked.slice(0, Math.ceil(ranked.length / 4)));
+  const easy = new Set([...span.filter((d) => d.load === 0), ...ranked.slice(Math.ceil(ranked.length / 2))]);
+  const afterHard: number[] = [], afterEasy: number[] = [];
+  for (const d of span) {
+    const score = wellness.get(isoDay(new Date(d.date.getFullYear(), d.date.getMonth(), d.date.getDate() + 1)))?.sleepScore;
+    if (score == null) continue;
+    if (hard.has(d)) afterHard.push(score);
+    else if (easy.has(d)) afterEasy.push(score);
+  }
+  if (afterHard.length >= MIN_NIGHTS && afterEasy.length >= MIN_NIGHTS) {
+    out.push(compare('sleep-after-hard', 'Sleep after hard days', '',
+      { label: 'After hard days', values: afterHard }, { label: 'After easy days', values: afterEasy },
+      (diff, s) => s === 'negligible'
+        ? 'Hard days didn’t change your sleep score the night after.'
+        : `Your sleep score was ${Math.abs(diff).toFixed(1)} points ${diff < 0 ? 'lower' : 'higher'} the night after a hard day${sizeWord(s)}.`));
+  }
+
+  // 2. Resting HR in the biggest third of weeks by load vs the smallest third.
+  const weeks = new Map<string, { load: number; rhr: number[] }>();
+  for (const d of span) {
+    const monday = new Date(d.date.getFullYear(), d.date.getMonth(), d.date.getDate() - ((d.date.getDay() + 6) % 7));
+    const w = weeks.get(isoDay(monday)) ?? { load: 0, rhr: [] };
+    w.load += d.load;
+    const rhr = wellness.get(isoDay(d.date))?.restingHr;
+    if (rhr != null) w.rhr.push(rhr);
+    weeks.set(isoDay(monday), w);
+  }
+  const rated = [...weeks.values()].filter((w) => w.rhr.length >= MIN_WEEK_READINGS).sort((a, b) => a.load - b.load);
+  const third = Math.floor(rated.length / 3);
+  if (third >= MIN_WEEKS) {
+    out.push(compare('rhr-big-weeks', 'Resting HR in big weeks', ' bpm',
+      { label: 'Biggest weeks', values: rated.slice(-third).map((w) => mean(w.rhr)) },
+      { label: 'Lightest weeks', values: rated.slice(0, third).map((w) => mean(w.rhr)) },
+      (diff, s) => s === 'negligible'
+        ? 'Your resting HR held steady whether the week was big or light.'
+        : `Resting HR ran ${Math.abs(diff).toFixed(1)} bpm ${diff > 0 ? 'higher' : 'lower'} in your biggest training weeks${sizeWord(s)}.`));
+  }
+
+  // 3. Steps on rest days vs training days.
+  const restSteps: number[] = [], trainingSteps: number[] = [];
+  for (const d of span) {
+    const steps = wellness.get(isoDay(d.date))?.steps;
+    if (steps == null) continue;
+    (d.load > 0 ? trainingSteps : restSteps).push(steps);
+  }
+  if (restSteps.length >= MIN_DAYS && trainingSteps.length >= MIN_DAYS) {
+    out.push(compare('steps-rest-days', 'Steps on rest days', ' steps',
+      { label: 'Rest days', values: restSteps }, { label: 'Training days', values: trainingSteps },
+      (diff, s) => s === 'negligible'
+        ? 'You moved about as much on rest days as on training days.'
+        : `You took ${Math.round(Math.abs(diff)).toLocaleString()} ${diff < 0 ? 'fewer' : 'more'} steps on rest days than on training days${sizeWord(s)}.`));
+  }
+
+  return out.sort((x, y) => Math.abs(y.effectSize) - Math.abs(x.effectSize));
+}
@@ -0,0 +1,127 @@
+// lib/load.ts — Training load: per-activity load, fitness (CTL), fatigue (ATL) and form (TSB).
+//
+// Each activity gets one load number: Garmin's own "Training Load" when the export has
+// it, else Banister TRIMP from average HR and duration, else a rough equivalent from
+// "Aerobic TE". Daily loads then feed the usual impulse–response curves: fitness is a
+// 42-day exponentially weighted average, fatigue a 7-day one, and form is yesterday's
+// fitness minus yesterday's fatigue. The whole history warms the curves up, so January
+// doesn't start from zero.
+
+import type { CsvRow } from './types';
+import { parseDateWithLocale, parseNumber, parseTimeToSeconds } from './parse';
+import { formatDateDisplay } from './format';
+import { estimateMaxHr } from './zones';
+
+export type LoadSource = 'garmin' | 'trimp' | 'te';
+
+export type LoadDay = {
+  date: Date;           // local midnight
+  load: number;         // that day's summed activity load
+  ctl: number;          // fitness
+  atl: number;          // fatigue
+  tsb: number;          // form
+};
+
+export type TrainingLoad = {
+  year: number;
+  days: LoadDay[];                                  // Jan 1 .. Dec 31 (or today, for the current year)
+  peakFitness: { date: string; ctl: number } | null;
+  peakFatigue: { date: string; atl: number } | null;
+  freshest: { date: string; tsb: number } | null;   // highest form on a day with activity
+  startCtl: number;
+  endCtl: number;
+  totalLoad: number;
+  sources: Record<LoadSource, number>;              // activities scored by each method
+};
+
+const CTL_DAYS = 42;
+const ATL_DAYS = 7;
+const DEFAULT_REST_HR = 60;
+const DEFAULT_MAX_HR = 190;
+const TRIMP_K = 1.92;          // Banister's weighting (the commonly used male coefficient)
+const TE_LOAD_PER_MIN = 1.7;   // ~100 load for an hour at Aerobic TE 3.0, in line with TRIMP
+const DAY_MS = 86400000;
+
+/** Banister TRIMP: minutes × HR reserve fraction × 0.64·e^(1.92·fraction). */
+export function trimp(minutes: number, avgHr: number, restHr: number, maxHr: number): number {
+  const frac = Math.max(0, Math.min(1, (avgHr - restHr) / (maxHr - restHr)));
+  return minutes * frac * 0.64 * Math.exp(TRIMP_K * frac);
+}
+
+export function activityLoad(
+  row: CsvRow,
+  hr: { restHr: number; maxHr: number }
+): { load: number; source: LoadSource } | null {
+  const garmin = parseNumber(row['Training Load']);
+  if (garmin > 0) return { load: garmin, source: 'garmin' };
+
+  const minutes = parseTimeToSeconds(row['Time'] ?? row['Moving Time'] ?? row['Elapsed Time']) / 60;
+  if (minutes <= 0) return null;
+  const avgHr = parseNumber(row['Avg HR']);
+  if (avgHr > hr.restHr) return { load: trimp(minutes, avgHr, hr.restHr, hr.maxHr), source: 'trimp' };
+
+  const te = parseNumber(row['Aerobic TE']);
+  if (te > 0) return { load: minutes * TE_LOAD_PER_MIN * (te / 3), source: 'te' };
+  return null;
+}
+
+/** Days since the epoch for a local calendar date (DST-proof day arithmetic). */
+const dayIndex = (d: Date) => Math.round(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY_MS);
+const fromDayIndex = (i: number) => { const u = new Date(i * DAY_MS); return new Date(u.getUTCFullYear(), u.getUTCMonth(), u.getUTCDate()); };
+
+/** HR bounds for TRIMP: `restHr` defaults to 60 bpm; max HR comes from the data. */
+export function loadHeartRates(rows: CsvRow[], restHr?: number): { restHr: number; maxHr: number } {
+  return { restHr: restHr ?? DEFAULT_REST_HR, maxHr: estimateMaxHr(rows) ?? DEFAULT_MAX_HR };
+}
+
+/** Fitness/fatigue/form for `year`, from every row (all years) so the curves are warm. */
+export function computeTrainingLoad(rows: CsvRow[], year: number, opts: { restHr?: number } = {}): TrainingLoad | null {
+  const hr = loadHeartRates(rows, opts.restHr);
+  const sources: Record<LoadSource, number> = { garmin: 0, trimp: 0, te: 0 };
+
+  const daily = new Map<number, number>();
+  for (const row of rows) {
+    const date = parseDateWithLocale(row['Date']);
+    if (!date) continue;
+    const scored = activityLoad(row, hr);
+    if (!scored) continue;
+    const di = dayIndex(date);
+    daily.set(di, (daily.get(di) ?? 0) + scored.load);
+    if (date.getFullYear() === year) sources[scored.source] += 1;
+  }
+  if (!sources.garmin && !sources.trimp && !sources.te) return null;
+
+  const first = Math.min(...daily.keys());
+  const yearStart = dayIndex(new Date(year, 0, 1));
+  const today = dayIndex(new Date());
+  const yearEnd = Math.min(dayIndex(new Date(year, 11, 31)), Math.max(today, yearStart));
+
+  let ctl = 0, atl = 0;
+  const days: LoadDay[] = [];
+  for (let di = Math.min(first, yearStart); di <= yearEnd; di++) {
+    const load = daily.get(di) ?? 0;
+    const tsb = ctl - atl;                 // form going into the day
+    ctl += (load - ctl) / CTL_DAYS;
+    atl += (load - atl) / ATL_DAYS;
+    if (di >= yearStart) days.push({ date: fromDayIndex(di), load, ctl, atl, tsb });
+  }
+  if (!days.length) return null;
+
+  const maxBy = (pick: (d: LoadDay) => number, filter: (d: LoadDay) => boolean = () => true) =>
+    days.filter(filter).reduce<LoadDay | null>((best, d) => (!best || pick(d) > pick(best) ? d : best), null);
+  const pf = maxBy((d) => d.ctl);
+  const pa = maxBy((d) => d.atl);
+  const fr = maxBy((d) => d.tsb, (d) => d.load > 0);
+
+  return {
+    year,
+    days,
+    peakFitness: pf && pf.ctl > 0 ? { date: formatDateDisplay(pf.date), ctl: pf.ctl } : null,
+    peakFatigue: pa && pa.atl > 0 ? { date: formatDateDisplay(pa.date), atl: pa.atl } : null,
+    freshest: fr ? { date: formatDateDisplay(fr.date), tsb: fr.tsb } : null,
+    startCtl: days[0]!.ctl,
+    endCtl: days[days.length - 1]!.ctl,
+    totalLoad: days.reduce((s, d) => s + d.load, 0),
+    sources,
+  };
+}
@@ -3,9 +3,12 @@
 import type { ActivityTypeSummary, CsvRow, Metrics, UnitHint, UnitSystem } from './types';
 import { parseNumber, parseTimeToSeconds, parseDateWithLocale, toStringSafe } from './parse';
 import { formatDateDisplay } from './format';
-import { canonicalizeActivityType } from './activity-columns';
+import { canonicalizeActivityType, recordDistanceUnit, toActivityRecord } from './activity-columns';
 import { normalizeDistanceToMiles, normalizeFeet } from './normalize';
 import { EARTH_CIRCUMFERENCE_MI } from './constants';
+import { computeCyclingPower, type PowerRide } from './power';
+import { computeSwimSummary, swimDistanceMeters, type SwimEntry } from './swim';
+import { isoWeekOf } from './weekly';
 
 const MONTH_NAMES = ['January','February','March','April','May','June','July','August','September','October','November','December'];
 
@@ -23,6 +26,7 @@ export function computeMetrics(
   const typeSeconds: Record<string, number> = {};
   const monthSeconds: Record<string, { seconds: number; sampleDate: Date }> = {};
   const daySet = new Set<string>();
+  const weekStarts = new Set<number>();   // local Mondays, ms
 
   let earliestDate: Date | null = null;
   let latestDate: Date | null = null;
@@ -38,6 +42,17 @@ export function computeMetrics(
   let bikeLongest: { row: CsvRow; distanceMi: number } | null = null;
   let swimLongest: { row: CsvRow; distanceM: number }  | null = null;
 
+  // Running means over the activities that carry each optional column.
+  const mean = () => ({ sum: 0, n: 0 });
+  const add = (m: { sum: number; n: number }, v: number | undefined) => { if (v != null) { m.sum += v; m.n += 1; } };
+  const avgOf = (m: { sum: number; n: number }) => (m.n ? m.sum / m.n : undefined);
+  const runCadence = mean(), bikeCadence = mean(), bikePower = mean(), aerobicTE = mean(), anaerobicTE = mean();
+  let peakNp: { row: CsvRow; watts: number; date: Date | null } | null = null;
+  let topTE: { row: CsvRow; te: number; date: Date | null } | null = null;
+  const powerRides: PowerRide[] = [];
+  const swims: SwimEntry[] = [];
+  const recordUnit = recordDistanceUnit(unitHints.distance, unitSystem);
+
   const weekdayAgg: { seconds: number; count: number }[] = Array.from({ length: 7 }, () => ({ seconds: 0, count: 0 }));
 
   for (const rowRaw of rows) {
@@ -75,6 +90,7 @@ export function computeMetrics(
     if (date) {
       const isoDay = date.toISOString().slice(0, 10);
       daySet.add(isoDay);
+      weekStarts.add(isoWeekOf(date).monday.getTime());
       if (!earliestDate || date < earliestDate) earliestDate = date;
       if (!latestDate || date > latestDate) latestDate = date;
       const key = `${date.getFullYear()}-${date.getMonth()}`;
@@ -97,22 +113,32 @@ export function computeMetrics(
       }
     }
 
+    const rec = toActivityRecord(rowRaw, recordUnit);
+    add(aerobicTE, rec.aerobicTE);
+    add(anaerobicTE, rec.anaerobicTE);
+    if (rec.aerobicTE != null && (!topTE || rec.aerobicTE > topTE.te)) topTE = { row, te: rec.aerobicTE, date: date ?? null };
+
     // Activity types are canonicalized above (e.g. "Treadmill Running" → "Running",
     // "Indoor Cycling" → "Cycling"), so a direct equality check is exact here.
     if (activityType === 'Running') {
       runDistanceMi += distanceMi; runSeconds += timeSeconds; runSessions += 1;
       if (!runLongest || distanceMi > runLongest.distanceMi) runLongest = { row, distanceMi };
+      add(runCadence, rec.avgRunCadence);
     }
     if (activityType === 'Cycling') {
       bikeDistanceMi += distanceMi; bikeSeconds += timeSeconds; bikeSessions += 1;
       if (!bikeLongest || distanceMi > bikeLongest.distanceMi) bikeLongest = { row, distanceMi };
+      add(bikeCadence, rec.avgBikeCadence);
+      add(bikePower, rec.avgPower);
+      powerRides.push({ row, rec, date: date ?? null, seconds: timeSeconds });
+      if (rec.normalizedPower != null && (!peakNp || rec.normalizedPower > peakNp.watts)) peakNp = { row, watts: rec.normalizedPower, date: date ?? null };
     }
     if (activityType === 'Swimming') {
-      // Swim distance is treated as meters (standard Garmin swim export).
-      // TODO(regional): route through header/unit detection once we have sample exports.
-      const meters = parseNumber(row['Distance']);
+      // Meters, except yard-pool swims in the Activities CSV, which are written in yards.
+      const meters = swimDistanceMeters(row, rec, unitHints.distance === 'm');
       swimMeters += meters; swimSeconds += timeSeconds; swimSessions += 1;
       if (!swimLongest || meters > swimLongest.distanceM) swimLongest = { row, distanceM: meters };
+      swims.push({ row, rawType: toStringSafe(rowRaw['Activity Type']), rec, date: date ?? null, seconds: timeSeconds, meters });
     }
   }
 
@@ -159,6 +185,23 @@ export function computeMetrics(
     }
   }
 
+  // Rest days don't break a week streak; only a Monday–Sunday week without a session does.
+  let longestWeekStreak: Metrics['longestWeekStreak'];
+  {
+    const mondays = Array.from(weekStarts).sort((a, b) => a - b).map((ms) => new Date(ms));
+    const follows = (prev: Date, next: Date) => new Date(prev.getFullYear(), prev.getMonth(), prev.getDate() + 7).getTime() === next.getTime();
+    let bestLen = 0, bestStart = 0, curStart = 0;
+    for (let i = 0; i < mondays.length; i++) {
+      if (i > 0 && !follows(mondays[i - 1]!, mondays[i]!)) curStart = i;
+      if (i - curStart + 1 > bestLen) { bestLen = i - curStart + 1; bestStart = curStart; }
+    }
+    if (bestLen) {
+      const last = mondays[bestStart + bestLen - 1]!;
+      const sunday = new Date(last.getFullYear(), last.getMonth(), last.getDate() + 6);
+      longestWeekStreak = { weeks: bestLen, start: formatDateDisplay(mondays[bestStart]!), end: formatDateDisplay(sunday) };
+    }
+  }
+
   const WEEKDAY_NAMES = ['Sunday','Monday','Tuesday','Wednesday','Thursday','Friday','Saturday'];
   let bestIdx = -1;
   for (let i = 0; i < 7; i++) {
@@ -228,7 +271,7 @@ export function computeMetrics(
   return {
     totalDistanceMi, earthPercent, totalActivitySeconds, sessions,
     maxHr: maxHr || undefined, avgHr: avgHr || undefined, totalCalories: totalCalories || undefined,
-    favoriteActivity, mostActiveMonth, longestStreak,
+    favoriteActivity, mostActiveMonth, longestStreak, longestWeekStreak,
     longestActivity: longestActivitySummary, highestCalorie: highestCalorieSummary,
     totalAscent: totalAscentFt || undefined, maxElevation: maxElevationFt || undefined,
     avgDistanceMi, avgDurationSeconds,
@@ -240,5 +283,11 @@ export function computeMetrics(
     bikeDistanceMi: bikeDistanceMi || undefined, bikeSeconds: bikeSeconds || undefined, bikeSessions: bikeSessions || undefined,
     swimMeters: swimMeters || undefined, swimSeconds: swimSeconds || undefined, swimSessions: swimSessions || undefined,
     runLongest: runLongestOut, bikeLongest: bikeLongestOut, swimLongest: swimLongestOut,
+    runCadenceSpm: avgOf(runCadence), bikeCadenceRpm: avgOf(bikeCadence), bikeAvgPowerW: avgOf(bikePower),
+    bikePeakNormalizedPower: peakNp ? { title: toStringSafe(peakNp.row['Title']) || 'Ride', date: formatDateDisplay(peakNp.date), watts: peakNp.watts } : undefined,
+    avgAerobicTE: avgOf(aerobicTE), avgAnaerobicTE: avgOf(anaerobicTE),
+    topAerobicTE: topTE ? { title: toStringSafe(topTE.row['Title']) || 'Unknown activity', date: formatDateDisplay(topTE.date), te: topTE.te, type: toStringSafe(topTE.row['Activity Type']) || 'Other' } : undefined,
+    swim: computeSwimSummary(swims),
+    bikePower: computeCyclingPower(powerRides),
   };
 }
@@ -45,3 +45,10 @@ export function normalizeFeet(raw: unknown, headerHint: UnitHint, uiUnitSystem:
   // Else assume the export matches UI selection
   return uiUnitSystem === 'metric' ? v * 3.28084 : v;
 }
+
+/** Unit hints for rows decoded from device files (FIT/GPX/TCX), which are always metric. */
+export const METRIC_FILE_UNIT_HINTS: { distance: UnitHint; ascent: UnitHint; elevation: UnitHint } = {
+  distance: 'm',
+  ascent: 'm',
+  elevation: 'm',
+};
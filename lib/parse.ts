@@ -70,6 +70,20 @@ export function parseSleepDurationToMinutes(value: unknown): number {
   return 0;
 }
 
+/** Clock time of day ("23:10", "11:10 PM", "6:42 a.m.") → minutes after midnight, or null. */
+export function parseClockToMinutes(value: unknown): number | null {
+  const s = toStringSafe(value).replace(/\u00A0/g, ' ').toLowerCase();
+  const m = s.match(/^(\d{1,2})[:h.](\d{2})(?::\d{2})?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!m) return null;
+  let h = parseInt(m[1]!, 10);
+  const min = parseInt(m[2]!, 10);
+  if (m[3]) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (m[3].startsWith('p') ? 12 : 0);
+  }
+  return h < 24 && min < 60 ? h * 60 + min : null;
+}
+
 export function parseDateWithLocale(value: unknown): Date | null {
   const s = toStringSafe(value).replace(/\u00A0/g, ' ');
   if (!s) return null;
@@ -135,3 +149,32 @@ export function parseCsvFile<T = RawRow>(
     papaParse<T>(file, cfg);
   });
 }
+
+/* ----------------------------- XML helpers (GPX/TCX) ----------------------------- */
+
+/** Parse an XML document in the browser; throws on malformed input. */
+export function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Not a valid XML file.');
+  return doc;
+}
+
+/** All descendants with this local name, in any namespace (GPX/TCX extensions use prefixes). */
+export function xmlElements(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', localName));
+}
+
+/** Trimmed text of the first descendant (or direct child) with this local name. */
+export function xmlText(root: Document | Element, localName: string, directChild = false): string | null {
+  const el = directChild
+    ? Array.from((root as Element).children ?? []).find((c) => c.localName === localName)
+    : xmlElements(root, localName)[0];
+  const s = el?.textContent?.trim();
+  return s ? s : null;
+}
+
+export function xmlNumber(root: Document | Element, localName: string): number | undefined {
+  const s = xmlText(root, localName);
+  const n = s != null ? parseFloat(s) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
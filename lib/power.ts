@@ -0,0 +1,111 @@
+// lib/power.ts — Cycling power: work, estimated FTP, intensity mix and the standout rides.
+//
+// Works from the per-ride power columns (see ActivityRecord). FTP is estimated the
+// classic field-test way, 95% of the best 20-minute power, month by month. A ride's
+// intensity factor is Garmin's own when the export has it, else normalized (or average)
+// power over the year's FTP estimate; TSS likewise falls back to hours × IF² × 100.
+
+import type { ActivityRecord, CsvRow, CyclingPower, PowerBand } from './types';
+import { toStringSafe } from './parse';
+import { formatDateDisplay } from './format';
+
+export type PowerRide = { row: CsvRow; rec: ActivityRecord; date: Date | null; seconds: number };
+
+const FTP_FROM_20MIN = 0.95;
+
+/** Ride-level intensity bands by IF (upper bound exclusive; the last is open-ended). */
+export const POWER_BANDS: Array<{ key: PowerBand; label: string; maxIf: number }> = [
+  { key: 'endurance', label: 'Endurance', maxIf: 0.75 },
+  { key: 'tempo', label: 'Tempo', maxIf: 0.85 },
+  { key: 'sweetspot', label: 'Sweet spot', maxIf: 0.95 },
+  { key: 'threshold', label: 'Threshold', maxIf: 1.05 },
+  { key: 'above', label: 'Above threshold', maxIf: Infinity },
+];
+
+export function powerBandOf(intensityFactor: number): PowerBand {
+  return (POWER_BANDS.find((b) => intensityFactor < b.maxIf) ?? POWER_BANDS[POWER_BANDS.length - 1]!).key;
+}
+
+/** kJ for a ride: the Total Work column, else average power × duration. */
+function rideWorkKj(r: PowerRide): number | undefined {
+  if (r.rec.totalWorkKj != null) return r.rec.totalWorkKj;
+  return r.rec.avgPower != null && r.seconds > 0 ? (r.rec.avgPower * r.seconds) / 1000 : undefined;
+}
+
+const localDayKey = (d: Date) => `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+
+type DayTotal = { date: Date; kj: number; tss: number; rides: number; top: PowerRide; topKj: number };
+
+/** Power summary for a year's cycling rows, or undefined when none carry power. */
+export function computeCyclingPower(rides: PowerRide[]): CyclingPower | undefined {
+  const withPower = rides.filter((r) => r.rec.avgPower != null || r.rec.normalizedPower != null || r.rec.totalWorkKj != null);
+  if (!withPower.length) return undefined;
+
+  const monthlyBest20: Array<number | null> = Array.from({ length: 12 }, () => null);
+  let best20: number | null = null;
+  for (const r of withPower) {
+    const p = r.rec.maxAvgPower20Min;
+    if (p == null) continue;
+    if (best20 == null || p > best20) best20 = p;
+    if (r.date) {
+      const m = r.date.getMonth();
+      if (monthlyBest20[m] == null || p > monthlyBest20[m]!) monthlyBest20[m] = p;
+    }
+  }
+  const estimatedFtp = best20 != null ? best20 * FTP_FROM_20MIN : null;
+  const monthlyFtp = monthlyBest20.map((p) => (p != null ? p * FTP_FROM_20MIN : null));
+  const trendMonths = monthlyFtp.filter((v): v is number => v != null);
+
+  const intensitySeconds: Record<PowerBand, number> = { endurance: 0, tempo: 0, sweetspot: 0, threshold: 0, above: 0 };
+  const byDay = new Map<string, DayTotal>();
+  let totalWorkKj = 0;
+  let topTss: { ride: PowerRide; tss: number; intensityFactor: number | null } | null = null;
+
+  for (const r of withPower) {
+    const kj = rideWorkKj(r);
+    if (kj != null) totalWorkKj += kj;
+
+    const basis = r.rec.normalizedPower ?? r.rec.avgPower;
+    const intensityFactor = r.rec.intensityFactor ?? (basis != null && estimatedFtp ? basis / estimatedFtp : null);
+    if (intensityFactor != null && r.seconds > 0) intensitySeconds[powerBandOf(intensityFactor)] += r.seconds;
+
+    const tss = r.rec.trainingStressScore
+      ?? (intensityFactor != null && r.seconds > 0 ? (r.seconds / 3600) * intensityFactor ** 2 * 100 : undefined);
+    if (tss != null && (!topTss || tss > topTss.tss)) topTss = { ride: r, tss, intensityFactor };
+
+    if (r.date && kj != null) {
+      const key = localDayKey(r.date);
+      const day = byDay.get(key) ?? { date: r.date, kj: 0, tss: 0, rides: 0, top: r, topKj: kj };
+      day.kj += kj;
+      day.tss += tss ?? 0;
+      day.rides += 1;
+      if (kj > day.topKj) { day.top = r; day.topKj = kj; }
+      byDay.set(key, day);
+    }
+  }
+
+  const biggest = [...byDay.values()].reduce<DayTotal | null>((best, d) => (!best || d.kj > best.kj ? d : best), null);
+  const title = (r: PowerRide) => toStringSafe(r.row['Title']) || 'Ride';
+
+  return {
+    rides: withPower.length,
+    totalWorkKj,
+    estimatedFtp,
+    monthlyFtp,
+    ftpChange: trendMonths.length >= 2 ? trendMonths[trendMonths.length - 1]! - trendMonths[0]! : null,
+    intensitySeconds,
+    topTssRide: topTss
+      ? {
+          title: title(topTss.ride),
+          date: formatDateDisplay(topTss.ride.date),
+          tss: topTss.tss,
+          intensityFactor: topTss.intensityFactor,
+          normalizedPower: topTss.ride.rec.normalizedPower ?? null,
+          durationSeconds: topTss.ride.seconds,
+        }
+      : null,
+    biggestDay: biggest
+      ? { date: formatDateDisplay(biggest.date), kj: biggest.kj, tss: biggest.tss, rides: biggest.rides, title: title(biggest.top) }
+      : null,
+  };
+}
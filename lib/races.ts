@@ -0,0 +1,164 @@
+// lib/races.ts — Flag likely races among ordinary activity rows.
+//
+// Garmin doesn't mark races in the export, so a marathon sits between the weekly easy
+// runs. Three signals are scored per activity: a race word in the title (several
+// languages), a standard race distance within GPS tolerance, and a pace well ahead of
+// the athlete's median for that sport. A strong title word is enough on its own, unless
+// the title also reads like a workout ("Marathon Pace Run"); otherwise two signals must
+// agree. Words match whole, never inside other words ("embracing" is not "racing").
+
+import type { CsvRow, UnitHint, UnitSystem } from './types';
+import { parseDateWithLocale, parseTimeToSeconds, toStringSafe } from './parse';
+import { formatDateDisplay } from './format';
+import { canonicalizeActivityType } from './activity-columns';
+import { normalizeDistanceToMiles } from './normalize';
+
+export type RaceSignal = 'title' | 'distance' | 'pace';
+
+export type DetectedRace = {
+  title: string;
+  type: string;                 // canonical activity type
+  date: string;                 // display date
+  year: number;
+  distanceMi: number;
+  seconds: number;              // finish (timer) time
+  secPerMi: number | null;
+  standard: { key: string; label: string } | null;   // matched race distance
+  signals: RaceSignal[];
+};
+
+type StandardDistance = { key: string; label: string; mi: number };
+
+const KM = 0.621371;
+export const STANDARD_RACE_DISTANCES: StandardDistance[] = [
+  { key: '5k', label: '5K', mi: 5 * KM },
+  { key: '10k', label: '10K', mi: 10 * KM },
+  { key: '15k', label: '15K', mi: 15 * KM },
+  { key: '10mi', label: '10 mile', mi: 10 },
+  { key: 'half', label: 'Half marathon', mi: 21.0975 * KM },
+  { key: 'full', label: 'Marathon', mi: 42.195 * KM },
+  { key: '50k', label: '50K', mi: 50 * KM },
+];
+
+// Watches over-read race courses a little (tangents, weaving) and rarely under-read.
+const DISTANCE_TOLERANCE_UNDER = 0.02;
+const DISTANCE_TOLERANCE_OVER = 0.05;
+const PACE_OUTLIER_RATIO = 0.92;     // ≥ 8% faster than the sport's median pace
+const MIN_PACE_SAMPLES = 5;          // need a baseline before calling anything an outlier
+const MIN_PACE_DISTANCE_MI = 1;      // strides and warm-ups don't count
+
+// Unambiguous race words — enough on their own.
+const STRONG_TITLE_WORDS = [
+  'race', 'racing', 'parkrun', 'marathon', 'halbmarathon', 'semi marathon', 'semi-marathon', 'maraton', 'maratona',
+  'wettkampf', 'wedstrijd', 'competition', 'triathlon', 'duathlon', 'gran fondo', 'granfondo', 'ultra trail',
+  'gara', 'carrera popular', 'volkslauf', 'stadtlauf', 'trail race',
+];
+// Also Garmin's default run titles in French/Spanish/German ("Course à pied", "Carrera",
+// "Lauf"), so they only count alongside a distance or pace signal.
+const WEAK_TITLE_WORDS = ['course', 'carrera', 'lauf', 'corsa'];
+// Training-plan and Garmin Coach workout names ("Half Marathon Training – Long Run"):
+// a race word next to one of these only counts as a weak signal.
+const TRAINING_TITLE_WORDS = [
+  'training', 'train', 'pace', 'plan', 'workout', 'tempo', 'long run', 'intervals', 'interval', 'coach',
+  'trainingsplan', 'entrainement', 'entrenamiento', 'allenamento',
+];
+
+function titleWords(s: string): string {
+  return ` ${s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9-]+/g, ' ').trim()} `;
+}
+
+function titleSignal(title: string, rawType: string): 'strong' | 'weak' | null {
+  // Drop the activity-type label itself so "Paris Course à pied" doesn't read as a race.
+  let t = titleWords(title);
+  const typeWords = titleWords(rawType).trim();
+  if (typeWords) t = t.replace(` ${typeWords} `, ' ');
+  const has = (w: string) => t.includes(` ${w} `);
+  if (STRONG_TITLE_WORDS.some(has)) return TRAINING_TITLE_WORDS.some(has) ? 'weak' : 'strong';
+  if (WEAK_TITLE_WORDS.some(has)) return 'weak';
+  return null;
+}
+
+function matchStandard(distanceMi: number): StandardDistance | null {
+  return STANDARD_RACE_DISTANCES.find((d) =>
+    distanceMi >= d.mi * (1 - DISTANCE_TOLERANCE_UNDER) && distanceMi <= d.mi * (1 + DISTANCE_TOLERANCE_OVER)) ?? null;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid]! : (s[mid - 1]! + s[mid]!) / 2;
+}
+
+/**
+ * Classify every row. Pass the full multi-year history so the pace baseline is the
+ * athlete's, not one year's; filter the result by `year` afterwards.
+ */
+export function detectRaces(
+  rows: CsvRow[],
+  unitSystem: UnitSystem,
+  unitHints: { distance: UnitHint; ascent: UnitHint; elevation: UnitHint }
+): DetectedRace[] {
+  const parsed = rows.map((row) => {
+    const rawType = toStringSafe(row['Activity Type']);
+    const type = canonicalizeActivityType(rawType);
+    const distanceMi = normalizeDistanceToMiles(row['Distance'], type, unitHints.distance, unitSystem);
+    const seconds = parseTimeToSeconds(row['Time'] ?? row['Moving Time'] ?? row['Elapsed Time']);
+    return {
+      row, rawType, type, distanceMi, seconds,
+      date: parseDateWithLocale(row['Date']),
+      secPerMi: distanceMi >= MIN_PACE_DISTANCE_MI && seconds > 0 ? seconds / distanceMi : null,
+    };
+  });
+
+  // Median pace per sport across the whole history.
+  const paceBySport = new Map<string, number[]>();
+  for (const p of parsed) {
+    if (p.secPerMi == null) continue;
+    const list = paceBySport.get(p.type) ?? [];
+    list.push(p.secPerMi);
+    paceBySport.set(p.type, list);
+  }
+  const medianPace = new Map<string, number>();
+  for (const [type, list] of paceBySport) {
+    const med = list.length >= MIN_PACE_SAMPLES ? median(list) : null;
+    if (med != null) medianPace.set(type, med);
+  }
+
+  const races: DetectedRace[] = [];
+  const chronological = parsed
+    .filter((p) => p.date)
+    .sort((a, b) => a.date!.getTime() - b.date!.getTime());
+  for (const p of chronological) {
+    if (!p.date || p.seconds <= 0) continue;
+    const title = toStringSafe(p.row['Title']);
+    const signals: RaceSignal[] = [];
+
+    const byTitle = titleSignal(title, p.rawType);
+    if (byTitle) signals.push('title');
+    const standard = p.type === 'Running' ? matchStandard(p.distanceMi) : null;
+    if (standard) signals.push('distance');
+    const med = medianPace.get(p.type);
+    if (med != null && p.secPerMi != null && p.secPerMi <= med * PACE_OUTLIER_RATIO) signals.push('pace');
+
+    const isRace = byTitle === 'strong' || signals.length >= 2;
+    if (!isRace) continue;
+    races.push({
+      title: title || p.rawType || 'Race',
+      type: p.type,
+      date: formatDateDisplay(p.date),
+      year: p.date.getFullYear(),
+      distanceMi: p.distanceMi,
+      seconds: p.seconds,
+      secPerMi: p.secPerMi,
+      standard: standard ? { key: standard.key, label: standard.label } : null,
+      signals,
+    });
+  }
+  return races;
+}
+
+/** Races in one calendar year, in date order. */
+export function racesInYear(races: DetectedRace[], year: number): DetectedRace[] {
+  return races.filter((r) => r.year === year);
+}
@@ -0,0 +1,215 @@
+// lib/records.ts — Best-effort personal records from per-second track data.
+//
+// computeMetrics only sees one summary row per activity, so it can name the longest
+// run but never the fastest 5K inside it. Here every track is scanned with a rolling
+// window: the fastest time over standard running distances, and the best 5/20/60-minute
+// average power (or speed, for rides without a power meter) on the bike. Records are
+// kept per calendar year so the dashboard can tell "best this year" from "all-time PR".
+
+import type { ActivityFile, TrackPoint } from './types';
+import { canonicalizeActivityType } from './activity-columns';
+import { partitionByYear } from './compare';
+import { parseDateWithLocale, toStringSafe } from './parse';
+import { formatDateDisplay } from './format';
+import { withCumulativeDistance } from './track';
+
+export type EffortKind = 'time' | 'power' | 'speed';
+
+export type BestEffort = {
+  value: number;        // seconds ('time'), watts ('power') or m/s ('speed')
+  year: number;
+  date: string;         // display date of the activity
+  title: string;
+};
+
+export type RecordEntry = {
+  key: string;          // '5k', 'bike20' …
+  label: string;        // '5K', '20 min' …
+  kind: EffortKind;
+  yearBest: BestEffort | null;      // best inside the focus year
+  allTimeBest: BestEffort | null;   // best across every year loaded
+  priorBest: BestEffort | null;     // best before the focus year
+  isAllTimePr: boolean;             // the focus year holds the all-time record
+};
+
+export type PersonalRecords = {
+  focusYear: number;
+  run: RecordEntry[];
+  bike: RecordEntry[];              // power when any ride has a power meter, else speed
+  bikeKind: 'power' | 'speed';
+};
+
+export const RUN_DISTANCES: Array<{ key: string; label: string; meters: number }> = [
+  { key: '1k', label: '1 km', meters: 1000 },
+  { key: 'mile', label: '1 mile', meters: 1609.344 },
+  { key: '5k', label: '5K', meters: 5000 },
+  { key: '10k', label: '10K', meters: 10000 },
+  { key: 'half', label: 'Half marathon', meters: 21097.5 },
+  { key: 'full', label: 'Marathon', meters: 42195 },
+];
+
+export const BIKE_DURATIONS: Array<{ key: string; label: string; seconds: number }> = [
+  { key: 'bike5', label: '5 min', seconds: 300 },
+  { key: 'bike20', label: '20 min', seconds: 1200 },
+  { key: 'bike60', label: '60 min', seconds: 3600 },
+];
+
+const MAX_RUN_SPEED_MPS = 7;    // faster than ~2:23/km over a whole effort is a GPS glitch
+const MAX_BIKE_SPEED_MPS = 25;  // ~90 km/h sustained
+const MAX_POWER_GAP_S = 5;      // longer sample gaps count as zero watts (coasting, pauses)
+
+/* ----------------------------- Rolling windows ----------------------------- */
+
+/**
+ * Fastest elapsed time over `meters`, interpolating inside the first segment so the
+ * window covers exactly the target distance. Expects time-sorted points with distM.
+ */
+export function bestTimeForDistance(track: TrackPoint[], meters: number): number | null {
+  const pts = track.filter((p) => p.distM != null);
+  if (pts.length < 2 || pts[pts.length - 1]!.distM! - pts[0]!.distM! < meters) return null;
+
+  let best: number | null = null;
+  let i = 0;
+  for (let j = 1; j < pts.length; j++) {
+    const end = pts[j]!;
+    // Slide the start forward while the window still covers the distance without it.
+    while (i + 1 < j && end.distM! - pts[i + 1]!.distM! >= meters) i++;
+    const start = pts[i]!, next = pts[i + 1]!;
+    const covered = end.distM! - start.distM!;
+    if (covered < meters) continue;
+    // Trim the surplus from the first segment at that segment's speed.
+    const segDist = next.distM! - start.distM!;
+    const segTime = (next.time - start.time) / 1000;
+    const surplus = covered - meters;
+    const seconds = (end.time - start.time) / 1000 - (segDist > 0 ? (surplus / segDist) * segTime : 0);
+    if (seconds > 0 && (best == null || seconds < best)) best = seconds;
+  }
+  return best;
+}
+
+/** Best average of a per-sample value over `seconds` (time-weighted, step-held). */
+function bestAverageOverDuration(
+  track: TrackPoint[],
+  seconds: number,
+  cumulative: (pts: TrackPoint[]) => number[],
+): number | null {
+  if (track.length < 2) return null;
+  const span = (track[track.length - 1]!.time - track[0]!.time) / 1000;
+  if (span < seconds) return null;
+  const acc = cumulative(track);
+
+  let best: number | null = null;
+  let i = 0;
+  for (let j = 1; j < track.length; j++) {
+    while (i + 1 < j && (track[j]!.time - track[i + 1]!.time) / 1000 >= seconds) i++;
+    const dt = (track[j]!.time - track[i]!.time) / 1000;
+    if (dt < seconds) continue;
+    const avg = (acc[j]! - acc[i]!) / dt;
+    if (best == null || avg > best) best = avg;
+  }
+  return best;
+}
+
+function cumulativeEnergy(pts: TrackPoint[]): number[] {
+  const out = [0];
+  for (let k = 1; k < pts.length; k++) {
+    const dt = (pts[k]!.time - pts[k - 1]!.time) / 1000;
+    const watts = dt <= MAX_POWER_GAP_S ? pts[k - 1]!.power ?? 0 : 0;
+    out.push(out[k - 1]! + watts * dt);
+  }
+  return out;
+}
+
+function cumulativeDistance(pts: TrackPoint[]): number[] {
+  const base = pts[0]!.distM ?? 0;
+  return pts.map((p) => (p.distM ?? base) - base);
+}
+
+export function bestPowerForDuration(track: TrackPoint[], seconds: number): number | null {
+  if (!track.some((p) => p.power != null && p.power > 0)) return null;
+  return bestAverageOverDuration(track, seconds, cumulativeEnergy);
+}
+
+export function bestSpeedForDuration(track: TrackPoint[], seconds: number): number | null {
+  if (!track.some((p) => p.distM != null)) return null;
+  return bestAverageOverDuration(track, seconds, cumulativeDistance);
+}
+
+/* ----------------------------- Records by year ----------------------------- */
+
+type Candidate = { key: string; value: number; effort: BestEffort };
+
+function effortsForActivity(a: ActivityFile, year: number, bikeKind: 'power' | 'speed'): Candidate[] {
+  const type = canonicalizeActivityType(toStringSafe(a.row['Activity Type']));
+  if (type !== 'Running' && type !== 'Cycling') return [];
+  const track = withCumulativeDistance(a.track);
+  const meta = {
+    year,
+    date: formatDateDisplay(parseDateWithLocale(a.row['Date'])),
+    title: toStringSafe(a.row['Title']) || type,
+  };
+
+  const out: Candidate[] = [];
+  if (type === 'Running') {
+    for (const d of RUN_DISTANCES) {
+      const t = bestTimeForDistance(track, d.meters);
+      if (t != null && d.meters / t <= MAX_RUN_SPEED_MPS) out.push({ key: d.key, value: t, effort: { ...meta, value: t } });
+    }
+  } else {
+    for (const d of BIKE_DURATIONS) {
+      const v = bikeKind === 'power' ? bestPowerForDuration(track, d.seconds) : bestSpeedForDuration(track, d.seconds);
+      if (v == null || v <= 0) continue;
+      if (bikeKind === 'speed' && v > MAX_BIKE_SPEED_MPS) continue;
+      out.push({ key: d.key, value: v, effort: { ...meta, value: v } });
+    }
+  }
+  return out;
+}
+
+/** Lower is better for times, higher for power/speed. */
+const beats = (kind: EffortKind, a: number, b: number) => (kind === 'time' ? a < b : a > b);
+
+export function computePersonalRecords(activities: ActivityFile[], focusYear: number): PersonalRecords | null {
+  const byRow = new Map(activities.map((a) => [a.row, a]));
+  const byYear = partitionByYear(activities.map((a) => a.row));
+
+  const hasPower = activities.some((a) =>
+    canonicalizeActivityType(toStringSafe(a.row['Activity Type'])) === 'Cycling' && a.track.some((p) => p.power != null && p.power > 0));
+  const bikeKind = hasPower ? 'power' : 'speed';
+
+  // best[key][year] = the year's best effort for that key
+  const best = new Map<string, Map<number, BestEffort>>();
+  for (const [year, rows] of byYear) {
+    for (const row of rows) {
+      const a = byRow.get(row);
+      if (!a) continue;
+      for (const c of effortsForActivity(a, year, bikeKind)) {
+        const kind: EffortKind = RUN_DISTANCES.some((d) => d.key === c.key) ? 'time' : bikeKind;
+        const perYear = best.get(c.key) ?? new Map<number, BestEffort>();
+        const prev = perYear.get(year);
+        if (!prev || beats(kind, c.value, prev.value)) perYear.set(year, c.effort);
+        best.set(c.key, perYear);
+      }
+    }
+  }
+
+  const entry = (key: string, label: string, kind: EffortKind): RecordEntry | null => {
+    const perYear = best.get(key);
+    if (!perYear) return null;
+    const pick = (years: number[]) =>
+      years.map((y) => perYear.get(y)!).reduce<BestEffort | null>((acc, e) => (!acc || beats(kind, e.value, acc.value) ? e : acc), null);
+    const years = Array.from(perYear.keys());
+    const yearBest = perYear.get(focusYear) ?? null;
+    const allTimeBest = pick(years);
+    const priorBest = pick(years.filter((y) => y < focusYear));
+    return {
+      key, label, kind, yearBest, allTimeBest, priorBest,
+      isAllTimePr: !!yearBest && allTimeBest === yearBest,
+    };
+  };
+
+  const run = RUN_DISTANCES.map((d) => entry(d.key, d.label, 'time')).filter((e): e is RecordEntry => !!e);
+  const bike = BIKE_DURATIONS.map((d) => entry(d.key, d.label, bikeKind)).filter((e): e is RecordEntry => !!e);
+  if (!run.length && !bike.length) return null;
+  return { focusYear, run, bike, bikeKind };
+}
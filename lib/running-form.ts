@@ -0,0 +1,116 @@
+// lib/running-form.ts — Running dynamics for a year: cadence, stride, vertical ratio, GCT.
+//
+// Reads the per-run averages Garmin exports (see ActivityRecord) and summarizes them:
+// a cadence histogram, year averages, how cadence moved from the first months to the
+// last, and one pace/cadence point per run for the scatter. Stride length and the
+// month-by-month means live in computeTrends alongside the other monthly series.
+
+import type { CsvRow, UnitHint, UnitSystem } from './types';
+import { parseDateWithLocale, parseTimeToSeconds, toStringSafe } from './parse';
+import { canonicalizeActivityType, recordDistanceUnit, toActivityRecord } from './activity-columns';
+import { normalizeDistanceToMiles } from './normalize';
+
+export type CadenceBin = { lo: number; hi: number | null; runs: number };   // hi null = open-ended
+
+export type FormPoint = { cadence: number; secPerMi: number; monthIdx: number };
+
+export type RunningForm = {
+  runs: number;                        // runs with a cadence
+  avgCadence: number;
+  maxCadence: number | null;           // highest Max Run Cadence
+  avgStrideM: number | null;
+  avgVerticalRatio: number | null;     // %
+  avgGroundContactMs: number | null;
+  cadenceBins: CadenceBin[];
+  points: FormPoint[];                 // one per run with cadence and pace
+  cadenceShift: { earlySpm: number; lateSpm: number } | null;   // first vs last quarter of runs
+  paceCadenceR: number | null;         // Pearson r; negative = faster runs had higher cadence
+};
+
+const BIN_WIDTH = 5;
+const BIN_LO = 150;                    // everything below folds into "< 150"
+const BIN_HI = 190;                    // everything from here up folds into "190+"
+const MIN_RUN_MI = 0.5;
+const MIN_CORRELATION_POINTS = 8;
+
+export function cadenceBins(cadences: number[]): CadenceBin[] {
+  const bins: CadenceBin[] = [{ lo: 0, hi: BIN_LO, runs: 0 }];
+  for (let lo = BIN_LO; lo < BIN_HI; lo += BIN_WIDTH) bins.push({ lo, hi: lo + BIN_WIDTH, runs: 0 });
+  bins.push({ lo: BIN_HI, hi: null, runs: 0 });
+  for (const c of cadences) {
+    const bin = bins.find((b) => c >= b.lo && (b.hi == null || c < b.hi));
+    if (bin) bin.runs += 1;
+  }
+  // Drop the empty bins at either end; gaps in the middle stay visible.
+  const first = bins.findIndex((b) => b.runs > 0);
+  const last = bins.length - 1 - [...bins].reverse().findIndex((b) => b.runs > 0);
+  return first === -1 ? [] : bins.slice(first, last + 1);
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < MIN_CORRELATION_POINTS) return null;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i]! - mx, dy = ys[i]! - my;
+    sxy += dx * dy; sxx += dx * dx; syy += dy * dy;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+}
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+
+/** Running form for one year's rows, or null when no run carries a cadence. */
+export function computeRunningForm(
+  rows: CsvRow[],
+  unitSystem: UnitSystem,
+  unitHints: { distance: UnitHint; ascent: UnitHint; elevation: UnitHint }
+): RunningForm | null {
+  const recordUnit = recordDistanceUnit(unitHints.distance, unitSystem);
+  const runs: Array<{ date: Date; cadence: number; secPerMi: number | null }> = [];
+  const maxCadences: number[] = [], strides: number[] = [], ratios: number[] = [], gcts: number[] = [];
+
+  for (const row of rows) {
+    const type = canonicalizeActivityType(toStringSafe(row['Activity Type']));
+    if (type !== 'Running') continue;
+    const date = parseDateWithLocale(row['Date']);
+    if (!date) continue;
+    const rec = toActivityRecord(row, recordUnit);
+    if (rec.maxRunCadence != null) maxCadences.push(rec.maxRunCadence);
+    if (rec.avgStrideLengthM != null) strides.push(rec.avgStrideLengthM);
+    if (rec.avgVerticalRatio != null) ratios.push(rec.avgVerticalRatio);
+    if (rec.avgGroundContactMs != null) gcts.push(rec.avgGroundContactMs);
+    if (rec.avgRunCadence == null) continue;
+
+    const distMi = normalizeDistanceToMiles(row['Distance'], type, unitHints.distance, unitSystem);
+    const seconds = parseTimeToSeconds(row['Time'] ?? row['Moving Time'] ?? row['Elapsed Time']);
+    runs.push({ date, cadence: rec.avgRunCadence, secPerMi: distMi >= MIN_RUN_MI && seconds > 0 ? seconds / distMi : null });
+  }
+  if (!runs.length) return null;
+
+  runs.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const cadences = runs.map((r) => r.cadence);
+  const points = runs
+    .filter((r): r is typeof r & { secPerMi: number } => r.secPerMi != null)
+    .map((r) => ({ cadence: r.cadence, secPerMi: r.secPerMi, monthIdx: r.date.getMonth() }));
+
+  const quarter = Math.floor(runs.length / 4);
+  const cadenceShift = quarter >= 3
+    ? { earlySpm: mean(cadences.slice(0, quarter))!, lateSpm: mean(cadences.slice(-quarter))! }
+    : null;
+
+  return {
+    runs: runs.length,
+    avgCadence: mean(cadences)!,
+    maxCadence: maxCadences.length ? Math.max(...maxCadences) : null,
+    avgStrideM: mean(strides),
+    avgVerticalRatio: mean(ratios),
+    avgGroundContactMs: mean(gcts),
+    cadenceBins: cadenceBins(cadences),
+    points,
+    cadenceShift,
+    paceCadenceR: pearson(points.map((p) => p.secPerMi), points.map((p) => p.cadence)),
+  };
+}
@@ -0,0 +1,98 @@
+// lib/sleep-nights.ts — Night-by-night sleep: stages, regularity, social jetlag, streaks.
+//
+// Needs daily sleep (daily Sleep CSV or the account archive); the weekly one-year report
+// can't say anything about single nights. A night belongs to the day it ends on, as in
+// Garmin Connect, so "weekend" nights are the ones ending on Saturday or Sunday.
+// Regularity is the standard deviation of bedtime and wake time, and social jetlag the
+// shift in sleep midpoint between weekend and weekday nights.
+
+import type { SleepNights, SleepStage, WellnessDay } from './types';
+
+const SEVEN_HOURS = 7 * 60;
+const MIN_CLOCK_NIGHTS = 7;        // for bedtime / wake-time spread
+const MIN_JETLAG_NIGHTS = 4;       // per side, weekend and weekday
+const DAY_MS = 86_400_000;
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+const sd = (xs: number[]) => { const m = mean(xs); return Math.sqrt(mean(xs.map((x) => (x - m) ** 2))); };
+
+/** Bedtimes straddle midnight: count anything before noon as the next day (00:30 → 24:30). */
+const unwrapBedtime = (min: number) => (min < 12 * 60 ? min + 1440 : min);
+
+const dayMs = (iso: string) => new Date(iso + 'T00:00:00').getTime();
+
+function clockSpread(values: number[]): { avg: number; sd: number } | null {
+  return values.length >= MIN_CLOCK_NIGHTS ? { avg: mean(values), sd: sd(values) } : null;
+}
+
+/** Sleep midpoint for one night, on the unwrapped bedtime scale. */
+function midpoint(d: WellnessDay): number | null {
+  if (d.bedtime == null) return null;
+  const bed = unwrapBedtime(d.bedtime);
+  if (d.wakeTime != null) {
+    let wake = d.wakeTime;
+    while (wake <= bed) wake += 1440;
+    return (bed + wake) / 2;
+  }
+  return d.sleepMinutes ? bed + d.sleepMinutes / 2 : null;
+}
+
+/** Sleep detail for one year's wellness days, or null when none carry sleep. */
+export function computeSleepNights(days: WellnessDay[]): SleepNights | null {
+  const nights = days
+    .filter((d) => (d.sleepMinutes ?? 0) > 0 || (d.sleepScore ?? 0) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (!nights.length) return null;
+
+  const stages: Record<SleepStage, number> = { deep: 0, light: 0, rem: 0, awake: 0 };
+  for (const d of nights) {
+    stages.deep += d.deepMinutes ?? 0;
+    stages.light += d.lightMinutes ?? 0;
+    stages.rem += d.remMinutes ?? 0;
+    stages.awake += d.awakeMinutes ?? 0;
+  }
+  const staged = stages.deep + stages.light + stages.rem + stages.awake;
+  const stageShare = staged > 0
+    ? { deep: stages.deep / staged, light: stages.light / staged, rem: stages.rem / staged, awake: stages.awake / staged }
+    : null;
+
+  const weekday: number[] = [], weekend: number[] = [];
+  for (const d of nights) {
+    const mid = midpoint(d);
+    if (mid == null) continue;
+    const dow = new Date(d.date + 'T00:00:00').getDay();
+    (dow === 0 || dow === 6 ? weekend : weekday).push(mid);
+  }
+  const jetlagReady = weekday.length >= MIN_JETLAG_NIGHTS && weekend.length >= MIN_JETLAG_NIGHTS;
+
+  let bestNight: SleepNights['bestNight'] = null;
+  for (const d of nights) {
+    if (d.sleepScore == null) continue;
+    const minutes = d.sleepMinutes ?? 0;
+    if (!bestNight || d.sleepScore > bestNight.score || (d.sleepScore === bestNight.score && minutes > bestNight.minutes)) {
+      bestNight = { date: d.date, score: d.sleepScore, minutes };
+    }
+  }
+
+  let longestStreak: SleepNights['longestStreak'] = null;
+  let run: NonNullable<SleepNights['longestStreak']> | null = null;
+  for (const d of nights) {
+    if ((d.sleepMinutes ?? 0) < SEVEN_HOURS) { run = null; continue; }
+    // A missing night breaks the streak just like a short one.
+    if (run && Math.round((dayMs(d.date) - dayMs(run.end)) / DAY_MS) === 1) { run.nights += 1; run.end = d.date; }
+    else run = { nights: 1, start: d.date, end: d.date };
+    if (!longestStreak || run.nights > longestStreak.nights) longestStreak = { ...run };
+  }
+
+  return {
+    nights: nights.length,
+    stageShare,
+    bedtime: clockSpread(nights.filter((d) => d.bedtime != null).map((d) => unwrapBedtime(d.bedtime!))),
+    wakeTime: clockSpread(nights.filter((d) => d.wakeTime != null).map((d) => d.wakeTime!)),
+    socialJetlagMinutes: jetlagReady ? Math.abs(mean(weekend) - mean(weekday)) : null,
+    weekdayMidpoint: jetlagReady ? mean(weekday) : null,
+    weekendMidpoint: jetlagReady ? mean(weekend) : null,
+    bestNight,
+    longestStreak,
+  };
+}
@@ -0,0 +1,161 @@
+// lib/story-video.ts — Story mode as a slideshow video, encoded in the browser.
+//
+// Each scene arrives as a stack of full-frame layer images (backdrop, glow, motif, scrim,
+// content) captured from the real scene markup, so the video matches the on-screen look
+// without re-implementing it. The canvas replays story mode's entrance — glow fading in,
+// the motif settling from 110 %, the copy rising into place — with the same timings as
+// the CSS, then holds the settled scene. MediaRecorder encodes the canvas stream in real
+// time; it is paused while the next scene is captured and while the tab is hidden (when
+// the browser stops animation frames), so neither shows up in the video.
+
+export type VideoFormat = 'story916' | 'feed45';
+
+export const VIDEO_FORMATS: Record<VideoFormat, { label: string; tag: string; w: number; h: number }> = {
+  story916: { label: '9:16 Reels', tag: '9x16', w: 1080, h: 1920 },
+  feed45:   { label: '4:5 Feed', tag: '4x5', w: 1080, h: 1350 },
+};
+
+export const HOLD_OPTIONS_MS = [2000, 3000, 4000, 5000];
+
+export type SceneLayers = {
+  backdrop: CanvasImageSource;
+  glow: CanvasImageSource;
+  motif: CanvasImageSource;
+  motifCenter: { x: number; y: number };   // canvas px; the motif scales about this point
+  scrim: CanvasImageSource;
+  content: CanvasImageSource;
+  rise: number;                             // canvas px the content rises (translate-y-6)
+};
+
+const FPS = 30;
+const BITRATE = 8_000_000;
+
+// Mirrors SceneView's transitions.
+const GLOW_MS = 1000;
+const MOTIF_MS = 1200;
+const CONTENT_MS = 700;
+const MOTIF_FROM_SCALE = 1.1;
+
+/** The entrance plays out before a scene's hold starts. */
+export const ENTRANCE_MS = Math.max(GLOW_MS, MOTIF_MS, CONTENT_MS);
+
+/** A scene's length in the video: its entrance, then `holdMs` settled. */
+export const sceneDurationMs = (holdMs: number) => ENTRANCE_MS + holdMs;
+
+// MP4 where the browser records it (Safari, recent Chrome), WebM everywhere else.
+const MIME_CANDIDATES = [
+  'video/mp4;codecs=avc1',
+  'video/mp4',
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+];
+
+/** True when this browser can record a canvas to video. */
+export function canRecordVideo(): boolean {
+  return typeof MediaRecorder !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    && MIME_CANDIDATES.some((m) => MediaRecorder.isTypeSupported(m));
+}
+
+/** File extension for a recorded blob's type. */
+export const videoExtension = (mime: string) => (mime.startsWith('video/mp4') ? 'mp4' : 'webm');
+
+const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+// CSS's default `ease`, close enough for a fade.
+const ease = (t: number) => t * t * (3 - 2 * t);
+const progress = (ms: number, duration: number) => Math.min(1, Math.max(0, ms / duration));
+
+/** Draw one scene `ms` milliseconds after it entered. */
+export function drawSceneFrame(ctx: CanvasRenderingContext2D, layers: SceneLayers, ms: number) {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+  ctx.globalAlpha = 1;
+  ctx.drawImage(layers.backdrop, 0, 0, width, height);
+
+  ctx.globalAlpha = ease(progress(ms, GLOW_MS));
+  ctx.drawImage(layers.glow, 0, 0, width, height);
+
+  const m = easeOut(progress(ms, MOTIF_MS));
+  const scale = MOTIF_FROM_SCALE - (MOTIF_FROM_SCALE - 1) * m;
+  const { x, y } = layers.motifCenter;
+  ctx.globalAlpha = m;
+  ctx.setTransform(scale, 0, 0, scale, x - x * scale, y - y * scale);
+  ctx.drawImage(layers.motif, 0, 0, width, height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  ctx.globalAlpha = 1;
+  ctx.drawImage(layers.scrim, 0, 0, width, height);
+
+  const c = easeOut(progress(ms, CONTENT_MS));
+  ctx.globalAlpha = c;
+  ctx.drawImage(layers.content, 0, layers.rise * (1 - c), width, height);
+  ctx.restore();
+}
+
+export type StoryRecorder = {
+  mime: string;
+  /** Play one scene's entrance, then hold the settled scene for `holdMs`, recording as it goes. */
+  playScene: (layers: SceneLayers, holdMs: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+};
+
+/**
+ * Start recording `canvas`. The recorder stays paused between playScene calls, so the
+ * caller can take as long as it likes to capture the next scene's layers.
+ */
+export function createStoryRecorder(canvas: HTMLCanvasElement): StoryRecorder {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  const mime = MIME_CANDIDATES.find((m) => MediaRecorder.isTypeSupported(m))!;
+  const stream = canvas.captureStream(FPS);
+  const recorder = new MediaRecorder(stream, { mimeType: mime, videoBitsPerSecond: BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+
+  const playScene = (layers: SceneLayers, holdMs: number) => new Promise<void>((resolve) => {
+    const total = sceneDurationMs(holdMs);
+    // The first frame goes down before recording resumes, so no stale frame leaks in.
+    drawSceneFrame(ctx, layers, 0);
+    if (recorder.state === 'inactive') recorder.start();
+    else recorder.resume();
+    let start = performance.now();
+    let hiddenAt: number | null = null;
+    // A hidden tab gets no animation frames; pause rather than record a frozen frame, and
+    // shift the scene clock by the time away.
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        if (hiddenAt == null && recorder.state === 'recording') { hiddenAt = performance.now(); recorder.pause(); }
+      } else if (hiddenAt != null) {
+        start += performance.now() - hiddenAt;
+        hiddenAt = null;
+        recorder.resume();
+      }
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    onVisibility();   // the tab may already be hidden while the layers were captured
+    const tick = (now: number) => {
+      if (hiddenAt != null) { requestAnimationFrame(tick); return; }
+      const ms = now - start;
+      drawSceneFrame(ctx, layers, ms);
+      if (ms < total) { requestAnimationFrame(tick); return; }
+      document.removeEventListener('visibilitychange', onVisibility);
+      recorder.pause();
+      resolve();
+    };
+    requestAnimationFrame(tick);
+  });
+
+  const finish = () => new Promise<Blob>((resolve) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach((t) => t.stop());
+      resolve(new Blob(chunks, { type: mime.split(';')[0] }));
+    };
+    if (recorder.state === 'inactive') recorder.start();
+    recorder.stop();
+  });
+
+  return { mime, playScene, finish };
+}
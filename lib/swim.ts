@@ -0,0 +1,91 @@
+// lib/swim.ts — Swim breakdown: pool vs open water, strokes, SWOLF and pace by month.
+//
+// The activity type says "Pool Swim" or "Open Water Swimming" (in the export's language)
+// for most watches; a generic "Swimming" counts as a pool swim, the common case.
+// Distances are meters like swimMeters. The Activities CSV writes a yard-pool swim's
+// distance in yards, so swimDistanceMeters converts those; device-file and archive rows
+// are meters already. A yard pool (Pool Length Unit "yd", a 22.86/45.72 m length, or a
+// bare 25/50 in a statute export) also switches the unit they're shown in.
+
+import type { ActivityRecord, CsvRow, SwimSummary, SwimVenue } from './types';
+import { parseNumber, toStringSafe } from './parse';
+import { formatDateDisplay } from './format';
+import { normalizeKey } from './activity-columns';
+import { YARD_M } from './constants';
+
+export type SwimEntry = { row: CsvRow; rawType: string; rec: ActivityRecord; date: Date | null; seconds: number; meters: number };
+
+const OPEN_WATER_RE = /openwater|eaulibre|freiwasser|aguasabiertas|acquelibere|openwaterzwemmen|aguasabertas/;
+const YARD_POOL_LENGTHS_M = [25 * YARD_M, 50 * YARD_M];
+
+export function swimVenueOf(rawType: string): SwimVenue {
+  return OPEN_WATER_RE.test(normalizeKey(rawType)) ? 'openWater' : 'pool';
+}
+
+export function isYardPool(rec: ActivityRecord): boolean {
+  if (rec.poolLengthUnit) return rec.poolLengthUnit === 'yd';
+  return rec.poolLengthM != null && YARD_POOL_LENGTHS_M.some((l) => Math.abs(rec.poolLengthM! - l) < 0.05);
+}
+
+/**
+ * A swim row's distance in meters. `metricRows` is true for device-file and archive rows
+ * (METRIC_FILE_UNIT_HINTS), which never need converting.
+ */
+export function swimDistanceMeters(row: CsvRow, rec: ActivityRecord, metricRows: boolean): number {
+  const v = parseNumber(row['Distance']);
+  return !metricRows && isYardPool(rec) ? v * YARD_M : v;
+}
+
+/** Swim summary for a year's swims, or undefined when there are none. */
+export function computeSwimSummary(swims: SwimEntry[]): SwimSummary | undefined {
+  if (!swims.length) return undefined;
+
+  const venues: SwimSummary['venues'] = {
+    pool: { sessions: 0, meters: 0, seconds: 0 },
+    openWater: { sessions: 0, meters: 0, seconds: 0 },
+  };
+  let yardMeters = 0, meterPoolMeters = 0;
+  let totalStrokes = 0, strokeMeters = 0, swolfSum = 0, swolfCount = 0;
+  const monthly = Array.from({ length: 12 }, () => ({ meters: 0, seconds: 0 }));
+  let longestOpen: SwimEntry | null = null;
+
+  for (const s of swims) {
+    const venue = swimVenueOf(s.rawType);
+    const v = venues[venue];
+    v.sessions += 1; v.meters += s.meters; v.seconds += s.seconds;
+
+    if (venue === 'pool') {
+      if (isYardPool(s.rec)) yardMeters += s.meters;
+      else meterPoolMeters += s.meters;
+      // SWOLF needs fixed lengths, so it's a pool-only number.
+      if (s.rec.avgSwolf != null) { swolfSum += s.rec.avgSwolf; swolfCount += 1; }
+    } else if (!longestOpen || s.meters > longestOpen.meters) {
+      longestOpen = s;
+    }
+    if (s.rec.totalStrokes != null && s.meters > 0) { totalStrokes += s.rec.totalStrokes; strokeMeters += s.meters; }
+    if (s.date && s.meters > 0 && s.seconds > 0) {
+      const mo = monthly[s.date.getMonth()]!;
+      mo.meters += s.meters; mo.seconds += s.seconds;
+    }
+  }
+
+  const displayUnit = yardMeters > meterPoolMeters ? 'yd' : 'm';
+  const unitMeters = displayUnit === 'yd' ? YARD_M : 1;
+
+  return {
+    venues,
+    displayUnit,
+    totalStrokes: totalStrokes || null,
+    strokesPer100: strokeMeters > 0 ? (totalStrokes / strokeMeters) * 100 * unitMeters : null,
+    avgSwolf: swolfCount ? swolfSum / swolfCount : null,
+    monthlyPacePer100: monthly.map((mo) => (mo.meters > 0 ? (mo.seconds / mo.meters) * 100 * unitMeters : null)),
+    longestOpenWater: longestOpen && longestOpen.meters > 0
+      ? {
+          title: toStringSafe(longestOpen.row['Title']) || 'Open water swim',
+          date: formatDateDisplay(longestOpen.date),
+          meters: longestOpen.meters,
+          seconds: longestOpen.seconds,
+        }
+      : null,
+  };
+}
@@ -0,0 +1,45 @@
+// lib/tcx.ts — TCX (Training Center XML) activity import.
+//
+// Distance and elevation come from the trackpoints (lib/track.ts); timer time and
+// calories come from the lap totals, which the device writes exactly. One activity per
+// <Activity>. Speed, power and run cadence are read from the ActivityExtension TPX block.
+
+import type { ActivityFile, TrackPoint } from './types';
+import { parseXml, xmlElements, xmlNumber, xmlText } from './parse';
+import { activityLabelFromFile, rowFromTrack, withCumulativeDistance } from './track';
+
+function toPoint(tp: Element): TrackPoint | null {
+  const time = Date.parse(xmlText(tp, 'Time') ?? '');
+  if (!Number.isFinite(time)) return null;
+  const p: TrackPoint = { time };
+  const lat = xmlNumber(tp, 'LatitudeDegrees'), lon = xmlNumber(tp, 'LongitudeDegrees');
+  if (lat != null && lon != null) { p.lat = lat; p.lon = lon; }
+  const alt = xmlNumber(tp, 'AltitudeMeters'); if (alt != null) p.altM = alt;
+  const dist = xmlNumber(tp, 'DistanceMeters'); if (dist != null) p.distM = dist;
+  const hr = xmlNumber(tp, 'Value'); if (hr != null) p.hr = hr; // HeartRateBpm/Value
+  const cad = xmlNumber(tp, 'Cadence') ?? xmlNumber(tp, 'RunCadence'); if (cad != null) p.cadence = cad;
+  const power = xmlNumber(tp, 'Watts'); if (power != null) p.power = power;
+  const speed = xmlNumber(tp, 'Speed'); if (speed != null) p.speedMps = speed;
+  return p;
+}
+
+export function parseTcx(xml: string): ActivityFile[] {
+  const doc = parseXml(xml);
+  const out: ActivityFile[] = [];
+  for (const act of xmlElements(doc, 'Activity')) {
+    const laps = xmlElements(act, 'Lap');
+    const timerSeconds = laps.reduce((s, l) => s + (xmlNumber(l, 'TotalTimeSeconds') ?? 0), 0);
+    const calories = laps.reduce((s, l) => s + (xmlNumber(l, 'Calories') ?? 0), 0);
+    const points = xmlElements(act, 'Trackpoint').map(toPoint).filter((p): p is TrackPoint => !!p);
+    // Trackpoints without a distance (pauses) would break the cumulative series.
+    const track = withCumulativeDistance(points.some((p) => p.distM != null) ? points.filter((p) => p.distM != null) : points);
+    const type = activityLabelFromFile(act.getAttribute('Sport'));
+    const row = rowFromTrack(track, { type, title: xmlText(act, 'Notes', true) ?? undefined, timerSeconds, calories });
+    if (row) out.push({ row, track });
+  }
+  return out;
+}
+
+export function isTcxFileName(name: string): boolean {
+  return /\.tcx$/i.test(name);
+}
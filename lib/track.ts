@@ -0,0 +1,154 @@
+// lib/track.ts — Track-derived activity metrics (shared by the GPX/TCX parsers).
+//
+// Files without a device-written summary only give us samples, so distance, time,
+// ascent and elevation are rebuilt here: haversine distance between fixes, and an
+// elevation gain that smooths GPS/barometer noise before counting climbs.
+
+import type { CsvRow, TrackPoint } from './types';
+import { formatCsvDateTime, formatCsvDuration, round2 } from './format';
+
+const EARTH_RADIUS_M = 6371008.8;
+const ELEVATION_SMOOTHING_WINDOW = 5;   // samples, centered moving average
+const ELEVATION_HYSTERESIS_M = 2;       // ignore wiggles smaller than this
+const MOVING_SPEED_MPS = 0.5;           // slower than this counts as stopped
+const MAX_SAMPLE_GAP_S = 60;            // longer gaps are pauses, not movement
+
+export function haversineM(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLon = (lon2 - lon1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Fill in cumulative `distM` from GPS fixes where the file didn't record it
+ * (GPX never does). Points are returned sorted by time; device distances win.
+ */
+export function withCumulativeDistance(points: TrackPoint[]): TrackPoint[] {
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+  if (sorted.some((p) => p.distM != null)) return sorted;
+  let total = 0;
+  let prev: TrackPoint | null = null;
+  return sorted.map((p) => {
+    if (p.lat != null && p.lon != null) {
+      if (prev && prev.lat != null && prev.lon != null) total += haversineM(prev.lat, prev.lon, p.lat, p.lon);
+      prev = p;
+    }
+    return { ...p, distM: total };
+  });
+}
+
+function smoothedAltitudes(points: TrackPoint[]): number[] {
+  const alts = points.map((p) => p.altM).filter((a): a is number => a != null);
+  const half = Math.floor(ELEVATION_SMOOTHING_WINDOW / 2);
+  return alts.map((_, i) => {
+    const win = alts.slice(Math.max(0, i - half), i + half + 1);
+    return win.reduce((s, a) => s + a, 0) / win.length;
+  });
+}
+
+export type TrackSummary = {
+  distanceM: number;
+  elapsedSeconds: number;
+  movingSeconds: number;
+  ascentM: number | null;
+  descentM: number | null;
+  maxAltM: number | null;
+  minAltM: number | null;
+  avgHr: number | null;
+  maxHr: number | null;
+};
+
+/** Expects points from withCumulativeDistance (time-sorted, distM filled). */
+export function summarizeTrack(points: TrackPoint[]): TrackSummary {
+  const first = points[0], last = points[points.length - 1];
+  const elapsedSeconds = first && last ? (last.time - first.time) / 1000 : 0;
+
+  let distanceM = 0, movingSeconds = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!, b = points[i]!;
+    const dt = (b.time - a.time) / 1000;
+    const dd = Math.max(0, (b.distM ?? 0) - (a.distM ?? 0));
+    distanceM += dd;
+    if (dt > 0 && dt <= MAX_SAMPLE_GAP_S && dd / dt >= MOVING_SPEED_MPS) movingSeconds += dt;
+  }
+
+  const alts = smoothedAltitudes(points);
+  let ascentM: number | null = null, descentM: number | null = null;
+  if (alts.length > 1) {
+    ascentM = 0; descentM = 0;
+    let ref = alts[0]!;
+    for (const alt of alts) {
+      if (alt - ref >= ELEVATION_HYSTERESIS_M) { ascentM += alt - ref; ref = alt; }
+      else if (ref - alt >= ELEVATION_HYSTERESIS_M) { descentM += ref - alt; ref = alt; }
+    }
+  }
+
+  // Loops, not Math.max(...xs): a long 1 Hz track overflows the argument limit.
+  let maxAltM: number | null = null, minAltM: number | null = null;
+  for (const a of alts) {
+    if (maxAltM == null || a > maxAltM) maxAltM = a;
+    if (minAltM == null || a < minAltM) minAltM = a;
+  }
+  let hrSum = 0, hrCount = 0, maxHr: number | null = null;
+  for (const p of points) {
+    if (p.hr == null || p.hr <= 0) continue;
+    hrSum += p.hr; hrCount++;
+    if (maxHr == null || p.hr > maxHr) maxHr = p.hr;
+  }
+  return {
+    distanceM,
+    elapsedSeconds,
+    movingSeconds,
+    ascentM,
+    descentM,
+    maxAltM,
+    minAltM,
+    avgHr: hrCount ? hrSum / hrCount : null,
+    maxHr,
+  };
+}
+
+/**
+ * Build an Activities-CSV-shaped row (metric units) from a track. `timerSeconds` and
+ * `calories` come from file-level totals when the format has them (TCX laps).
+ */
+export function rowFromTrack(
+  points: TrackPoint[],
+  meta: { type: string; title?: string; timerSeconds?: number; calories?: number },
+): CsvRow | null {
+  const first = points[0];
+  if (!first) return null;
+  const s = summarizeTrack(points);
+  const timer = meta.timerSeconds || s.movingSeconds || s.elapsedSeconds;
+  return {
+    'Activity Type': meta.type,
+    // GPX and TCX carry UTC times with no offset, so this is the browser's time zone. FIT
+    // rows use the watch's own local time (lib/fit.ts): the same activity abroad can land
+    // on a different hour or day depending on which file was uploaded.
+    'Date': formatCsvDateTime(new Date(first.time)),
+    'Title': meta.title || meta.type,
+    'Distance': round2(s.distanceM),
+    'Calories': meta.calories ? Math.round(meta.calories) : null,
+    'Time': formatCsvDuration(timer),
+    'Avg HR': s.avgHr != null ? Math.round(s.avgHr) : null,
+    'Max HR': s.maxHr,
+    'Total Ascent': s.ascentM != null ? Math.round(s.ascentM) : null,
+    'Moving Time': formatCsvDuration(s.movingSeconds),
+    'Elapsed Time': formatCsvDuration(s.elapsedSeconds),
+    'Max Elevation': round2(s.maxAltM),
+    'Steps': null,
+    'Total Descent': s.descentM != null ? Math.round(s.descentM) : null,
+    'Min Elevation': round2(s.minAltM),
+  };
+}
+
+/** "running" / "Biking" / "trail_running" → a label canonicalizeActivityType understands. */
+export function activityLabelFromFile(raw: string | null | undefined): string {
+  const s = (raw ?? '').trim();
+  if (!s) return 'Other';
+  if (/^bik(e|ing)$|^ride$/i.test(s)) return 'Cycling';
+  if (/^run$/i.test(s)) return 'Running';
+  return s.replace(/[_-]+/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
@@ -4,9 +4,10 @@
 // Powers month-by-month sparklines and "you got faster / went longer" callouts.
 
 import type { CsvRow, UnitHint, UnitSystem } from './types';
-import { parseDateWithLocale, parseTimeToSeconds, parseNumber } from './parse';
-import { canonicalizeActivityType } from './activity-columns';
+import { parseDateWithLocale, parseTimeToSeconds } from './parse';
+import { canonicalizeActivityType, recordDistanceUnit, toActivityRecord } from './activity-columns';
 import { normalizeDistanceToMiles } from './normalize';
+import { swimDistanceMeters } from './swim';
 
 export type MonthlyPoint = {
   distanceMi: number;      // all activities, miles
@@ -17,6 +18,8 @@ export type MonthlyPoint = {
   bikeMi: number;          // cycling only, miles
   swimMeters: number;      // swimming only, raw meters
   otherMi: number;         // everything else (hiking, rowing, walking, …), miles
+  runStrideM: number | null;   // mean Avg Stride Length of the month's runs, meters
+  runCadenceSpm: number | null; // mean Avg Run Cadence of the month's runs
 };
 
 export type TrendMetrics = {
@@ -35,10 +38,17 @@ export type TrendMetrics = {
     peakMonthIdx: number | null;
     grewBy: number | null;              // peak - earliest, when positive
   };
+  strideLength: {
+    firstMonthIdx: number;              // first month with stride data
+    firstM: number;
+    lastMonthIdx: number;               // last month with stride data
+    lastM: number;
+    changeM: number;                    // last - first
+  } | null;
 };
 
 function emptyMonth(): MonthlyPoint {
-  return { distanceMi: 0, seconds: 0, sessions: 0, longestRunMi: 0, runMi: 0, bikeMi: 0, swimMeters: 0, otherMi: 0 };
+  return { distanceMi: 0, seconds: 0, sessions: 0, longestRunMi: 0, runMi: 0, bikeMi: 0, swimMeters: 0, otherMi: 0, runStrideM: null, runCadenceSpm: null };
 }
 
 export function computeTrends(
@@ -49,6 +59,8 @@ export function computeTrends(
   const monthly: MonthlyPoint[] = Array.from({ length: 12 }, emptyMonth);
 
   let h1RunMi = 0, h1RunSec = 0, h2RunMi = 0, h2RunSec = 0;
+  const recordUnit = recordDistanceUnit(unitHints.distance, unitSystem);
+  const strideSums = Array.from({ length: 12 }, () => ({ stride: 0, strideN: 0, cadence: 0, cadenceN: 0 }));
 
   for (const row of rows) {
     const date = parseDateWithLocale(row['Date']);
@@ -69,18 +81,28 @@ export function computeTrends(
       if (distMi > pt.longestRunMi) pt.longestRunMi = distMi;
       if (mIdx <= 5) { h1RunMi += distMi; h1RunSec += seconds; }
       else { h2RunMi += distMi; h2RunSec += seconds; }
+      const rec = toActivityRecord(row, recordUnit);
+      const sums = strideSums[mIdx]!;
+      if (rec.avgStrideLengthM != null) { sums.stride += rec.avgStrideLengthM; sums.strideN += 1; }
+      if (rec.avgRunCadence != null) { sums.cadence += rec.avgRunCadence; sums.cadenceN += 1; }
     }
     if (type === 'Cycling') {
       pt.bikeMi += distMi;
     }
     if (type === 'Swimming') {
-      pt.swimMeters += parseNumber(row['Distance']);
+      pt.swimMeters += swimDistanceMeters(row, toActivityRecord(row, recordUnit), unitHints.distance === 'm');
     }
     if (type !== 'Running' && type !== 'Cycling' && type !== 'Swimming') {
       pt.otherMi += distMi;
     }
   }
 
+  strideSums.forEach((sums, i) => {
+    const pt = monthly[i]!;
+    pt.runStrideM = sums.strideN ? sums.stride / sums.strideN : null;
+    pt.runCadenceSpm = sums.cadenceN ? sums.cadence / sums.cadenceN : null;
+  });
+
   const activeMonths = monthly.filter((p) => p.sessions > 0).length;
 
   let busiestMonth: TrendMetrics['busiestMonth'] = null;
@@ -128,6 +150,13 @@ export function computeTrends(
   }
   const grewBy = earliestMi != null && peakMi > earliestMi ? peakMi - earliestMi : null;
 
+  const strideMonths = monthly.map((p, i) => ({ i, v: p.runStrideM })).filter((x): x is { i: number; v: number } => x.v != null);
+  const firstStride = strideMonths[0];
+  const lastStride = strideMonths[strideMonths.length - 1];
+  const strideLength: TrendMetrics['strideLength'] = firstStride && lastStride && strideMonths.length >= 2
+    ? { firstMonthIdx: firstStride.i, firstM: firstStride.v, lastMonthIdx: lastStride.i, lastM: lastStride.v, changeM: lastStride.v - firstStride.v }
+    : null;
+
   return {
     monthly,
     activeMonths,
@@ -135,5 +164,6 @@ export function computeTrends(
     mostImprovedMonth,
     runningPace: { firstHalfSecPerMi, secondHalfSecPerMi, improvedSecPerMi },
     longestRun: { earliestMi, peakMi, peakMonthIdx, grewBy },
+    strideLength,
   };
 }
@@ -11,6 +11,78 @@ export type UnitHint = 'm' | 'km' | 'mi' | 'ft' | null;
 export type RawRow = unknown[];
 export type Raw2D = RawRow[];
 
+/**
+ * One sample from a recorded activity (FIT/GPX/TCX). Metric units throughout. Tracks read
+ * from an account archive are thinned (lib/archive.ts): they never carry speedMps or
+ * cadence, so derive speed from distM and time.
+ */
+export type TrackPoint = {
+  time: number;       // epoch ms
+  lat?: number;       // degrees
+  lon?: number;       // degrees
+  altM?: number;
+  distM?: number;     // cumulative distance from the start
+  speedMps?: number;
+  hr?: number;
+  cadence?: number;
+  power?: number;
+};
+
+/** A single activity decoded from a device file: a CSV-shaped summary row + its samples. */
+export type ActivityFile = {
+  row: CsvRow;
+  track: TrackPoint[];
+};
+
+/**
+ * Typed view of an activity row's optional Garmin columns (lib/activity-columns
+ * toActivityRecord), in metric units. Absent or "--" cells are undefined.
+ */
+export type ActivityRecord = {
+  favorite?: boolean;
+  avgSpeedKmh?: number;
+  maxSpeedKmh?: number;
+  avgRunCadence?: number;          // steps/min
+  maxRunCadence?: number;
+  avgBikeCadence?: number;         // rpm
+  maxBikeCadence?: number;
+  avgStrideLengthM?: number;
+  avgVerticalRatio?: number;       // %
+  avgVerticalOscillationCm?: number;
+  avgGroundContactMs?: number;
+  avgGapSecPerKm?: number;         // grade-adjusted pace
+  avgPower?: number;               // W
+  maxPower?: number;
+  normalizedPower?: number;
+  maxAvgPower20Min?: number;
+  trainingStressScore?: number;
+  intensityFactor?: number;
+  totalWorkKj?: number;
+  aerobicTE?: number;              // 0–5
+  anaerobicTE?: number;
+  trainingLoad?: number;
+  totalStrokes?: number;
+  avgSwolf?: number;
+  avgStrokeRate?: number;          // strokes/min
+  poolLengthM?: number;            // metres, like swim distance
+  poolLengthUnit?: 'm' | 'yd';     // the pool's own unit, when the row says
+  numberOfLaps?: number;
+  bestLapSeconds?: number;
+  minTempC?: number;
+  maxTempC?: number;
+  avgRespiration?: number;         // breaths/min
+  minRespiration?: number;
+  maxRespiration?: number;
+  totalReps?: number;
+  totalSets?: number;
+  bodyBatteryDrain?: number;
+  grit?: number;                   // mountain bike ride scores
+  flow?: number;
+  diveSeconds?: number;
+  surfaceIntervalSeconds?: number;
+  decompression?: boolean;         // the dive needed decompression stops
+};
+
 export type ActivityTypeSummary = {
   name: string;
   count: number;
@@ -29,6 +101,7 @@ export type Metrics = {
   favoriteActivity?: { name: string; count: number };
   mostActiveMonth?: { name: string; totalHours: number };
   longestStreak?: { lengthDays: number; start: string; end: string };
+  longestWeekStreak?: { weeks: number; start: string; end: string };   // consecutive Monday–Sunday weeks with a session
   longestActivity?: { title: string; date: string; durationSeconds: number; calories?: number; type: string };
   highestCalorie?: { title: string; date: string; calories: number; durationSeconds?: number; type: string };
   totalAscent?: number;
@@ -48,6 +121,131 @@ export type Metrics = {
   runLongest?: { title: string; distanceMi: number };
   bikeLongest?: { title: string; distanceMi: number };
   swimLongest?: { title: string; distanceM: number };
+
+  // From optional columns (see ActivityRecord); absent when the export doesn't carry them.
+  runCadenceSpm?: number;
+  bikeCadenceRpm?: number;
+  bikeAvgPowerW?: number;
+  bikePeakNormalizedPower?: { title: string; date: string; watts: number };
+  avgAerobicTE?: number;
+  avgAnaerobicTE?: number;
+  topAerobicTE?: { title: string; date: string; te: number; type: string };
+  swim?: SwimSummary;
+
+  bikePower?: CyclingPower;
+};
+
+export type SwimVenue = 'pool' | 'openWater';
+
+/** Swims for a year (lib/swim.ts). Meters and seconds; paces in the display unit. */
+export type SwimSummary = {
+  venues: Record<SwimVenue, { sessions: number; meters: number; seconds: number }>;
+  displayUnit: 'm' | 'yd';                         // yd when most pool distance was in yard pools
+  totalStrokes: number | null;
+  strokesPer100: number | null;                    // per 100 displayUnit
+  avgSwolf: number | null;                         // pool swims only
+  monthlyPacePer100: Array<number | null>;         // seconds per 100 displayUnit, Jan..Dec
+  longestOpenWater: { title: string; date: string; meters: number; seconds: number } | null;
+};
+
+export type PowerBand = 'endurance' | 'tempo' | 'sweetspot' | 'threshold' | 'above';
+
+/** Cycling power for a year (lib/power.ts). Watts, kJ; dates are display strings. */
+export type CyclingPower = {
+  rides: number;                                   // rides carrying any power column
+  totalWorkKj: number;
+  estimatedFtp: number | null;                     // 95% of the year's best 20-min power
+  monthlyFtp: Array<number | null>;                // length 12, Jan..Dec
+  ftpChange: number | null;                        // last month with data minus the first
+  intensitySeconds: Record<PowerBand, number>;     // ride time by intensity factor
+  topTssRide: { title: string; date: string; tss: number; intensityFactor: number | null; normalizedPower: number | null; durationSeconds: number } | null;
+  biggestDay: { date: string; kj: number; tss: number; rides: number; title: string } | null;
+};
+
+export type HrvStatus = 'balanced' | 'unbalanced' | 'low' | 'poor';
+
+/**
+ * One calendar day of wellness data, keyed by local ISO date ("2025-03-14"). Filled from
+ * Garmin's daily report CSVs and the account archive JSON (lib/wellness-days.ts).
+ */
+export type WellnessDay = {
+  date: string;
+  steps?: number;
+  sleepScore?: number;
+  sleepMinutes?: number;
+  deepMinutes?: number;
+  lightMinutes?: number;
+  remMinutes?: number;
+  awakeMinutes?: number;
+  bedtime?: number;            // minutes after local midnight; the night ends on `date`
+  wakeTime?: number;
+  restingHr?: number;
+  hrvOvernight?: number;       // ms, last night's average
+  hrvWeeklyAvg?: number;       // ms, 7-day average (what the status is judged on)
+  hrvBaselineLow?: number;     // ms, the "balanced" band
+  hrvBaselineHigh?: number;
+  hrvStatus?: HrvStatus;
+  avgStress?: number;          // 0–100
+  maxStress?: number;
+  bodyBatteryHigh?: number;    // 0–100
+  bodyBatteryLow?: number;
+  bodyBatteryCharged?: number;
+  bodyBatteryDrained?: number;
+};
+
+export type WellnessStore = Map<string, WellnessDay>;
+
+/** Resting heart rate and HRV over a year of wellness days (lib/heart.ts). */
+export type HeartTrend = {
+  restingHr: {
+    days: number;
+    avg: number;
+    lowest: { bpm: number; date: string };
+    monthly: Array<number | null>;     // Jan..Dec averages
+    change: { firstMonthIdx: number; first: number; lastMonthIdx: number; last: number; bpm: number } | null;   // bpm < 0 = calmer
+  } | null;
+  hrv: {
+    nights: number;
+    avgOvernight: number | null;       // ms
+    baseline: { low: number; high: number } | null;   // the year's average "balanced" band
+    statusDays: Record<HrvStatus, number>;
+  } | null;
+  // Resting HR in the month you trained most vs least.
+  volume: {
+    busiest: { monthIdx: number; hours: number; restingHr: number };
+    quietest: { monthIdx: number; hours: number; restingHr: number };
+  } | null;
+};
+
+/** One day's weigh-in (several on a day are averaged). Always metric. */
+export type WeightEntry = {
+  date: string;                // local ISO date
+  weightKg: number;
+  bodyFatPct?: number;
+  muscleMassKg?: number;
+  bmi?: number;
+};
+
+/** A year of weigh-ins (lib/body.ts). Weights in kg; the page converts for imperial. */
+export type BodyComposition = {
+  weighIns: number;
+  start: { date: string; kg: number };
+  end: { date: string; kg: number };
+  min: { date: string; kg: number };
+  max: { date: string; kg: number };
+  changeKg: number;                          // end - start
+  bodyFat: { start: number; end: number; change: number } | null;   // percentage points
+  muscleChangeKg: number | null;
+  monthlyKg: Array<number | null>;           // Jan..Dec averages
+  monthlyBodyFat: Array<number | null>;
+};
+
+export type DailyWellnessSummary = {
+  days: number;                        // days with resting HR, stress or Body Battery
+  avgRestingHr: number | null;
+  avgStress: number | null;
+  avgBodyBatteryHigh: number | null;
+  avgBodyBatteryLow: number | null;
 };
 
 export type SleepMetrics = {
@@ -57,6 +255,22 @@ export type SleepMetrics = {
   bestScoreWeek: { label: string; score: number; durationMinutes: number } | null;
   worstScoreWeek: { label: string; score: number; durationMinutes: number } | null;
   longestSleepWeek: { label: string; durationMinutes: number; score: number } | null;
+  nights: SleepNights | null;          // daily data only (lib/sleep-nights.ts)
+};
+
+export type SleepStage = 'deep' | 'light' | 'rem' | 'awake';
+
+/** Night-by-night sleep detail. Clock times are minutes after midnight; bedtimes after midnight run past 1440. */
+export type SleepNights = {
+  nights: number;
+  stageShare: Record<SleepStage, number> | null;   // fractions of staged time, summing to 1
+  bedtime: { avg: number; sd: number } | null;
+  wakeTime: { avg: number; sd: number } | null;
+  socialJetlagMinutes: number | null;              // weekend vs weekday sleep midpoint
+  weekdayMidpoint: number | null;
+  weekendMidpoint: number | null;
+  bestNight: { date: string; score: number; minutes: number } | null;
+  longestStreak: { nights: number; start: string; end: string } | null;   // consecutive 7h+ nights
 };
 
 export type StepsMetrics = {
@@ -0,0 +1,134 @@
+// lib/weekly.ts — ISO-week volume and consistency for one year.
+//
+// Monthly bars hide the shape of a training block; weeks show it. Weeks follow ISO 8601
+// (Monday start, week 1 holds the first Thursday), so a year has 52 or 53 of them and
+// the first days of January can belong to last year's final week. Consistency is the
+// share of weeks so far with at least N sessions, plus the longest unbroken run of
+// such weeks — fairer than a day streak to anyone who takes rest days.
+
+import type { CsvRow, UnitHint, UnitSystem } from './types';
+import { parseDateWithLocale, parseTimeToSeconds, toStringSafe } from './parse';
+import { canonicalizeActivityType, recordDistanceUnit, toActivityRecord } from './activity-columns';
+import { swimDistanceMeters } from './swim';
+import { MILE_M } from './constants';
+import { normalizeDistanceToMiles } from './normalize';
+import { calendarSportOf } from './calendar';
+import type { CalendarSport } from './calendar';
+import { isoDay } from './wellness-days';
+
+export type WeekTotals = { sessions: number; seconds: number; distanceMi: number };
+
+export type WeekPoint = WeekTotals & {
+  week: number;                            // ISO week number, 1-based
+  monday: string;                          // local "YYYY-MM-DD"
+  future: boolean;                         // starts after today
+  bySport: Record<CalendarSport, WeekTotals>;
+};
+
+export type WeeklyVolume = {
+  year: number;                            // ISO week-year
+  weeks: WeekPoint[];                      // 52 or 53, in order
+};
+
+export type WeeklyConsistency = {
+  minSessions: number;
+  weeksCounted: number;                    // weeks started so far
+  activeWeeks: number;                     // of those, with >= minSessions
+  share: number;                           // 0..1
+  longestRun: { weeks: number; startWeek: number; endWeek: number } | null;
+};
+
+const DAY_MS = 86400000;
+
+const emptyTotals = (): WeekTotals => ({ sessions: 0, seconds: 0, distanceMi: 0 });
+
+/** ISO week-year, week number and that week's Monday (local midnight) for a date. */
+export function isoWeekOf(date: Date): { year: number; week: number; monday: Date } {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  const thursday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 3);
+  const year = thursday.getFullYear();
+  const dayOfYear = Math.round((Date.UTC(year, thursday.getMonth(), thursday.getDate()) - Date.UTC(year, 0, 1)) / DAY_MS);
+  return { year, week: Math.floor(dayOfYear / 7) + 1, monday };
+}
+
+/** Every ISO week of `year` with its totals, or null when none has a session. Pass all rows. */
+export function computeWeeklyVolume(
+  rows: CsvRow[],
+  year: number,
+  unitSystem: UnitSystem,
+  unitHints: { distance: UnitHint; ascent: UnitHint; elevation: UnitHint }
+): WeeklyVolume | null {
+  const weekCount = isoWeekOf(new Date(year, 11, 28)).week;   // Dec 28 is always in the last week
+  const firstMonday = isoWeekOf(new Date(year, 0, 4)).monday;  // Jan 4 is always in week 1
+  const today = isoDay(new Date());
+  const weeks: WeekPoint[] = Array.from({ length: weekCount }, (_, i) => {
+    const monday = isoDay(new Date(firstMonday.getFullYear(), firstMonday.getMonth(), firstMonday.getDate() + i * 7));
+    return {
+      ...emptyTotals(),
+      week: i + 1,
+      monday,
+      future: monday > today,
+      bySport: { run: emptyTotals(), bike: emptyTotals(), swim: emptyTotals(), other: emptyTotals() },
+    };
+  });
+
+  const recordUnit = recordDistanceUnit(unitHints.distance, unitSystem);
+  let any = false;
+  for (const row of rows) {
+    const date = parseDateWithLocale(row['Date']);
+    if (!date) continue;
+    const iso = isoWeekOf(date);
+    if (iso.year !== year) continue;
+    const type = canonicalizeActivityType(toStringSafe(row['Activity Type']));
+    const sport = calendarSportOf(type);
+    const seconds = parseTimeToSeconds(row['Time'] ?? row['Moving Time'] ?? row['Elapsed Time']);
+    // Swim distance is meters, yard pools converted (as in computeMetrics).
+    const distanceMi = sport === 'swim'
+      ? swimDistanceMeters(row, toActivityRecord(row, recordUnit), unitHints.distance === 'm') / MILE_M
+      : normalizeDistanceToMiles(row['Distance'], type, unitHints.distance, unitSystem);
+    const w = weeks[iso.week - 1]!;
+    for (const t of [w, w.bySport[sport]]) {
+      t.sessions += 1;
+      t.seconds += seconds;
+      t.distanceMi += distanceMi;
+    }
+    any = true;
+  }
+  return any ? { year, weeks } : null;
+}
+
+/** Trailing average over `window` values; the first few average what's there so far. */
+export function rollingAverage(values: number[], window = 4): number[] {
+  return values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((a, b) => a + b, 0) / slice.length;
+  });
+}
+
+/** Share of weeks so far with at least `minSessions` sessions, and the longest run of them. */
+export function weeklyConsistency(
+  weekly: WeeklyVolume,
+  sport: CalendarSport | 'all',
+  minSessions: number
+): WeeklyConsistency {
+  const counted = weekly.weeks.filter((w) => !w.future);
+  let activeWeeks = 0, run = 0;
+  let longestRun: WeeklyConsistency['longestRun'] = null;
+  for (const w of counted) {
+    const sessions = sport === 'all' ? w.sessions : w.bySport[sport].sessions;
+    if (sessions >= minSessions) {
+      activeWeeks += 1;
+      run += 1;
+      if (!longestRun || run > longestRun.weeks) longestRun = { weeks: run, startWeek: w.week - run + 1, endWeek: w.week };
+    } else {
+      run = 0;
+    }
+  }
+  return {
+    minSessions,
+    weeksCounted: counted.length,
+    activeWeeks,
+    share: counted.length ? activeWeeks / counted.length : 0,
+    longestRun,
+  };
+}
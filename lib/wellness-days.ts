@@ -0,0 +1,171 @@
+// lib/wellness-days.ts — Day-keyed wellness store (steps, sleep, resting HR, stress, Body Battery).
+//
+// Garmin's daily exports (the 7-day / 4-week Reports CSVs) and the account archive's
+// wellness JSON both hold one record per calendar day. They all merge into a single
+// store keyed by local ISO date, which splits by year the same way partitionByYear
+// splits activities — unlike the weekly one-year reports, which can't.
+
+import type { HrvStatus, WellnessDay, WellnessStore } from './types';
+import { toStringSafe, parseNumber, parseClockToMinutes, parseDateWithLocale, parseSleepDurationToMinutes } from './parse';
+import { normalizeKey } from './activity-columns';
+
+type NumericField = { [K in keyof WellnessDay]-?: WellnessDay[K] extends number | undefined ? K : never }[keyof WellnessDay];
+// HRV reports also carry a baseline range ("45ms - 60ms") and a status word.
+type ColumnField = NumericField | 'hrvBaseline' | 'hrvStatus';
+
+/** Local "YYYY-MM-DD" for a Date. */
+export function isoDay(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * A single calendar day from a report's first column, or null for anything else —
+ * weekly labels ("Jan 1 - Jan 7"), month names, totals rows.
+ */
+export function parseDayLabel(value: unknown): string | null {
+  const s = toStringSafe(value).replace(/\u00A0/g, ' ');
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|[ T])/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  // Everything else needs a year and must not be a range.
+  if (!/\b\d{4}\b/.test(s) || /\s[-–]\s|\bto\b/.test(s)) return null;
+  const d = parseDateWithLocale(s);
+  return d ? isoDay(d) : null;
+}
+
+/** Merge days into the store; a later value for the same field and day wins. */
+export function mergeWellnessDays(store: WellnessStore | null, days: WellnessDay[]): WellnessStore {
+  const next: WellnessStore = new Map(store ?? []);
+  for (const day of days) {
+    const prev = next.get(day.date);
+    const merged: WellnessDay = { ...prev, date: day.date };
+    for (const [k, v] of Object.entries(day) as Array<[keyof WellnessDay, WellnessDay[keyof WellnessDay]]>) {
+      if (k !== 'date' && v != null) (merged as Record<string, unknown>)[k] = v;
+    }
+    next.set(day.date, merged);
+  }
+  return next;
+}
+
+/** Wellness days grouped by calendar year, each list in date order. */
+export function partitionWellnessByYear(store: WellnessStore): Map<number, WellnessDay[]> {
+  const out = new Map<number, WellnessDay[]>();
+  for (const day of [...store.values()].sort((a, b) => a.date.localeCompare(b.date))) {
+    const year = parseInt(day.date.slice(0, 4), 10);
+    const list = out.get(year) ?? [];
+    list.push(day);
+    out.set(year, list);
+  }
+  return out;
+}
+
+/** Years with any wellness data, ascending. */
+export function wellnessYears(store: WellnessStore): number[] {
+  return [...partitionWellnessByYear(store).keys()].sort((a, b) => a - b);
+}
+
+/* ----------------------------- Daily report CSVs ----------------------------- */
+
+// Column headers by field, as normalized substrings (English, German, French, Spanish,
+// Dutch). Checked in order, so the more specific names come first.
+const HRV_CONTEXT = /hrv|vfc|hfv|variabilit/;
+const COLUMN_PATTERNS: Array<{ field: ColumnField; re: RegExp; context?: RegExp }> = [
+  { field: 'hrvBaseline', re: /baseline|basislinie|referentiel|lineabase|referentie/, context: HRV_CONTEXT },
+  { field: 'hrvWeeklyAvg', re: /7d|weekly|7tage|7jours|7dias|7dagen/, context: HRV_CONTEXT },
+  { field: 'hrvStatus', re: /^status$|hrvstatus|^statut$|^estado$|^zustand$/, context: HRV_CONTEXT },
+  { field: 'hrvOvernight', re: /overnight|nacht|nocturne|nocturna|hrv|vfc|hfv/, context: HRV_CONTEXT },
+  { field: 'restingHr', re: /resting|ruhe|repos|reposo|rust|rhr/ },
+  { field: 'deepMinutes', re: /deep|tief|profond|profundo|diep/ },
+  { field: 'lightMinutes', re: /light|leicht|leger|ligero|licht/ },
+  { field: 'remMinutes', re: /^rem|remsleep|remschlaf|sommeilparadoxal/ },
+  { field: 'bedtime', re: /bedtime|schlafenszeit|zubettgeh|coucher|acostar|bedtijd/ },
+  { field: 'wakeTime', re: /^waketime|wakeup|aufwachzeit|aufgewacht|reveil|despertar|wakkerwording|opgestaan/ },
+  { field: 'awakeMinutes', re: /awake|wach|eveil|despierto|wakker/ },
+  { field: 'maxStress', re: /maxstress|maximalerstress|stressmax|estresmaximo/ },
+  { field: 'avgStress', re: /stress|estres/ },
+  { field: 'bodyBatteryHigh', re: /highest|high|hochster|hochst|max|eleve|maximo|hoogste/, context: /bodybattery/ },
+  { field: 'bodyBatteryLow', re: /lowest|low|niedrigster|niedrig|min|bas|minimo|laagste/, context: /bodybattery/ },
+  { field: 'bodyBatteryDrained', re: /drain|verbraucht|dechargee|agotad|verbruikt/, context: /bodybattery/ },
+  { field: 'bodyBatteryCharged', re: /charge|aufgeladen|rechargee|cargad|opgeladen|bodybattery/, context: /bodybattery/ },
+  { field: 'sleepScore', re: /score|wertung|punktzahl|puntuacion/, context: /sleep|schlaf|sommeil|sueno|slaap/ },
+  { field: 'sleepMinutes', re: /duration|dauer|duree|duracion|duur/, context: /sleep|schlaf|sommeil|sueno|slaap/ },
+  { field: 'steps', re: /steps|actual|schritte|tatsachlich|^pas$|pasos|stappen|werkelijk/ },
+];
+const SKIP_COLUMN = /goal|ziel|objectif|objetivo|doel|need|bedarf|besoin|necesidad|behoefte/;
+const MINUTE_FIELDS = new Set<ColumnField>(['sleepMinutes', 'deepMinutes', 'lightMinutes', 'remMinutes', 'awakeMinutes']);
+const CLOCK_FIELDS = new Set<ColumnField>(['bedtime', 'wakeTime']);
+const MIN_DAILY_ROWS = 2;
+
+const HRV_STATUS_WORDS: Array<[HrvStatus, RegExp]> = [
+  // "unbalanced" first: it contains "balanced".
+  ['unbalanced', /unbalanced|unausgeglichen|desequilibr|uitbalans|onevenwichtig/],
+  ['balanced', /balanced|ausgeglichen|equilibr|gebalanceerd|evenwichtig/],
+  ['low', /^low$|niedrig|faible|^bajo$|^laag$/],
+  ['poor', /poor|schlecht|mauvais|deficiente|slecht/],
+];
+
+/** Garmin's HRV status word (any export language) → status, or null. */
+export function hrvStatusOf(value: unknown): HrvStatus | null {
+  const key = normalizeKey(toStringSafe(value));
+  return key ? HRV_STATUS_WORDS.find(([, re]) => re.test(key))?.[0] ?? null : null;
+}
+
+function numberCell(field: NumericField, s: string): number | undefined {
+  if (CLOCK_FIELDS.has(field)) return parseClockToMinutes(s) ?? undefined;   // midnight is a valid 0
+  const n = MINUTE_FIELDS.has(field) ? parseSleepDurationToMinutes(s) : parseNumber(s);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function applyCell(day: WellnessDay, field: ColumnField, v: unknown): void {
+  const s = toStringSafe(v);
+  if (!s || s === '--') return;
+  if (field === 'hrvBaseline') {
+    const range = s.match(/(\d+(?:[.,]\d+)?)\D+?(\d+(?:[.,]\d+)?)/);
+    if (range) { day.hrvBaselineLow = parseNumber(range[1]); day.hrvBaselineHigh = parseNumber(range[2]); }
+    return;
+  }
+  if (field === 'hrvStatus') {
+    // The Sleep report's "HRV Status" column holds the overnight value in ms instead.
+    const status = hrvStatusOf(s);
+    if (status) day.hrvStatus = status;
+    else if (!day.hrvOvernight) day.hrvOvernight = numberCell('hrvOvernight', s);
+    return;
+  }
+  const n = numberCell(field, s);
+  if (n != null) day[field] = n;
+}
+
+/**
+ * Map a daily Reports CSV (sleep, steps, resting HR, HRV, stress, Body Battery) to wellness
+ * days. Returns [] when the first column isn't one calendar day per row — the weekly
+ * one-year reports go through mapSleepRowsByIndex / mapStepsRowsByIndex instead.
+ */
+export function mapDailyWellnessRows(rows2D: unknown[][]): WellnessDay[] {
+  if (rows2D.length < MIN_DAILY_ROWS + 1) return [];
+  const header = (rows2D[0] as unknown[]).map((h) => normalizeKey(toStringSafe(h)));
+  const body = rows2D.slice(1) as unknown[][];
+  const dated = body.filter((r) => Array.isArray(r) && parseDayLabel(r[0]) != null);
+  if (dated.length < MIN_DAILY_ROWS || dated.length < body.length / 2) return [];
+
+  // The first header cell names the report ("Sleep Score 4 Weeks", "Body Battery 7 Days").
+  const context = header.join('|');
+  const columns: Array<{ idx: number; field: ColumnField }> = [];
+  header.forEach((h, idx) => {
+    if (idx === 0 || !h || SKIP_COLUMN.test(h)) return;
+    const match = COLUMN_PATTERNS.find((p) => p.re.test(h) && (!p.context || p.context.test(context)));
+    if (match && !columns.some((c) => c.field === match.field)) columns.push({ idx, field: match.field });
+  });
+  // A bare two-column report ("", "Resting Heart Rate") names its metric in the first cell.
+  if (!columns.length && header.length === 2) {
+    const match = COLUMN_PATTERNS.find((p) => p.re.test(header[0]!) && (!p.context || p.context.test(context)));
+    if (match) columns.push({ idx: 1, field: match.field });
+  }
+  if (!columns.length) return [];
+
+  return dated
+    .map((r) => {
+      const day: WellnessDay = { date: parseDayLabel(r[0])! };
+      for (const { idx, field } of columns) applyCell(day, field, r[idx]);
+      return day;
+    })
+    .filter((d) => Object.values(d).filter((v) => v != null).length > 1);
+}
@@ -1,10 +1,12 @@
 // lib/wellness.ts — Sleep + Steps CSV mapping and metrics (optional uploads).
 
-import type { CsvRow, SleepMetrics, StepsMetrics } from './types';
+import type { CsvRow, DailyWellnessSummary, SleepMetrics, StepsMetrics, WellnessDay } from './types';
 import {
   asCell, toStringSafe, isTextual,
   parseNumber, parseIntStrict, parseSleepDurationToMinutes,
 } from './parse';
+import { formatDateDisplay } from './format';
+import { computeSleepNights } from './sleep-nights';
 
 /* ----------------------- Sleep (headerless + heuristics) ----------------------- */
 
@@ -142,6 +144,52 @@ export function mapStepsRowsByIndex(rows2D: unknown[][]): CsvRow[] {
   }));
 }
 
+/* ----------------------- Daily records → weekly rows ----------------------- */
+// Daily exports and the account archive hold one record per day. Roll a year of them
+// into the same weekly rows the 1-year reports produce, so the metrics below stay unchanged.
+
+function isoToLocalDate(iso: string): Date { return new Date(iso + 'T00:00:00'); }
+
+/** Group daily records into Monday-based weeks, oldest first. */
+function groupWeeks<T extends { date: string }>(days: T[]): { label: string; days: T[] }[] {
+  const weeks = new Map<number, T[]>();
+  for (const d of days) {
+    const dt = isoToLocalDate(d.date);
+    if (Number.isNaN(dt.getTime())) continue;
+    const monday = new Date(dt.getFullYear(), dt.getMonth(), dt.getDate() - ((dt.getDay() + 6) % 7));
+    const key = monday.getTime();
+    const bucket = weeks.get(key);
+    if (bucket) bucket.push(d);
+    else weeks.set(key, [d]);
+  }
+  return Array.from(weeks.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, ds]) => ({ label: `Week of ${formatDateDisplay(new Date(start))}`, days: ds }));
+}
+
+export function weeklySleepRowsFromDaily(days: WellnessDay[]): CsvRow[] {
+  const nights = days.filter(d => (d.sleepScore ?? 0) > 0 || (d.sleepMinutes ?? 0) > 0);
+  return groupWeeks(nights).map(({ label, days: ds }) => {
+    const scores = ds.map(d => d.sleepScore ?? 0).filter(v => v > 0);
+    const mins = ds.map(d => d.sleepMinutes ?? 0).filter(v => v > 0);
+    const avgScore = scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null;
+    const avgMins = mins.length ? Math.round(mins.reduce((a, b) => a + b, 0) / mins.length) : 0;
+    return {
+      'Date':         label,
+      'Avg Score':    avgScore,
+      'Avg Duration': avgMins ? `${Math.floor(avgMins / 60)}:${String(avgMins % 60).padStart(2, '0')}` : null,
+    };
+  });
+}
+
+export function weeklyStepsRowsFromDaily(days: WellnessDay[]): CsvRow[] {
+  return groupWeeks(days.filter(d => (d.steps ?? 0) > 0)).map(({ label, days: ds }) => ({
+    'Label': label,
+    'Steps': ds.reduce((a, d) => a + (d.steps ?? 0), 0),
+    'Days':  ds.length,
+  }));
+}
+
 /* ----------------------------- Metrics ----------------------------- */
 
 export function computeSleepMetrics(rows: CsvRow[]): SleepMetrics {
@@ -189,6 +237,7 @@ export function computeSleepMetrics(rows: CsvRow[]): SleepMetrics {
     bestScoreWeek,
     worstScoreWeek,
     longestSleepWeek,
+    nights: null,
   };
 }
 
@@ -223,3 +272,34 @@ export function computeStepsMetrics(rows: CsvRow[]): StepsMetrics {
 
   return { weeks: periods, totalSteps, avgStepsPerDay, bestWeek, worstWeek };
 }
+
+/* ----------------------------- Daily store ----------------------------- */
+// One year's days from the wellness store (lib/wellness-days.ts). Null when the days
+// carry no sleep / steps, so callers can fall back to an uploaded weekly report.
+
+export function computeSleepMetricsFromDays(days: WellnessDay[]): SleepMetrics | null {
+  const rows = weeklySleepRowsFromDaily(days);
+  return rows.length ? { ...computeSleepMetrics(rows), nights: computeSleepNights(days) } : null;
+}
+
+export function computeStepsMetricsFromDays(days: WellnessDay[]): StepsMetrics | null {
+  const rows = weeklyStepsRowsFromDaily(days);
+  return rows.length ? computeStepsMetrics(rows) : null;
+}
+
+const avgField = (days: WellnessDay[], key: 'restingHr' | 'avgStress' | 'bodyBatteryHigh' | 'bodyBatteryLow'): number | null => {
+  const vs = days.map(d => d[key]).filter((v): v is number => v != null && v > 0);
+  return vs.length ? vs.reduce((a, b) => a + b, 0) / vs.length : null;
+};
+
+/** Year averages of the daily-only readings (resting HR, stress, Body Battery). */
+export function computeDailyWellnessSummary(days: WellnessDay[]): DailyWellnessSummary | null {
+  const summary: DailyWellnessSummary = {
+    days: days.filter(d => d.restingHr != null || d.avgStress != null || d.bodyBatteryHigh != null || d.bodyBatteryLow != null).length,
+    avgRestingHr: avgField(days, 'restingHr'),
+    avgStress: avgField(days, 'avgStress'),
+    avgBodyBatteryHigh: avgField(days, 'bodyBatteryHigh'),
+    avgBodyBatteryLow: avgField(days, 'bodyBatteryLow'),
+  };
+  return summary.days ? summary : null;
+}
@@ -0,0 +1,151 @@
+// lib/zones.ts — Heart-rate zone model and time-in-zone for a year of activities.
+//
+// Zones are five bands defined by four upper bounds, as a percentage of either max HR
+// or lactate-threshold HR (LTHR). Device files with an HR stream are binned sample by
+// sample (exact); CSV rows only have an average, so the whole activity is credited to
+// the zone of its average HR (an estimate — it under-counts both ends).
+
+import type { ActivityFile, CsvRow } from './types';
+import { parseDateWithLocale, parseNumber, parseTimeToSeconds, toStringSafe } from './parse';
+import { canonicalizeActivityType } from './activity-columns';
+
+export type ZoneBasis = 'maxHr' | 'lthr';
+
+export type ZoneModel = {
+  basis: ZoneBasis;
+  referenceHr: number;                          // max HR or LTHR, bpm
+  upperPct: [number, number, number, number];   // Z1..Z4 upper bounds, % of referenceHr
+};
+
+export type ZoneSport = 'run' | 'bike' | 'swim' | 'other';
+export type ZoneSeconds = [number, number, number, number, number];
+
+export type ZoneBreakdown = {
+  totals: ZoneSeconds;
+  bySport: Record<ZoneSport, ZoneSeconds>;
+  monthly: ZoneSeconds[];        // length 12, Jan..Dec
+  exactShare: number;            // 0..1 of binned time that came from HR streams
+  easyShare: number | null;      // Z1+Z2 share of binned time (the "80" in 80/20)
+};
+
+export const ZONE_COUNT = 5;
+
+/** Garmin's %max-HR zones and Friel's %LTHR running zones. */
+export const DEFAULT_ZONE_BOUNDS: Record<ZoneBasis, ZoneModel['upperPct']> = {
+  maxHr: [60, 70, 80, 90],
+  lthr: [85, 90, 95, 100],
+};
+
+const MIN_PLAUSIBLE_MAX_HR = 120;
+const MAX_PLAUSIBLE_MAX_HR = 230;
+const MAX_SAMPLE_GAP_S = 30;     // longer gaps are pauses; don't credit them to a zone
+const LTHR_FROM_MAX = 0.9;       // rough LTHR when only max HR is known
+
+export function defaultZoneModel(basis: ZoneBasis, referenceHr: number): ZoneModel {
+  return { basis, referenceHr, upperPct: [...DEFAULT_ZONE_BOUNDS[basis]] };
+}
+
+/** Highest plausible Max HR across every loaded row (the default reference). */
+export function estimateMaxHr(rows: CsvRow[]): number | null {
+  let best = 0;
+  for (const row of rows) {
+    const hr = parseNumber(row['Max HR']);
+    if (hr >= MIN_PLAUSIBLE_MAX_HR && hr <= MAX_PLAUSIBLE_MAX_HR && hr > best) best = hr;
+  }
+  return best || null;
+}
+
+/** A starting reference for the basis: observed max HR, or ~90% of it for LTHR. */
+export function suggestedReferenceHr(basis: ZoneBasis, maxHr: number): number {
+  return basis === 'lthr' ? Math.round(maxHr * LTHR_FROM_MAX) : Math.round(maxHr);
+}
+
+/** Bounds must rise strictly; the dashboard shows automatic zones until they do. */
+export function isValidZoneModel(m: ZoneModel): boolean {
+  return m.referenceHr > 0 && m.upperPct.every((p, i) => p > 0 && (i === 0 || p > m.upperPct[i - 1]!));
+}
+
+/** Zone index 0..4 for a heart rate. */
+export function zoneOf(hr: number, model: ZoneModel): number {
+  const pct = (hr / model.referenceHr) * 100;
+  const idx = model.upperPct.findIndex((upper) => pct < upper);
+  return idx === -1 ? ZONE_COUNT - 1 : idx;
+}
+
+/** Display bounds in bpm: ["< 114", "114–132", …, "≥ 171"]. */
+export function zoneRangeLabels(model: ZoneModel): string[] {
+  const bpm = model.upperPct.map((p) => Math.round((p / 100) * model.referenceHr));
+  return [`< ${bpm[0]}`, ...bpm.slice(0, -1).map((lo, i) => `${lo}–${bpm[i + 1]! - 1}`), `≥ ${bpm[bpm.length - 1]}`];
+}
+
+function sportOf(row: CsvRow): ZoneSport {
+  const t = canonicalizeActivityType(toStringSafe(row['Activity Type']));
+  if (t === 'Running') return 'run';
+  if (t === 'Cycling') return 'bike';
+  if (t === 'Swimming') return 'swim';
+  return 'other';
+}
+
+const emptyZones = (): ZoneSeconds => [0, 0, 0, 0, 0];
+
+/** Bin an HR stream; each sample's HR holds until the next sample. */
+function streamZones(file: ActivityFile, model: ZoneModel): ZoneSeconds | null {
+  const pts = file.track.filter((p) => p.hr != null && p.hr > 0);
+  if (pts.length < 2) return null;
+  const out = emptyZones();
+  for (let i = 1; i < pts.length; i++) {
+    const dt = (pts[i]!.time - pts[i - 1]!.time) / 1000;
+    if (dt <= 0 || dt > MAX_SAMPLE_GAP_S) continue;
+    out[zoneOf(pts[i - 1]!.hr!, model)]! += dt;
+  }
+  return out;
+}
+
+/**
+ * Time in zone for one year's rows. `files` are decoded device files (any years);
+ * a row uses a file's HR stream when the file's row is the same object or has the same
+ * start time (archive summaries and their FIT files are separate rows).
+ */
+export function computeZoneBreakdown(rows: CsvRow[], files: ActivityFile[] | null, model: ZoneModel): ZoneBreakdown {
+  const byRow = new Map<CsvRow, ActivityFile>();
+  const byStart = new Map<string, ActivityFile>();
+  for (const f of files ?? []) {
+    byRow.set(f.row, f);
+    byStart.set(toStringSafe(f.row['Date']), f);
+  }
+
+  const totals = emptyZones();
+  const bySport: Record<ZoneSport, ZoneSeconds> = { run: emptyZones(), bike: emptyZones(), swim: emptyZones(), other: emptyZones() };
+  const monthly = Array.from({ length: 12 }, emptyZones);
+  let exactSeconds = 0;
+
+  for (const row of rows) {
+    const date = parseDateWithLocale(row['Date']);
+    if (!date) continue;
+
+    const file = byRow.get(row) ?? byStart.get(toStringSafe(row['Date']));
+    let zones = file ? streamZones(file, model) : null;
+    if (zones) {
+      exactSeconds += zones.reduce((a, b) => a + b, 0);
+    } else {
+      const avgHr = parseNumber(row['Avg HR']);
+      const seconds = parseTimeToSeconds(row['Time'] ?? row['Moving Time'] ?? row['Elapsed Time']);
+      if (avgHr <= 0 || seconds <= 0) continue;
+      zones = emptyZones();
+      zones[zoneOf(avgHr, model)] = seconds;
+    }
+
+    const sport = bySport[sportOf(row)];
+    const month = monthly[date.getMonth()]!;
+    zones.forEach((s, z) => { totals[z]! += s; sport[z]! += s; month[z]! += s; });
+  }
+
+  const binned = totals.reduce((a, b) => a + b, 0);
+  return {
+    totals,
+    bySport,
+    monthly,
+    exactShare: binned ? exactSeconds / binned : 0,
+    easyShare: binned ? (totals[0] + totals[1]) / binned : null,
+  };
+}